@@ -9,15 +9,55 @@ import {
   TabMode, 
   ComparisonMode, 
   ToolMode, 
-  DevImage 
+  DevImage,
+  WorkspaceSnapshot,
+  AnalyzerSettings,
+  FigmaSettings,
+  CaptureSettings,
+  DesignImage,
+  DeviceProfile,
+  ImageCalibration,
+  MeasureUnit
 } from './types';
-import { analyzeVisualDifferences } from './services/geminiService';
+import { createVisionAnalyzer, findingsToIssues, DEFAULT_ANALYZER_SETTINGS, ANALYZER_PRESETS, AnalysisProgress, AnalyzerError, AnalyzerErrorKind } from './services/visionAnalyzer';
+import { 
+  isStorageAvailable, 
+  loadWorkspace, 
+  saveWorkspace, 
+  wasUncleanShutdown, 
+  markSessionActive, 
+  markSessionClosed 
+} from './services/storageService';
+import { exportBundle, importBundle, BUNDLE_EXTENSION } from './services/bundleService';
+import { computeAlignment } from './services/alignmentService';
+import { appendDevImage, getActiveDevImage, getPairedDesign, pickDesignForNewDevImage } from './services/projectModel';
+import { detectDevice, getDevImageDevice, getProjectDevices, readImageWidth } from './services/deviceProfiles';
+import { calibrationFromCanvasWidth, defaultUnitFor, describeMeasurement, MEASURE_UNITS, parseLogical, resolveCalibration, toLogical } from './services/measurementService';
+import { classifyDeltaE, colorDeltaE, DELTA_E_LEVELS, describeRgbDelta } from './services/colorService';
+import { describeTypography } from './services/typographyService';
+import { diffTextLines, TEXT_DIFF_LABELS } from './services/textDiffService';
+import { createMaskAnnotations, dropMaskedFindings, findMaskTemplate, getMaskRegions, isMasked, maskImagesForAnalysis } from './services/maskService';
+import { matchColorToken, matchDimensionToken, parseTokenFile, tokenCssVar, TOKEN_FORMAT_LABELS } from './services/tokenService';
+import { BatchItem, BatchSummary, DEFAULT_BATCH_CONCURRENCY, planBatch, runWithConcurrency, summarizeBatch } from './services/batchAnalysis';
+import { computePixelDiff, DEFAULT_PIXEL_DIFF_OPTIONS, PixelDiffOptions, PixelDiffResult } from './services/pixelDiffService';
 
 import ProjectSidebar from './components/ProjectSidebar';
 import ComparisonView from './components/ComparisonView';
 import IssueList from './components/IssueList';
+import DeviceMatrix from './components/DeviceMatrix';
+import DeviceSelect from './components/DeviceSelect';
+import CalibrationEditor from './components/CalibrationEditor';
+import DesignTokenPanel from './components/DesignTokenPanel';
 import ShareModal from './components/ShareModal';
 import FigmaImportModal from './components/FigmaImportModal';
+import { FigmaImportResult, refetchFigmaFrames } from './services/figmaService';
+import { flagIssuesForRecheck, syncDesignImage } from './services/designSyncService';
+import { createSpecLocator, createSpecProjection } from './services/figmaSpecService';
+import CaptureModal from './components/CaptureModal';
+import { CaptureResult } from './services/captureService';
+import { createElementLocator } from './services/domSnapshotService';
+import AnalyzerSettingsModal from './components/AnalyzerSettingsModal';
+import RecoveryPrompt from './components/RecoveryPrompt';
 import Button from './components/Button';
 
 import { 
@@ -47,7 +87,16 @@ import {
   CheckCircle2,
   Clock,
   Sparkles,
-  XCircle
+  XCircle,
+  CloudCheck,
+  CloudOff,
+  Loader2,
+  Flame,
+  Contrast,
+  Crosshair,
+  Type,
+  SquareDashed,
+  Camera
 } from 'lucide-react';
 
 const INITIAL_PROJECT_ID = uuidv4();
@@ -56,7 +105,7 @@ const DEFAULT_PROJECTS: Project[] = [
   {
     id: INITIAL_PROJECT_ID,
     name: '示例页面',
-    designImage: null,
+    designImages: [],
     devImages: [],
     activeDevImageId: null,
     issues: [],
@@ -64,6 +113,11 @@ const DEFAULT_PROJECTS: Project[] = [
   }
 ];
 
+// 自动保存防抖间隔 (ms)
+const AUTOSAVE_DELAY = 800;
+// 单次像素比对最多生成的问题数，避免噪点图刷屏
+const MAX_DIFF_ISSUES = 50;
+
 const App: React.FC = () => {
   // History State
   const [past, setPast] = useState<Project[][]>([]);
@@ -80,22 +134,55 @@ const App: React.FC = () => {
   const [showAnnotations, setShowAnnotations] = useState(true);
   
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [aiProgress, setAiProgress] = useState(0);
+  const [aiProgress, setAiProgress] = useState<AnalysisProgress | null>(null);
+  const [aiError, setAiError] = useState<{ devImageId: string; kind: AnalyzerErrorKind; message: string } | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [batchSummary, setBatchSummary] = useState<BatchSummary | null>(null);
+  const [batchConcurrency, setBatchConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const [aiReport, setAiReport] = useState<{ devImageId: string; discarded: number; merged: number } | null>(null);
+  const [isDiffing, setIsDiffing] = useState(false);
+  const [textDiffProgress, setTextDiffProgress] = useState<string | null>(null);
+  const [figmaSyncStatus, setFigmaSyncStatus] = useState<string | null>(null);
+  const [diffOptions, setDiffOptions] = useState<PixelDiffOptions>(DEFAULT_PIXEL_DIFF_OPTIONS);
+  const [diffResult, setDiffResult] = useState<{ devImageId: string; result: PixelDiffResult } | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(true);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
   const [isFigmaModalOpen, setIsFigmaModalOpen] = useState(false);
+  const [isAnalyzerModalOpen, setIsAnalyzerModalOpen] = useState(false);
+  const [analyzerSettings, setAnalyzerSettings] = useState<AnalyzerSettings>(DEFAULT_ANALYZER_SETTINGS);
+  const [figmaSettings, setFigmaSettings] = useState<FigmaSettings>({});
+  const [isCaptureModalOpen, setIsCaptureModalOpen] = useState(false);
+  const [captureSettings, setCaptureSettings] = useState<CaptureSettings>({});
 
   // Drag Drop State
   const [dragOverTarget, setDragOverTarget] = useState<'design' | 'dev' | null>(null);
+  const replaceDesignIdRef = useRef<string | null>(null);
 
   // Viewport State
   const [scale, setScale] = useState(0.25);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [overlayOffset, setOverlayOffset] = useState({ x: 0, y: 0 });
+  const [overlayScale, setOverlayScale] = useState(1);
+  const [isAligned, setIsAligned] = useState(false);
+  const [measureUnit, setMeasureUnit] = useState<MeasureUnit | undefined>(undefined);
+  const [isAutoAligning, setIsAutoAligning] = useState(false);
+  const [alignWithScale, setAlignWithScale] = useState(false);
 
   // Spacebar Panning State
   const [isSpacePressed, setIsSpacePressed] = useState(false);
 
+  // Persistence State
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [recoverySnapshot, setRecoverySnapshot] = useState<WorkspaceSnapshot | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  // StrictMode 下 effect 会执行两次，异常退出标记只能在首次读取
+  const uncleanShutdownRef = useRef<boolean | null>(null);
+
   // Ref for the main content area to capture (single page)
   const mainContentRef = useRef<HTMLDivElement>(null);
   // Ref for the full export content area (all pages)
@@ -122,16 +209,132 @@ const App: React.FC = () => {
     projects.find(p => p.id === activeProjectId) || projects[0],
   [projects, activeProjectId]);
 
-  const activeDevImage = useMemo(() => 
-    activeProject.devImages.find(img => img.id === activeProject.activeDevImageId) || activeProject.devImages[0],
-  [activeProject]);
+  const activeDevImage = useMemo(() => getActiveDevImage(activeProject), [activeProject]);
+
+  // 当前实现图配对的设计稿，切换实现图时两侧一起切换
+  const activeDesign = useMemo(() => getPairedDesign(activeProject, activeDevImage), [activeProject, activeDevImage]);
 
   const activeDevImageId = activeProject.activeDevImageId;
 
+  // 测量单位换算：实现图标定优先，其次是所选设备
+  const getMeasureContext = useCallback((project: Project, devImageId: string | null | undefined) => {
+    const devImage = project.devImages.find(img => img.id === devImageId);
+    const device = getDevImageDevice(project, devImage);
+    return { device, unit: measureUnit ?? defaultUnitFor(device), calibration: resolveCalibration(devImage?.calibration, device) };
+  }, [measureUnit]);
+  const { device: activeDevice, unit: activeMeasureUnit, calibration: activeCalibration } = useMemo(
+    () => getMeasureContext(activeProject, activeDevImage?.id),
+    [getMeasureContext, activeProject, activeDevImage]
+  );
+  // 设计稿默认按 1x 导出，画布宽度或 DPR 在资源导入页标定
+  const activeDesignCalibration = useMemo(() => resolveCalibration(activeDesign?.calibration, null), [activeDesign]);
+
+  // 叠加对齐参数只在用户对齐过后用于比对；未对齐时传 undefined，各服务按宽度等比缩放
+  const overlayAlignment = isAligned ? { offset: overlayOffset, scale: overlayScale } : undefined;
+
   const updateActiveProject = useCallback((updates: Partial<Project>) => {
     setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, ...updates } : p));
   }, [activeProjectId]);
 
+  // --- Persistence ---
+  const applySnapshot = useCallback((snapshot: WorkspaceSnapshot) => {
+    setProjects(snapshot.projects);
+    setActiveProjectId(snapshot.projects.some(p => p.id === snapshot.activeProjectId) ? snapshot.activeProjectId : snapshot.projects[0].id);
+    setTabMode(snapshot.view.tabMode);
+    setComparisonMode(snapshot.view.comparisonMode);
+    setScale(snapshot.view.scale);
+    setPosition(snapshot.view.position);
+    setOverlayOffset(snapshot.view.overlayOffset);
+    setOverlayScale(snapshot.view.overlayScale ?? 1);
+    // 旧快照没有该字段，对齐参数不是默认值即视为对齐过
+    setIsAligned(snapshot.view.isAligned ?? (snapshot.view.overlayOffset.x !== 0 || snapshot.view.overlayOffset.y !== 0 || (snapshot.view.overlayScale ?? 1) !== 1));
+    setMeasureUnit(snapshot.view.measureUnit);
+    // 旧版本或手工修改的工作区可能带有已不支持的服务商
+    setAnalyzerSettings(snapshot.analyzer && Object.hasOwn(ANALYZER_PRESETS, snapshot.analyzer.provider) ? snapshot.analyzer : DEFAULT_ANALYZER_SETTINGS);
+    setFigmaSettings(snapshot.figma ?? {});
+    setCaptureSettings(snapshot.capture ?? {});
+    setPast([]);
+    setLastSavedAt(snapshot.savedAt);
+  }, []);
+
+  // Restore workspace on load
+  useEffect(() => {
+    if (!isStorageAvailable()) {
+      setIsHydrated(true);
+      return;
+    }
+    if (uncleanShutdownRef.current === null) {
+      uncleanShutdownRef.current = wasUncleanShutdown();
+    }
+    markSessionActive();
+
+    let cancelled = false;
+    loadWorkspace()
+      .then(snapshot => {
+        if (cancelled) return;
+        if (snapshot && snapshot.projects.length > 0) {
+          if (uncleanShutdownRef.current) {
+            // 异常退出：交给用户决定是否恢复，确认前不自动保存
+            setRecoverySnapshot(snapshot);
+            return;
+          }
+          applySnapshot(snapshot);
+        }
+        setIsHydrated(true);
+      })
+      .catch(err => {
+        console.error('Workspace restore failed', err);
+        if (!cancelled) setIsHydrated(true);
+      });
+
+    const handlePageHide = () => markSessionClosed();
+    const handlePageShow = (e: PageTransitionEvent) => { if (e.persisted) markSessionActive(); };
+    window.addEventListener('pagehide', handlePageHide);
+    window.addEventListener('pageshow', handlePageShow);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('pagehide', handlePageHide);
+      window.removeEventListener('pageshow', handlePageShow);
+    };
+  }, [applySnapshot]);
+
+  // Autosave (debounced)
+  useEffect(() => {
+    if (!isHydrated) return;
+    const timer = setTimeout(() => {
+      setSaveStatus('saving');
+      saveWorkspace({
+        projects,
+        activeProjectId,
+        view: { tabMode, comparisonMode, scale, position, overlayOffset, overlayScale, isAligned, measureUnit },
+        analyzer: analyzerSettings,
+        figma: figmaSettings,
+        capture: captureSettings,
+        savedAt: Date.now()
+      })
+        .then(() => {
+          setSaveStatus('saved');
+          setLastSavedAt(Date.now());
+        })
+        .catch(err => {
+          console.error('Autosave failed', err);
+          setSaveStatus('error');
+        });
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [isHydrated, projects, activeProjectId, tabMode, comparisonMode, scale, position, overlayOffset, overlayScale, isAligned, measureUnit, analyzerSettings, figmaSettings, captureSettings]);
+
+  const handleRestoreSession = () => {
+    if (recoverySnapshot) applySnapshot(recoverySnapshot);
+    setRecoverySnapshot(null);
+    setIsHydrated(true);
+  };
+
+  const handleDiscardSession = () => {
+    setRecoverySnapshot(null);
+    setIsHydrated(true);
+  };
+
   // --- Keyboard Shortcuts ---
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -187,21 +390,226 @@ const App: React.FC = () => {
     if (!file.type.startsWith('image/')) return;
     
     const reader = new FileReader();
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
       const data = event.target?.result as string;
+      // 实现图按截图宽度自动识别设备，识别不到时留空由用户选择
+      const imageWidth = type === 'dev' ? await readImageWidth(data).catch(() => 0) : 0;
       pushHistory();
-      if (type === 'design') {
-        updateActiveProject({ designImage: data });
-      } else {
-        const newImg = { id: uuidv4(), name: file.name, data };
-        updateActiveProject({ 
-            devImages: [...activeProject.devImages, newImg], 
-            activeDevImageId: newImg.id 
+      // 多张图片并行读取，必须基于最新状态追加
+      setProjects(prev => prev.map(p => {
+        if (p.id !== activeProjectId) return p;
+        if (type === 'design') {
+          const newDesign = { id: uuidv4(), name: file.name, data };
+          return {
+            ...p,
+            designImages: [...p.designImages, newDesign],
+            // 第一张设计稿：已有的实现图都与它配对
+            devImages: p.designImages.length === 0 ? p.devImages.map(img => ({ ...img, designImageId: newDesign.id })) : p.devImages
+          };
+        }
+        return appendDevImage(p, {
+          id: uuidv4(),
+          name: file.name,
+          data,
+          designImageId: pickDesignForNewDevImage(p),
+          deviceId: detectDevice(imageWidth, getProjectDevices(p))?.id
         });
-      }
+      }));
     };
     reader.readAsDataURL(file);
-  }, [activeProject, updateActiveProject, pushHistory]);
+  }, [activeProjectId, pushHistory]);
+
+  // 截图服务返回的页面截图作为实现图，设备即截图时选择的视口
+  const handleCapture = (result: CaptureResult, deviceId: string) => {
+    const { hostname, pathname } = new URL(result.url);
+    pushHistory();
+    setProjects(prev => prev.map(p => p.id === activeProjectId ? appendDevImage(p, {
+        id: uuidv4(),
+        name: result.title || `${hostname}${pathname === '/' ? '' : pathname}`,
+        data: result.data,
+        designImageId: pickDesignForNewDevImage(p),
+        deviceId,
+        dom: result.dom
+    }) : p));
+  };
+
+  const handleReplaceDesignImage = (designId: string, file: File) => {
+    if (!file.type.startsWith('image/')) return;
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      const data = event.target?.result as string;
+      pushHistory();
+      // 按画布宽度标定的设计稿，换图后按新图宽度重新推算 dpr
+      const imageWidth = await readImageWidth(data).catch(() => 0);
+      setProjects(prev => prev.map(p => p.id === activeProjectId ? {
+          ...p,
+          designImages: p.designImages.map(d => {
+              if (d.id !== designId) return d;
+              const calibration = d.calibration?.canvasWidth && imageWidth
+                  ? calibrationFromCanvasWidth(imageWidth, d.calibration.canvasWidth, d.calibration.rootFontSize)
+                  : d.calibration;
+              return { ...d, name: file.name, data, calibration };
+          })
+      } : p));
+    };
+    reader.readAsDataURL(file);
+  };
+
+  // Figma 导出的 Frame 作为设计稿，按 Frame 宽度（逻辑 px）标定；单个 Frame 时用其名称作为项目名
+  const handleFigmaImport = async (result: FigmaImportResult, url: string) => {
+    const designs: DesignImage[] = await Promise.all(result.frames.map(async frame => {
+      const imageWidth = await readImageWidth(frame.data).catch(() => 0);
+      return {
+        id: uuidv4(),
+        name: frame.name,
+        data: frame.data,
+        calibration: imageWidth && frame.width ? calibrationFromCanvasWidth(imageWidth, frame.width) : { dpr: result.scale },
+        figma: { fileKey: result.fileKey, nodeId: frame.nodeId, scale: result.scale },
+        figmaLayers: frame.layers,
+        syncedAt: Date.now(),
+      };
+    }));
+    pushHistory();
+    setProjects(prev => prev.map(p => p.id === activeProjectId ? {
+        ...p,
+        name: designs.length === 1 ? designs[0].name : result.fileName || p.name,
+        figmaUrl: url,
+        designImages: [...p.designImages, ...designs],
+        devImages: p.designImages.length === 0 ? p.devImages.map(img => ({ ...img, designImageId: designs[0].id })) : p.devImages
+    } : p));
+  };
+
+  // 按已导入的节点重新导出设计稿：旧内容存为历史版本，标注区域内设计有变化的问题标记为需复查
+  const handleFigmaResync = async () => {
+    const projectId = activeProject.id;
+    const targets = activeProject.designImages.filter(d => d.figma);
+    if (targets.length === 0 || figmaSyncStatus) return;
+    if (!figmaSettings.token) {
+      alert('请先在「从 Figma 导入」中填写 Personal Access Token');
+      return;
+    }
+    const startedAt = Date.now();
+    setFigmaSyncStatus('正在从 Figma 同步...');
+    try {
+      // 同一文件、同一倍率的设计稿合并为一次导出请求
+      const groups = new Map<string, DesignImage[]>();
+      targets.forEach(d => {
+        const key = `${d.figma!.fileKey}@${d.figma!.scale}`;
+        groups.set(key, [...(groups.get(key) || []), d]);
+      });
+      const synced: DesignImage[] = [];
+      for (const designs of groups.values()) {
+        const { fileKey, scale } = designs[0].figma!;
+        const result = await refetchFigmaFrames(figmaSettings, fileKey, designs.map(d => d.figma!.nodeId), scale, {
+          onProgress: (done, total) => setFigmaSyncStatus(`正在下载设计稿 ${done}/${total}...`)
+        });
+        setFigmaSyncStatus('正在比对设计变化...');
+        for (const design of designs) {
+          const frame = result.frames.find(f => f.nodeId === design.figma!.nodeId);
+          if (!frame) continue;
+          const imageWidth = await readImageWidth(frame.data).catch(() => 0);
+          synced.push(await syncDesignImage(design, frame, imageWidth));
+        }
+      }
+      const syncedOf = (d: DesignImage) => synced.find(s => s.id === d.id) ?? d;
+      let project: Project = { ...activeProject, designImages: activeProject.designImages.map(syncedOf) };
+      let flagged = 0;
+      for (const design of synced) {
+        const result = await flagIssuesForRecheck(project, design, id => id === activeDevImageId ? overlayAlignment : undefined);
+        project = { ...project, issues: result.issues };
+        flagged += result.flagged;
+      }
+      const recheck = new Map(project.issues.filter(i => i.needsRecheck && i.needsRecheck.at >= startedAt).map(i => [i.id, i.needsRecheck]));
+
+      // 同步期间用户可能继续编辑，按最新状态合并
+      pushHistory();
+      setProjects(prev => prev.map(p => p.id === projectId ? {
+          ...p,
+          designImages: p.designImages.map(syncedOf),
+          issues: p.issues.map(i => recheck.has(i.id) ? { ...i, needsRecheck: recheck.get(i.id) } : i)
+      } : p));
+      const changeCount = synced.reduce((n, d) => n + (d.changes?.length || 0), 0);
+      alert(changeCount > 0
+        ? `已同步 ${synced.length} 张设计稿：${changeCount} 处变化，${flagged} 个问题需要复查`
+        : `已同步 ${synced.length} 张设计稿，设计没有变化`);
+    } catch (e) {
+      console.error('Figma sync failed', e);
+      alert(e instanceof Error ? e.message : 'Figma 同步失败');
+    } finally {
+      setFigmaSyncStatus(null);
+    }
+  };
+
+  const handleDeleteDesignImage = (designId: string) => {
+    pushHistory();
+    updateActiveProject({
+        designImages: activeProject.designImages.filter(d => d.id !== designId),
+        devImages: activeProject.devImages.map(img => img.designImageId === designId ? { ...img, designImageId: undefined } : img),
+        maskTemplates: activeProject.maskTemplates?.filter(t => t.designImageId !== designId)
+    });
+  };
+
+  const handlePairDevImage = (devImageId: string, designImageId: string) => {
+    pushHistory();
+    updateActiveProject({
+        devImages: activeProject.devImages.map(img => img.id === devImageId ? { ...img, designImageId } : img)
+    });
+  };
+
+  const handleSetDevImageDevice = (devImageId: string, deviceId: string | undefined) => {
+    pushHistory();
+    setProjects(prev => prev.map(p => p.id === activeProjectId ? {
+        ...p,
+        devImages: p.devImages.map(img => img.id === devImageId ? { ...img, deviceId } : img)
+    } : p));
+  };
+
+  const handleCalibrateImage = (type: 'design' | 'dev', imageId: string, calibration: ImageCalibration | undefined) => {
+    pushHistory();
+    setProjects(prev => prev.map(p => {
+        if (p.id !== activeProjectId) return p;
+        return type === 'design'
+            ? { ...p, designImages: p.designImages.map(d => d.id === imageId ? { ...d, calibration } : d) }
+            : { ...p, devImages: p.devImages.map(img => img.id === imageId ? { ...img, calibration } : img) };
+    }));
+  };
+
+  const handleSetExpected = (annotationId: string, input: string) => {
+    const ann = activeProject.annotations.find(a => a.id === annotationId);
+    if (!ann) return;
+    const { unit, calibration } = getMeasureContext(activeProject, ann.devImageId);
+    const expected = input.trim() ? parseLogical(input, unit, calibration.rootFontSize) : null;
+    if (input.trim() && expected === null) return;
+    pushHistory();
+    updateActiveProject({
+        annotations: activeProject.annotations.map(a => a.id === annotationId ? { ...a, expected: expected ?? undefined } : a)
+    });
+  };
+
+  const handleAddCustomDevice = (device: DeviceProfile) => {
+    setProjects(prev => prev.map(p => p.id === activeProjectId ? {
+        ...p,
+        customDevices: [...(p.customDevices || []), device]
+    } : p));
+  };
+
+  const handleImportTokens = async (file: File) => {
+    try {
+        const { format, tokens } = parseTokenFile(await file.text());
+        pushHistory();
+        updateActiveProject({ tokens });
+        alert(`已从 ${TOKEN_FORMAT_LABELS[format]} 导入 ${tokens.length} 个 token`);
+    } catch (err: any) {
+        console.error(err);
+        alert(`导入失败：${err.message || '文件格式不正确'}`);
+    }
+  };
+
+  // 选择设计稿时切换到与它配对的第一张实现图
+  const handleSwitchDesignImage = (designImageId: string) => {
+    const paired = activeProject.devImages.find(img => getPairedDesign(activeProject, img)?.id === designImageId);
+    if (paired) updateActiveProject({ activeDevImageId: paired.id });
+  };
 
   // --- Paste Handler ---
   useEffect(() => {
@@ -212,7 +620,7 @@ const App: React.FC = () => {
 
       e.preventDefault();
       // If no design image, paste as design. Otherwise append to dev images.
-      const type = !activeProject.designImage ? 'design' : 'dev';
+      const type = activeProject.designImages.length === 0 ? 'design' : 'dev';
       handleFileProcess(file, type);
     };
 
@@ -223,7 +631,7 @@ const App: React.FC = () => {
   const handleAddProject = () => {
     pushHistory();
     const newId = uuidv4();
-    setProjects([...projects, { id: newId, name: `新任务 ${projects.length + 1}`, designImage: null, devImages: [], activeDevImageId: null, issues: [], annotations: [] }]);
+    setProjects([...projects, { id: newId, name: `新任务 ${projects.length + 1}`, designImages: [], devImages: [], activeDevImageId: null, issues: [], annotations: [] }]);
     setActiveProjectId(newId);
     setTabMode(TabMode.UPLOAD);
   };
@@ -271,62 +679,309 @@ const App: React.FC = () => {
   };
 
   const startAnalysis = async () => {
-    if (!activeProject.designImage || !activeDevImage) return;
+    // 单图与批量分析共用限流额度，同一时间只运行一种
+    if (!activeDesign || !activeDevImage || isAnalyzing || isBatchRunning) return;
+    const projectId = activeProject.id;
+    const devImageId = activeDevImage.id;
     pushHistory(); // Save state before AI modifies it
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsAnalyzing(true);
-    setAiProgress(10);
-    const progressInterval = setInterval(() => { setAiProgress(prev => (prev < 90 ? prev + 5 : prev)); }, 300);
+    setAiError(null);
+    setAiProgress({ stage: 'preparing', percent: 0 });
     try {
-      const aiIssues = await analyzeVisualDifferences(activeProject.designImage, activeDevImage.data);
-      const newIssues: Issue[] = [];
-      const newAnnotations: Annotation[] = [];
+      // 忽略区域在发送前涂掉，避免动态内容被当作差异
+      const masks = getMaskRegions(activeProject, devImageId);
+      const images = await maskImagesForAnalysis(activeDesign.data, activeDevImage.data, masks, overlayAlignment);
+      const { findings, discarded, merged } = await createVisionAnalyzer(analyzerSettings).analyze(
+        images.design,
+        images.dev,
+        { signal: controller.signal, onProgress: setAiProgress, alignment: overlayAlignment }
+      );
+      const locateSpec = activeDesign.figmaLayers?.length
+        ? createSpecLocator(activeDesign.figmaLayers, await createSpecProjection(activeDesign.data, activeDevImage.data, activeDesignCalibration.dpr, overlayAlignment))
+        : undefined;
+      const { issues: newIssues, annotations: newAnnotations } = findingsToIssues(
+          dropMaskedFindings(findings, masks), devImageId, activeProject.tokens, locateSpec,
+          activeDevImage.dom && createElementLocator(activeDevImage.dom)
+      );
+
+      // 分析期间用户可能继续编辑，按最新状态追加
+      setProjects(prev => prev.map(p => p.id === projectId ? {
+          ...p,
+          issues: [...p.issues, ...newIssues],
+          annotations: [...p.annotations, ...newAnnotations]
+      } : p));
+      setAiReport({ devImageId, discarded, merged });
+      if (newIssues.length > 0) setActiveIssueId(newIssues[0].id);
+    } catch (e) {
+      const error = e instanceof AnalyzerError ? e : new AnalyzerError('unknown', e instanceof Error ? e.message : String(e));
+      if (error.kind !== 'aborted') {
+        console.error('AI analysis failed', error);
+        setAiError({ devImageId, kind: error.kind, message: error.message });
+      }
+    } finally {
+      if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
+      setIsAnalyzing(false);
+      setAiProgress(null);
+    }
+  };
+
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
+  const startBatchAnalysis = async (scope: 'project' | 'all') => {
+    if (isAnalyzing || isBatchRunning) return;
+    const targets = scope === 'project' ? projects.filter(p => p.id === activeProjectId) : projects;
+    const items = planBatch(targets);
+    if (items.length === 0) {
+      alert('没有可分析的实现图');
+      return;
+    }
+    pushHistory();
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    const analyzer = createVisionAnalyzer(analyzerSettings);
+    const startedAt = Date.now();
+    // 本地维护一份最新状态，结束时据此生成汇总
+    const states = new Map(items.map(item => [item.devImageId, item]));
+    const updateItem = (devImageId: string, updates: Partial<BatchItem>) => {
+      states.set(devImageId, { ...states.get(devImageId)!, ...updates });
+      setBatchItems(Array.from(states.values()));
+    };
+
+    setBatchItems(items);
+    setBatchSummary(null);
+    setIsBatchRunning(true);
+    await runWithConcurrency(items.filter(item => item.status === 'queued'), batchConcurrency, async item => {
+      const project = targets.find(p => p.id === item.projectId)!;
+      const devImage = project.devImages.find(img => img.id === item.devImageId)!;
+      updateItem(item.devImageId, { status: 'running' });
+      try {
+        const masks = getMaskRegions(project, devImage.id);
+        // 叠加对齐参数只对应当前查看的实现图
+        const alignment = devImage.id === activeDevImageId ? overlayAlignment : undefined;
+        const design = getPairedDesign(project, devImage)!;
+        const images = await maskImagesForAnalysis(design.data, devImage.data, masks, alignment);
+        const { findings } = await analyzer.analyze(images.design, images.dev, { signal: controller.signal, alignment });
+        const locateSpec = design.figmaLayers?.length
+          ? createSpecLocator(design.figmaLayers, await createSpecProjection(design.data, devImage.data, resolveCalibration(design.calibration, null).dpr, alignment))
+          : undefined;
+        const { issues, annotations } = findingsToIssues(
+            dropMaskedFindings(findings, masks), devImage.id, project.tokens, locateSpec,
+            devImage.dom && createElementLocator(devImage.dom)
+        );
+        setProjects(prev => prev.map(p => p.id === project.id ? {
+            ...p,
+            issues: [...p.issues, ...issues],
+            annotations: [...p.annotations, ...annotations]
+        } : p));
+        updateItem(item.devImageId, { status: 'done', issueCount: issues.length });
+      } catch (e) {
+        const error = e instanceof AnalyzerError ? e : new AnalyzerError('unknown', e instanceof Error ? e.message : String(e));
+        if (error.kind === 'aborted') {
+          updateItem(item.devImageId, { status: 'cancelled' });
+        } else {
+          console.error('Batch analysis failed', error);
+          updateItem(item.devImageId, { status: 'failed', error: error.message });
+        }
+      }
+    }, controller.signal);
+
+    setBatchSummary(summarizeBatch(Array.from(states.values()), Date.now() - startedAt));
+    setIsBatchRunning(false);
+    batchAbortRef.current = null;
+  };
+
+  const cancelBatchAnalysis = () => {
+    batchAbortRef.current?.abort();
+  };
 
-      aiIssues.forEach((item: any) => {
-         const annId = uuidv4();
-         if (item.boundingBox && Array.isArray(item.boundingBox) && item.boundingBox.length === 4) {
-             const [ymin, xmin, ymax, xmax] = item.boundingBox;
-             newAnnotations.push({
-                 id: annId,
-                 devImageId: activeDevImageId!,
-                 x: xmin / 10,
-                 y: ymin / 10,
-                 width: (xmax - xmin) / 10,
-                 height: (ymax - ymin) / 10,
-                 text: item.title,
-                 type: 'ai'
-             });
-         }
-         newIssues.push({
-             id: uuidv4(),
-             devImageId: activeDevImageId!,
-             title: item.title,
-             description: item.description,
-             suggestion: item.suggestion,
-             severity: item.severity || 'medium',
-             status: 'open',
-             annotationId: newAnnotations.length > 0 ? annId : undefined
-         });
+  const dismissBatchSummary = () => {
+    setBatchSummary(null);
+    setBatchItems([]);
+  };
+
+  // 本地文案比对：两张图分别识别文字，按叠加对齐参数（未对齐时按宽度等比缩放）把设计稿文字投影到实现图后逐行比对
+  const startTextDiff = async () => {
+    if (!activeDesign || !activeDevImage) return;
+    const projectId = activeProject.id;
+    const devImageId = activeDevImage.id;
+    try {
+      // OCR 引擎与语言包较大，首次比对时才加载
+      setTextDiffProgress('加载文字识别模型...');
+      const { recognizeTextLines } = await import('./services/ocrService');
+      setTextDiffProgress('识别设计稿文字...');
+      const design = await recognizeTextLines(activeDesign.data, p => setTextDiffProgress(`识别设计稿文字 ${p}%`));
+      setTextDiffProgress('识别实现图文字...');
+      const dev = await recognizeTextLines(activeDevImage.data, p => setTextDiffProgress(`识别实现图文字 ${p}%`));
+      const { offset, scale } = overlayAlignment ?? { offset: { x: 0, y: 0 }, scale: dev.width / design.width };
+      const entries = diffTextLines(design.lines, dev.lines, line => ({
+        ...line,
+        x: line.x * scale + offset.x,
+        y: line.y * scale + offset.y,
+        width: line.width * scale,
+        height: line.height * scale,
+      }));
+
+      const masks = getMaskRegions(activeProject, devImageId);
+      const newAnnotations: Annotation[] = [];
+      const newIssues: Issue[] = [];
+      entries.filter(entry => !isMasked({
+        x: entry.box.x / dev.width * 100,
+        y: entry.box.y / dev.height * 100,
+        width: entry.box.width / dev.width * 100,
+        height: entry.box.height / dev.height * 100
+      }, masks)).forEach(entry => {
+        const annId = uuidv4();
+        const config = TEXT_DIFF_LABELS[entry.kind];
+        const subject = entry.kind === 'extra' ? entry.dev!.text : entry.design!.text;
+        newAnnotations.push({
+          id: annId,
+          devImageId,
+          x: entry.box.x / dev.width * 100,
+          y: entry.box.y / dev.height * 100,
+          width: entry.box.width / dev.width * 100,
+          height: entry.box.height / dev.height * 100,
+          text: config.label,
+          type: 'text'
+        });
+        newIssues.push({
+          id: uuidv4(),
+          devImageId,
+          title: `${config.label}: “${subject}”`,
+          description: [
+            entry.design ? `设计稿: ${entry.design.text}` : '',
+            entry.dev ? `实现: ${entry.dev.text}` : '',
+            entry.similarity !== undefined ? `相似度 ${Math.round(entry.similarity * 100)}%` : '',
+          ].filter(Boolean).join('\n'),
+          severity: config.severity,
+          status: 'open',
+          annotationId: annId
+        });
       });
 
-      setAiProgress(100);
-      setTimeout(() => { 
-        updateActiveProject({ 
-            issues: [...activeProject.issues, ...newIssues],
-            annotations: [...activeProject.annotations, ...newAnnotations]
+      // 识别期间用户可能继续编辑，按最新状态合并；与像素比对一致，只替换上一次自动生成且未处理的结果
+      pushHistory();
+      setProjects(prev => prev.map(p => {
+        if (p.id !== projectId) return p;
+        const replaceableIds = new Set(p.annotations.filter(a => {
+          if (a.type !== 'text' || a.devImageId !== devImageId) return false;
+          const issue = p.issues.find(i => i.annotationId === a.id);
+          return !issue || (issue.status === 'open' && !issue.comments?.length);
+        }).map(a => a.id));
+        return {
+          ...p,
+          annotations: [...p.annotations.filter(a => !replaceableIds.has(a.id)), ...newAnnotations],
+          issues: [...p.issues.filter(i => !i.annotationId || !replaceableIds.has(i.annotationId)), ...newIssues]
+        };
+      }));
+      if (newIssues.length > 0) setActiveIssueId(newIssues[0].id);
+      else alert('文案一致，未发现差异');
+    } catch (e: any) {
+      console.error(e);
+      alert(`文案比对失败：${e.message || '未知错误'}`);
+    } finally {
+      setTextDiffProgress(null);
+    }
+  };
+
+  const startPixelDiff = async () => {
+    if (!activeDesign || !activeDevImage) return;
+    const projectId = activeProject.id;
+    const devImageId = activeDevImage.id;
+    setIsDiffing(true);
+    try {
+      // 重新比对时替换上一次自动生成、且尚未被处理过的差异；已处理的保留并排除其区域
+      const previous = activeProject.annotations.filter(a => a.type === 'diff' && a.devImageId === devImageId);
+      const replaceableIds = new Set(previous.filter(a => {
+        const issue = activeProject.issues.find(i => i.annotationId === a.id);
+        return !issue || (issue.status === 'open' && !issue.comments?.length);
+      }).map(a => a.id));
+      const kept = previous.filter(a => !replaceableIds.has(a.id));
+
+      const result = await computePixelDiff(activeDesign.data, activeDevImage.data, {
+        ...diffOptions,
+        ignoreRegions: [
+          ...diffOptions.ignoreRegions,
+          ...getMaskRegions(activeProject, devImageId),
+          ...kept.map(a => ({ x: a.x, y: a.y, width: a.width || 0, height: a.height || 0 }))
+        ]
+      }, overlayAlignment);
+
+      const newAnnotations: Annotation[] = [];
+      const newIssues: Issue[] = [];
+      result.clusters.slice(0, MAX_DIFF_ISSUES).forEach((cluster, idx) => {
+        const annId = uuidv4();
+        const areaRatio = (cluster.width * cluster.height) / 10000;
+        const pxW = Math.round(cluster.width / 100 * result.width);
+        const pxH = Math.round(cluster.height / 100 * result.height);
+        newAnnotations.push({
+          id: annId,
+          devImageId,
+          x: cluster.x,
+          y: cluster.y,
+          width: cluster.width,
+          height: cluster.height,
+          text: `像素差异 #${idx + 1}`,
+          type: 'diff'
+        });
+        newIssues.push({
+          id: uuidv4(),
+          devImageId,
+          title: `像素差异 #${idx + 1}`,
+          description: `区域约 ${pxW}×${pxH}px，差异像素 ${cluster.pixelCount} 个（通道容差 ${diffOptions.threshold}）`,
+          severity: areaRatio > 0.05 ? 'high' : areaRatio > 0.01 ? 'medium' : 'low',
+          status: 'open',
+          annotationId: annId
         });
-        setIsAnalyzing(false);
-        setAiProgress(0);
-        if (newIssues.length > 0) setActiveIssueId(newIssues[0].id);
-      }, 300);
+      });
+
+      // 比对期间用户可能继续编辑，按最新状态重新判断可替换的结果后合并
+      pushHistory();
+      setProjects(prev => prev.map(p => {
+        if (p.id !== projectId) return p;
+        const latestReplaceableIds = new Set(p.annotations.filter(a => {
+          if (a.type !== 'diff' || a.devImageId !== devImageId) return false;
+          const issue = p.issues.find(i => i.annotationId === a.id);
+          return !issue || (issue.status === 'open' && !issue.comments?.length);
+        }).map(a => a.id));
+        return {
+          ...p,
+          annotations: [...p.annotations.filter(a => !latestReplaceableIds.has(a.id)), ...newAnnotations],
+          issues: [...p.issues.filter(i => !i.annotationId || !latestReplaceableIds.has(i.annotationId)), ...newIssues]
+        };
+      }));
+      setDiffResult({ devImageId, result });
+      setShowHeatmap(true);
+      if (newIssues.length > 0) setActiveIssueId(newIssues[0].id);
     } catch (e) {
-      alert("AI 分析失败");
-      setIsAnalyzing(false);
-      setAiProgress(0);
+      console.error(e);
+      alert('像素比对失败');
     } finally {
-      clearInterval(progressInterval);
+      setIsDiffing(false);
     }
   };
 
+  const handleAutoAlign = async () => {
+    if (!activeDesign || !activeDevImage) return;
+    setIsAutoAligning(true);
+    try {
+      const result = await computeAlignment(activeDesign.data, activeDevImage.data, { allowScale: alignWithScale });
+      setOverlayOffset(result.offset);
+      setOverlayScale(result.scale);
+      setIsAligned(true);
+    } catch (e) {
+      console.error(e);
+      alert('自动对齐失败');
+    } finally {
+      setIsAutoAligning(false);
+    }
+  };
+
+  const activeDiffResult = diffResult && diffResult.devImageId === activeDevImage?.id ? diffResult.result : null;
+
   // --- Screenshot / Export Logic ---
   const handleCaptureScreenshot = async (mode: 'download' | 'clipboard') => {
       // 1. Close Modal visually first
@@ -390,15 +1045,31 @@ const App: React.FC = () => {
       // Create a simplified data structure for the report
       const reportData = {
           generatedAt: new Date().toLocaleString(),
-          projects: projects.map(p => ({
-              id: p.id,
-              name: p.name,
-              designImage: p.designImage,
-              devImage: p.devImages.find(d => d.id === p.activeDevImageId) || p.devImages[0],
-              issues: p.issues,
-              annotations: p.annotations,
-              figmaUrl: p.figmaUrl
-          })).filter(p => p.devImage) // Only include projects that have dev images
+          projects: projects.map(p => {
+              const devImage = getActiveDevImage(p);
+              // 测量值按各实现图的标定预先换算好，报告中直接展示
+              const measurementOf = (ann?: Annotation) => {
+                  if (!ann) return null;
+                  const { unit, calibration } = getMeasureContext(p, ann.devImageId);
+                  return describeMeasurement(ann, unit, calibration);
+              };
+              return {
+                  id: p.id,
+                  name: p.name,
+                  designImage: getPairedDesign(p, devImage)?.data ?? null,
+                  devImage,
+                  issues: p.issues.map(i => {
+                      const m = measurementOf(p.annotations.find(a => a.id === i.annotationId));
+                      return m ? { ...i, measurement: m.expected ? `期望 ${m.expected}，实际 ${m.actual}` : `实际 ${m.actual}` } : i;
+                  }),
+                  // 忽略区域只用于走查过程，不出现在报告中
+                  annotations: p.annotations.filter(a => a.type !== 'mask').map(a => {
+                      const m = measurementOf(a);
+                      return m ? { ...a, label: m.actual } : a;
+                  }),
+                  figmaUrl: p.figmaUrl
+              };
+          }).filter(p => p.devImage) // Only include projects that have dev images
       };
 
       return `
@@ -662,7 +1333,7 @@ const App: React.FC = () => {
                              const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
                              imgTag = \`<img src="\${dataUrl}" width="\${thumbW}" height="\${thumbH}" />\`;
                          }
-                         tableHTML += \`<tr style="vertical-align: top;"><td style="padding:10px; text-align: center;">\${imgTag}</td><td style="padding:10px;">\${p.name}</td><td style="padding:10px; font-weight: bold;">\${i.title}</td><td style="padding:10px;">\${i.description || ''}</td><td style="padding:10px;">\${severityText}</td><td style="padding:10px;">\${statusText}</td><td style="padding:10px; font-family: monospace; color: #4f46e5;">\${i.suggestion || ''}</td></tr>\`;
+                         tableHTML += \`<tr style="vertical-align: top;"><td style="padding:10px; text-align: center;">\${imgTag}</td><td style="padding:10px;">\${p.name}</td><td style="padding:10px; font-weight: bold;">\${i.title}</td><td style="padding:10px;">\${i.description || ''}\${i.measurement ? '<br/>' + i.measurement : ''}</td><td style="padding:10px;">\${severityText}</td><td style="padding:10px;">\${statusText}</td><td style="padding:10px; font-family: monospace; color: #4f46e5;">\${i.suggestion || ''}</td></tr>\`;
                      }
                  }
                  tableHTML += '</tbody></table></body></html>';
@@ -750,13 +1421,22 @@ const App: React.FC = () => {
 
             currentAnns.forEach(ann => {
                 // Boxes (AI or Manual Area)
-                if (ann.type === 'ai' || (ann.type === 'manual' && ann.width)) {
+                if (ann.type === 'ai' || ann.type === 'diff' || ann.type === 'typography' || ann.type === 'text' || (ann.type === 'manual' && ann.width)) {
                     const el = document.createElement('div');
                     el.className = 'annotation-box';
                     // Determine color based on type
                     if (ann.type === 'manual') {
                         el.style.borderColor = '#3b82f6'; // blue-500
                         el.style.backgroundColor = 'rgba(59, 130, 246, 0.1)';
+                    } else if (ann.type === 'diff') {
+                        el.style.borderColor = '#f97316'; // orange-500
+                        el.style.backgroundColor = 'rgba(249, 115, 22, 0.1)';
+                    } else if (ann.type === 'typography') {
+                        el.style.borderColor = '#8b5cf6'; // violet-500
+                        el.style.backgroundColor = 'rgba(139, 92, 246, 0.1)';
+                    } else if (ann.type === 'text') {
+                        el.style.borderColor = '#14b8a6'; // teal-500
+                        el.style.backgroundColor = 'rgba(20, 184, 166, 0.1)';
                     } else {
                         el.style.borderColor = '#ef4444'; // red-500
                         el.style.backgroundColor = 'rgba(239, 68, 68, 0.1)';
@@ -800,7 +1480,7 @@ const App: React.FC = () => {
 
                      // Label
                      const label = document.createElement('div');
-                     label.innerText = Math.round(lenPct) + '%';
+                     label.innerText = ann.label || Math.round(lenPct) + '%';
                      label.style.position = 'absolute';
                      label.style.left = '50%';
                      label.style.top = '50%';
@@ -875,7 +1555,7 @@ const App: React.FC = () => {
                 const severityConfig = severityMap[issue.severity] || severityMap.medium;
                 let optionsHtml = '';
                 Object.entries(statusMap).forEach(([k, v]) => { optionsHtml += \`<option value="\${k}" \${issue.status === k ? 'selected' : ''}>\${v.label}</option>\`; });
-                el.innerHTML = \`<div class="flex justify-between items-start mb-2"><span class="text-xs font-bold uppercase px-1.5 py-0.5 rounded \${severityConfig.color}">\${severityConfig.label}</span>\${issue.annotationId ? '<span class="text-indigo-500 text-[10px]">● 图定位</span>' : ''}</div><h3 class="font-bold text-sm text-gray-900 mb-1">\${issue.title}</h3><p class="text-xs text-gray-500 mb-3 whitespace-pre-wrap">\${issue.description}</p><div class="flex items-center justify-between pt-2 border-t border-gray-100" onclick="event.stopPropagation()"><div class="relative"><div class="flex items-center gap-1.5 px-2 py-1 rounded text-[10px] font-bold border transition-all cursor-pointer \${statusConfig.color} border-current/10"><span>\${statusConfig.label}</span><svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="m6 9 6 6 6-6"/></svg></div><select onchange="updateIssueStatus('\${issue.id}', this.value)" class="absolute inset-0 opacity-0 cursor-pointer w-full h-full">\${optionsHtml}</select></div></div>\${issue.suggestion ? \`<div class="mt-2 bg-gray-50 p-2 rounded text-[10px] font-mono text-indigo-600 border border-gray-100 break-all">\${issue.suggestion}</div>\` : ''}\`;
+                el.innerHTML = \`<div class="flex justify-between items-start mb-2"><span class="text-xs font-bold uppercase px-1.5 py-0.5 rounded \${severityConfig.color}">\${severityConfig.label}</span>\${issue.annotationId ? '<span class="text-indigo-500 text-[10px]">● 图定位</span>' : ''}</div><h3 class="font-bold text-sm text-gray-900 mb-1">\${issue.title}</h3><p class="text-xs text-gray-500 mb-3 whitespace-pre-wrap">\${issue.description}</p>\${issue.measurement ? \`<p class="text-[11px] font-mono text-gray-600 mb-3">\${issue.measurement}</p>\` : ''}<div class="flex items-center justify-between pt-2 border-t border-gray-100" onclick="event.stopPropagation()"><div class="relative"><div class="flex items-center gap-1.5 px-2 py-1 rounded text-[10px] font-bold border transition-all cursor-pointer \${statusConfig.color} border-current/10"><span>\${statusConfig.label}</span><svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="m6 9 6 6 6-6"/></svg></div><select onchange="updateIssueStatus('\${issue.id}', this.value)" class="absolute inset-0 opacity-0 cursor-pointer w-full h-full">\${optionsHtml}</select></div></div>\${issue.suggestion ? \`<div class="mt-2 bg-gray-50 p-2 rounded text-[10px] font-mono text-indigo-600 border border-gray-100 break-all">\${issue.suggestion}</div>\` : ''}\`;
                 el.onclick = () => activateIssue(issue.id, true);
                 el.onmouseenter = () => highlightAnn(issue.annotationId);
                 el.onmouseleave = () => unhighlightAnn(issue.annotationId);
@@ -957,31 +1637,52 @@ const App: React.FC = () => {
       }
   };
   
-  const handleImportFeedback = (file: File) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-          try {
-             const json = JSON.parse(e.target?.result as string);
-             if(json.projects) {
-                 const mergedProjects = json.projects.map((p: any) => ({
-                     ...p,
-                     activeDevImageId: p.devImage?.id || null,
-                     devImages: p.devImage ? [p.devImage] : [] 
-                 }));
-                 pushHistory();
-                 setProjects(mergedProjects);
-                 if(mergedProjects.length > 0) setActiveProjectId(mergedProjects[0].id);
-                 alert('反馈数据导入成功！');
-             }
-          } catch(err) {
-              alert('导入失败：文件格式不正确');
-          }
-      };
-      reader.readAsText(file);
+  const handleExportProject = async () => {
+      try {
+          const blob = await exportBundle(projects, activeProjectId);
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `DesignSync-${new Date().toLocaleDateString()}${BUNDLE_EXTENSION}`;
+          a.click();
+          URL.revokeObjectURL(url);
+      } catch (err) {
+          console.error(err);
+          alert('导出失败，请重试');
+      }
+  };
+
+  const handleImportFeedback = async (file: File) => {
+      try {
+          const bundle = await importBundle(file);
+          pushHistory();
+          setProjects(bundle.projects);
+          setActiveProjectId(bundle.activeProjectId);
+          alert('项目数据导入成功！');
+      } catch (err: any) {
+          console.error(err);
+          alert(`导入失败：${err.message || '文件格式不正确'}`);
+      }
   };
 
   const handleAddAnnotation = (data: Partial<Annotation>) => {
     pushHistory();
+    // 忽略区域不生成问题
+    if (data.type === 'mask') {
+      updateActiveProject({
+        annotations: [...activeProject.annotations, {
+          id: uuidv4(),
+          devImageId: activeDevImageId!,
+          x: data.x || 0,
+          y: data.y || 0,
+          width: data.width,
+          height: data.height,
+          text: data.text || '忽略区域',
+          type: 'mask'
+        }]
+      });
+      return;
+    }
     const annId = uuidv4();
     const issueId = uuidv4();
     const newAnn: Annotation = {
@@ -995,19 +1696,83 @@ const App: React.FC = () => {
       type: data.type || 'manual',
       color: data.color,
       endX: data.endX,
-      endY: data.endY
+      endY: data.endY,
+      pixelLength: data.pixelLength,
+      expected: data.expected,
+      expectedColor: data.expectedColor,
+      paired: data.paired,
+      typography: data.typography,
+      expectedTypography: data.expectedTypography,
+      figmaSpec: data.figmaSpec
     };
     
     let issueTitle = '手动标注';
-    if(data.type === 'color') issueTitle = `取色: ${data.color}`;
-    else if(data.type === 'measure') issueTitle = '距离测量';
+    let description = '';
+    let suggestion: string | undefined;
+    let severity: Issue['severity'] = 'medium';
+    if(data.type === 'color') {
+      issueTitle = data.expectedColor ? `取色: 设计 ${data.expectedColor} / 实现 ${data.color}` : `取色: ${data.color}`;
+      // 成对取色：记录两侧颜色、CIEDE2000 色差及分级
+      const deltaE = data.expectedColor && data.color ? colorDeltaE(data.expectedColor, data.color) : null;
+      if (deltaE !== null) {
+        const level = DELTA_E_LEVELS[classifyDeltaE(deltaE)];
+        const delta = describeRgbDelta(data.expectedColor!, data.color!);
+        newAnn.deltaE = Math.round(deltaE * 100) / 100;
+        severity = level.severity;
+        description = `期望 ${data.expectedColor}，实际 ${data.color}${delta ? `（${delta}）` : ''}\nΔE00 ${deltaE.toFixed(2)} · ${level.label}`;
+      }
+      // 以设计稿颜色匹配 token，没有设计稿取色时用实现图颜色
+      const match = matchColorToken(data.expectedColor || data.color || '', activeProject.tokens);
+      if (match) {
+        suggestion = `color: var(${tokenCssVar(match.token.name)}); /* ${match.token.name} ${match.token.value} */`;
+        description += `${description ? '\n' : ''}对应 token: ${match.token.name}`;
+      }
+    }
+    else if(data.type === 'measure') {
+      const measurement = describeMeasurement(newAnn, activeMeasureUnit, activeCalibration);
+      issueTitle = measurement ? `距离测量: ${measurement.actual}` : '距离测量';
+      if (measurement?.expected) {
+        issueTitle = `距离测量: 期望 ${measurement.expected} / 实际 ${measurement.actual}`;
+        description = measurement.delta ? `偏差 ${measurement.delta}` : '与设计稿一致';
+      }
+      // 期望值（没有时用实测值）对应的间距 token
+      const logical = newAnn.expected ?? (newAnn.pixelLength !== undefined ? toLogical(newAnn.pixelLength, activeCalibration) : undefined);
+      const match = logical !== undefined ? matchDimensionToken(logical, activeProject.tokens, 'spac') : null;
+      if (data.figmaSpec) description += `${description ? '\n' : ''}Figma: ${data.figmaSpec}`;
+      // Figma 规格识别出属性（padding / gap / width）时按该属性给出建议
+      const property = data.figmaSpec?.match(/^([a-z-]+):/)?.[1] ?? 'gap';
+      if (match) {
+        suggestion = `${property}: var(${tokenCssVar(match.token.name)}); /* ${match.token.name} ${match.token.value}px */`;
+        description += `${description ? '\n' : ''}对应 token: ${match.token.name}`;
+      } else if (data.figmaSpec && newAnn.expected !== undefined) {
+        suggestion = `${property}: ${newAnn.expected}px;`;
+      }
+    }
+
+    else if(data.type === 'typography' && data.typography) {
+      const typo = describeTypography(data.typography, data.expectedTypography, activeMeasureUnit, activeCalibration.rootFontSize);
+      issueTitle = typo.title;
+      description = typo.description + (data.figmaSpec ? `\nFigma: ${data.figmaSpec}` : '');
+      severity = typo.severity;
+      const expected = data.expectedTypography;
+      if (expected) {
+        const match = matchDimensionToken(expected.fontSize, activeProject.tokens, 'font');
+        suggestion = [
+          `font-size: ${match ? `var(${tokenCssVar(match.token.name)})` : `${Math.round(expected.fontSize)}px`};`,
+          expected.lineHeight !== undefined ? `line-height: ${Math.round(expected.lineHeight)}px;` : '',
+          `font-weight: ${expected.weight};`,
+          match ? `/* ${match.token.name} ${match.token.value}px */` : '',
+        ].filter(Boolean).join(' ');
+      }
+    }
 
     const newIssue: Issue = {
       id: issueId,
       devImageId: activeDevImageId!,
       title: issueTitle,
-      description: '',
-      severity: 'medium',
+      description,
+      suggestion,
+      severity,
       status: 'open',
       annotationId: annId
     };
@@ -1018,6 +1783,44 @@ const App: React.FC = () => {
     setActiveIssueId(issueId);
   };
 
+  const handleDeleteAnnotation = (id: string) => {
+    pushHistory();
+    updateActiveProject({
+      annotations: activeProject.annotations.filter(a => a.id !== id),
+      issues: activeProject.issues.filter(i => i.annotationId !== id)
+    });
+  };
+
+  const activeMaskTemplate = activeDevImage ? findMaskTemplate(activeProject, activeDesign?.id, activeDevImage.deviceId) : null;
+
+  const handleSaveMaskTemplate = () => {
+    if (!activeDevImage || !activeDesign) return;
+    const regions = activeProject.annotations
+      .filter(a => a.type === 'mask' && a.devImageId === activeDevImage.id)
+      .map(a => ({ x: a.x, y: a.y, width: a.width || 0, height: a.height || 0, text: a.text }));
+    if (regions.length === 0) {
+      alert('当前实现图还没有忽略区域');
+      return;
+    }
+    const template = { id: activeMaskTemplate?.id ?? uuidv4(), designImageId: activeDesign.id, deviceId: activeDevImage.deviceId, regions };
+    pushHistory();
+    updateActiveProject({
+      maskTemplates: [...(activeProject.maskTemplates || []).filter(t => t.id !== template.id), template]
+    });
+  };
+
+  // 用模板替换当前实现图的忽略区域
+  const handleApplyMaskTemplate = () => {
+    if (!activeDevImage || !activeMaskTemplate) return;
+    pushHistory();
+    updateActiveProject({
+      annotations: [
+        ...activeProject.annotations.filter(a => !(a.type === 'mask' && a.devImageId === activeDevImage.id)),
+        ...createMaskAnnotations(activeMaskTemplate, activeDevImage.id)
+      ]
+    });
+  };
+
   const handleSelectAnnotation = (id: string) => {
     setActiveAnnotationId(id);
     const relatedIssue = activeProject.issues.find(i => i.annotationId === id);
@@ -1048,7 +1851,7 @@ const App: React.FC = () => {
 
   return (
     <div className="flex h-screen w-full bg-[#fcfcfd] overflow-hidden text-slate-900">
-      <ProjectSidebar projects={projects} activeProjectId={activeProjectId} onSwitchProject={setActiveProjectId} onAddProject={handleAddProject} onDeleteProject={handleDeleteProject} onRenameProject={handleRenameProject} isCollapsed={isSidebarCollapsed} onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)} />
+      <ProjectSidebar projects={projects} activeProjectId={activeProjectId} onSwitchProject={setActiveProjectId} onAddProject={handleAddProject} onDeleteProject={handleDeleteProject} onRenameProject={handleRenameProject} batchItems={batchItems} isBatchRunning={isBatchRunning} batchSummary={batchSummary} batchConcurrency={batchConcurrency} onChangeBatchConcurrency={setBatchConcurrency} onAnalyzeAll={startBatchAnalysis} onCancelBatch={cancelBatchAnalysis} onDismissBatchSummary={dismissBatchSummary} isCollapsed={isSidebarCollapsed} onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)} />
       
       <div className="flex-1 flex flex-col min-w-0">
         <header className="h-14 bg-white border-b border-gray-100 flex items-center justify-between px-4 shrink-0 z-40">
@@ -1057,6 +1860,7 @@ const App: React.FC = () => {
               <div className="flex bg-gray-100 p-1 rounded-xl">
                  <button onClick={() => setTabMode(TabMode.UPLOAD)} className={`px-4 py-1 rounded-lg text-xs font-bold transition-all ${tabMode === TabMode.UPLOAD ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500'}`}>资源导入</button>
                  <button onClick={() => setTabMode(TabMode.COMPARE)} className={`px-4 py-1 rounded-lg text-xs font-bold transition-all ${tabMode === TabMode.COMPARE ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500'}`}>视觉对比</button>
+                 <button onClick={() => setTabMode(TabMode.MATRIX)} className={`px-4 py-1 rounded-lg text-xs font-bold transition-all ${tabMode === TabMode.MATRIX ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500'}`}>断点矩阵</button>
               </div>
 
               {tabMode === TabMode.COMPARE && (
@@ -1067,12 +1871,25 @@ const App: React.FC = () => {
                          { id: ComparisonMode.SIDE_BY_SIDE, icon: Layout, label: '分屏' },
                          { id: ComparisonMode.SLIDER, icon: Scan, label: '滑块' },
                          { id: ComparisonMode.OVERLAY, icon: Eye, label: '叠加' },
+                         { id: ComparisonMode.DIFFERENCE, icon: Contrast, label: '差值' },
                        ].map(m => (
                          <button key={m.id} onClick={() => setComparisonMode(m.id)} className={`px-3 py-1 rounded-lg text-xs font-black flex items-center gap-1.5 transition-all ${comparisonMode === m.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}>
                             <m.icon size={14}/> {m.label}
                          </button>
                        ))}
                    </div>
+
+                   <div className="h-4 w-[1px] bg-gray-200" />
+
+                   <select
+                      value={measureUnit ?? ''}
+                      onChange={(e) => setMeasureUnit((e.target.value || undefined) as MeasureUnit | undefined)}
+                      className="bg-gray-100 rounded-lg px-2 py-1.5 text-xs font-bold text-gray-600 outline-none"
+                      title={`测量单位 · 当前标定 @${Math.round(activeCalibration.dpr * 100) / 100}x`}
+                   >
+                      <option value="">自动 ({defaultUnitFor(activeDevice)})</option>
+                      {MEASURE_UNITS.map(u => <option key={u.id} value={u.id}>{u.label}</option>)}
+                   </select>
                    
                    <div className="h-4 w-[1px] bg-gray-200" />
                    
@@ -1091,10 +1908,36 @@ const App: React.FC = () => {
            </div>
 
            <div className="flex items-center gap-3">
-              {comparisonMode === ComparisonMode.OVERLAY && tabMode === TabMode.COMPARE && (
+              {saveStatus !== 'idle' && (
+                  <div 
+                      className={`flex items-center gap-1.5 text-[10px] font-bold ${saveStatus === 'error' ? 'text-red-500' : 'text-gray-400'}`}
+                      title={lastSavedAt ? `上次保存: ${new Date(lastSavedAt).toLocaleString()}` : undefined}
+                  >
+                      {saveStatus === 'saving' && <><Loader2 size={12} className="animate-spin" /><span>保存中...</span></>}
+                      {saveStatus === 'saved' && <><CloudCheck size={12} /><span>已自动保存</span></>}
+                      {saveStatus === 'error' && <><CloudOff size={12} /><span>保存失败</span></>}
+                  </div>
+              )}
+              {(comparisonMode === ComparisonMode.OVERLAY || comparisonMode === ComparisonMode.DIFFERENCE) && tabMode === TabMode.COMPARE && (
                   <div className="flex items-center gap-2 bg-amber-50 text-amber-600 px-3 py-1.5 rounded-lg text-xs font-bold border border-amber-100 animate-in fade-in">
                       <Move size={14} />
                       <span>拖拽调整对齐</span>
+                      <span className="font-mono text-amber-500">
+                          {Math.round(overlayOffset.x)},{Math.round(overlayOffset.y)}{overlayScale !== 1 ? ` ×${Math.round(overlayScale * 1000) / 1000}` : ''}
+                      </span>
+                      <div className="h-3 w-[1px] bg-amber-200 mx-1" />
+                      <label className="flex items-center gap-1 cursor-pointer" title="同时匹配 @2x / @3x 等倍率差异">
+                          <input type="checkbox" checked={alignWithScale} onChange={(e) => setAlignWithScale(e.target.checked)} className="accent-amber-500" />
+                          <span>含缩放</span>
+                      </label>
+                      <button 
+                          onClick={handleAutoAlign} 
+                          disabled={isAutoAligning}
+                          className="flex items-center gap-1 bg-amber-500 text-white px-2 py-0.5 rounded-md hover:bg-amber-600 disabled:opacity-60 transition-colors"
+                      >
+                          {isAutoAligning ? <Loader2 size={12} className="animate-spin" /> : <Crosshair size={12} />}
+                          自动对齐
+                      </button>
                   </div>
               )}
               {isSpacePressed && tabMode === TabMode.COMPARE && (
@@ -1119,87 +1962,211 @@ const App: React.FC = () => {
                     <p className="text-slate-500 text-lg font-medium">并置对比设计与代码，让每一个像素都精准还原。</p>
                  </div>
                  
-                 <div className="w-full max-w-7xl flex flex-wrap justify-center gap-10 pb-20 animate-in fade-in slide-in-from-bottom-8 duration-700">
-                    <div className="relative group w-full sm:w-[22rem] shrink-0">
-                        <div 
-                            onClick={() => !activeProject.designImage && document.getElementById('design-up')?.click()} 
-                            onDragOver={(e) => onDragOver(e, 'design')}
-                            onDragLeave={onDragLeave}
-                            onDrop={(e) => onDrop(e, 'design')}
-                            className={`h-[22rem] rounded-[3rem] border-2 border-dashed flex flex-col items-center justify-center cursor-pointer transition-all duration-500 relative shadow-sm ${
-                                activeProject.designImage 
-                                    ? 'border-indigo-500 bg-white shadow-2xl scale-[1.02]' 
-                                    : dragOverTarget === 'design' 
+                 <div className="w-full max-w-7xl space-y-12 pb-28 animate-in fade-in slide-in-from-bottom-8 duration-700">
+                    {/* Design Images */}
+                    <section>
+                        <div className="flex items-center gap-3 mb-6">
+                            <div className="w-10 h-10 bg-black text-white rounded-2xl flex items-center justify-center font-black shadow-xl">01</div>
+                            <h3 className="text-lg font-black text-slate-900">设计稿</h3>
+                            <span className="text-xs text-slate-400 font-medium">同一流程的多个状态可分别上传</span>
+                            <button
+                                onClick={() => setIsFigmaModalOpen(true)}
+                                className="ml-auto flex items-center gap-2 bg-black hover:bg-gray-800 text-white px-3 py-1.5 rounded-lg text-xs font-bold transition-all"
+                            >
+                                <FigmaIcon size={14} />
+                                从 Figma 导入
+                            </button>
+                            {activeProject.designImages.some(d => d.figma) && (
+                                <button
+                                    onClick={handleFigmaResync}
+                                    disabled={!!figmaSyncStatus}
+                                    className="flex items-center gap-2 bg-white border border-slate-200 hover:border-slate-400 text-slate-700 px-3 py-1.5 rounded-lg text-xs font-bold transition-all disabled:opacity-60"
+                                    title="重新导出已导入的 Frame，保留旧版本并标记受设计变化影响的问题"
+                                >
+                                    <RefreshCw size={14} className={figmaSyncStatus ? 'animate-spin' : ''} />
+                                    {figmaSyncStatus || '从 Figma 重新同步'}
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex flex-wrap gap-8">
+                            {activeProject.designImages.map((design, idx) => (
+                                <div key={design.id} className="relative group w-full sm:w-[16rem] shrink-0">
+                                    <div className="h-[16rem] rounded-[2.5rem] border-2 border-indigo-500 bg-white shadow-2xl overflow-hidden relative">
+                                        <img src={design.data} className="w-full h-full object-cover" />
+                                        <div className="absolute inset-0 bg-black/40 flex items-center justify-center gap-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                                           <button 
+                                              onClick={() => { replaceDesignIdRef.current = design.id; document.getElementById('design-replace')?.click(); }} 
+                                              className="p-3 bg-white rounded-2xl text-indigo-600 hover:scale-110 transition-transform shadow-lg"
+                                              title="替换设计稿"
+                                           >
+                                              <RefreshCw size={20}/>
+                                           </button>
+                                           <button onClick={() => handleDeleteDesignImage(design.id)} className="p-3 bg-red-500 rounded-2xl text-white hover:scale-110 transition-transform" title="删除设计稿"><X size={20}/></button>
+                                        </div>
+                                    </div>
+                                    <div className="absolute -top-3 -left-3 h-10 min-w-10 px-2 bg-black text-white rounded-xl flex items-center justify-center font-black text-sm shadow-xl border-4 border-white z-10">D{idx + 1}</div>
+                                    <p className="mt-3 text-xs font-bold text-slate-500 truncate px-2">{design.name}</p>
+                                    {design.syncedAt && (
+                                        <p className="mt-1 px-2 text-[10px] text-slate-400 truncate" title={design.changes?.map(c => c.label).join('\n')}>
+                                            v{(design.versions?.length || 0) + 1} · 同步于 {new Date(design.syncedAt).toLocaleString()}
+                                            {design.changes?.length ? <span className="ml-1 font-bold text-amber-600">{design.changes.length} 处变化</span> : null}
+                                        </p>
+                                    )}
+                                    <div className="mt-2 mx-2 flex items-center gap-2 text-xs text-slate-500">
+                                        <span className="shrink-0 font-bold">标定</span>
+                                        <CalibrationEditor
+                                            calibration={design.calibration}
+                                            imageSrc={design.data}
+                                            defaultMode="canvas"
+                                            onChange={(calibration) => handleCalibrateImage('design', design.id, calibration)}
+                                        />
+                                    </div>
+                                </div>
+                            ))}
+
+                            <div 
+                                onClick={() => document.getElementById('design-up')?.click()} 
+                                onDragOver={(e) => onDragOver(e, 'design')}
+                                onDragLeave={onDragLeave}
+                                onDrop={(e) => onDrop(e, 'design')}
+                                className={`w-full sm:w-[16rem] h-[16rem] shrink-0 rounded-[2.5rem] border-2 border-dashed flex flex-col items-center justify-center cursor-pointer transition-all duration-500 group ${
+                                    dragOverTarget === 'design' 
                                         ? 'border-indigo-500 bg-indigo-50 scale-[1.02]' 
                                         : 'border-slate-200 bg-white hover:border-indigo-400 hover:-translate-y-2'
-                            }`}
-                        >
-                            {activeProject.designImage ? (
-                                <div className="w-full h-full relative">
-                                    <img src={activeProject.designImage} className="w-full h-full object-cover rounded-[3rem]" />
-                                    <div className="absolute inset-0 bg-black/40 flex flex-col items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                                       <button 
-                                          onClick={(e) => { e.stopPropagation(); document.getElementById('design-up')?.click(); }} 
-                                          className="p-3 bg-white rounded-2xl text-indigo-600 hover:scale-110 transition-transform shadow-lg cursor-pointer"
-                                       >
-                                          <RefreshCw size={24}/>
-                                       </button>
+                                }`}
+                            >
+                                <div className={`w-14 h-14 rounded-2xl flex items-center justify-center mb-4 transition-colors ${dragOverTarget === 'design' ? 'bg-indigo-200 text-indigo-600' : 'bg-slate-50 text-slate-300 group-hover:text-indigo-400'}`}><ImageIcon size={28} /></div>
+                                <span className={`font-black text-lg ${dragOverTarget === 'design' ? 'text-indigo-600' : 'text-slate-900'}`}>{dragOverTarget === 'design' ? '松开上传' : activeProject.designImages.length ? '添加设计稿' : '上传设计稿'}</span>
+                                <span className="text-xs text-slate-400 mt-2 font-medium bg-slate-100 px-2 py-1 rounded">支持拖拽 / Ctrl+V</span>
+                                <input id="design-up" type="file" className="hidden" accept="image/*" multiple onChange={(e) => handleInputUpload('design', e)} />
+                            </div>
+                            <input 
+                                id="design-replace" 
+                                type="file" 
+                                className="hidden" 
+                                accept="image/*" 
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file && replaceDesignIdRef.current) handleReplaceDesignImage(replaceDesignIdRef.current, file);
+                                    e.target.value = '';
+                                }} 
+                            />
+                        </div>
+                    </section>
+
+                    {/* Dev Images & Pairing */}
+                    <section>
+                        <div className="flex items-center gap-3 mb-6">
+                            <div className="w-10 h-10 bg-indigo-600 text-white rounded-2xl flex items-center justify-center font-black shadow-xl">02</div>
+                            <h3 className="text-lg font-black text-slate-900">实现图</h3>
+                            <span className="text-xs text-slate-400 font-medium">每张实现图与一张设计稿配对对比</span>
+                            <button
+                                onClick={() => setIsCaptureModalOpen(true)}
+                                className="ml-auto flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-lg text-xs font-bold transition-all"
+                                title="通过本地截图服务按设备视口截取页面"
+                            >
+                                <Camera size={14} />
+                                从 URL 截图
+                            </button>
+                        </div>
+                        <div className="flex flex-wrap gap-8">
+                            {activeProject.devImages.map((img, idx) => (
+                                 <div key={img.id} className="relative group w-full sm:w-[16rem] shrink-0">
+                                    <div className="h-[16rem] rounded-[2.5rem] border-2 border-indigo-500 bg-white shadow-2xl overflow-hidden relative">
+                                        <img src={img.data} className="w-full h-full object-cover" />
+                                        <div className="absolute inset-0 bg-black/40 flex flex-col items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                                           <button onClick={() => updateActiveProject({ devImages: activeProject.devImages.filter(i => i.id !== img.id) })} className="p-3 bg-red-500 rounded-2xl text-white"><X size={20}/></button>
+                                        </div>
                                     </div>
-                                </div>
-                            ) : (
-                                <>
-                                    <div className={`w-16 h-16 rounded-2xl flex items-center justify-center mb-4 transition-colors ${dragOverTarget === 'design' ? 'bg-indigo-200 text-indigo-600' : 'bg-slate-50 text-slate-300 group-hover:text-indigo-400'}`}><ImageIcon size={32} /></div>
-                                    <span className={`font-black text-xl ${dragOverTarget === 'design' ? 'text-indigo-600' : 'text-slate-900'}`}>{dragOverTarget === 'design' ? '松开上传' : '上传设计稿'}</span>
+                                    <div className="absolute -top-3 -left-3 w-10 h-10 bg-indigo-600 text-white rounded-xl flex items-center justify-center font-black text-sm shadow-xl border-4 border-white z-10">{String(idx + 1).padStart(2, '0')}</div>
+                                    <p className="mt-3 text-xs font-bold text-slate-500 truncate px-2">{img.name}</p>
+                                    {activeProject.designImages.length > 0 && (
+                                        <label className="mt-2 mx-2 flex items-center gap-2 text-xs text-slate-500">
+                                            <span className="shrink-0 font-bold">对应设计稿</span>
+                                            <select
+                                                value={getPairedDesign(activeProject, img)?.id ?? ''}
+                                                onChange={(e) => handlePairDevImage(img.id, e.target.value)}
+                                                className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg px-2 py-1 font-bold text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+                                            >
+                                                {activeProject.designImages.map((design, designIdx) => (
+                                                    <option key={design.id} value={design.id}>D{designIdx + 1} · {design.name}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                    )}
+                                    <div className="mt-2 mx-2 flex items-center gap-2 text-xs text-slate-500">
+                                        <span className="shrink-0 font-bold">设备</span>
+                                        <DeviceSelect
+                                            devices={getProjectDevices(activeProject)}
+                                            value={img.deviceId}
+                                            onChange={(deviceId) => handleSetDevImageDevice(img.id, deviceId)}
+                                            onAddCustomDevice={handleAddCustomDevice}
+                                        />
+                                    </div>
+                                    <div className="mt-2 mx-2 flex items-center gap-2 text-xs text-slate-500">
+                                        <span className="shrink-0 font-bold">标定</span>
+                                        <CalibrationEditor
+                                            calibration={img.calibration}
+                                            imageSrc={img.data}
+                                            fallbackDpr={getDevImageDevice(activeProject, img)?.dpr}
+                                            onChange={(calibration) => handleCalibrateImage('dev', img.id, calibration)}
+                                        />
+                                    </div>
+                                 </div>
+                            ))}
+
+                            <div className="w-full sm:w-[16rem] shrink-0 relative">
+                                {activeProject.designImages.length > 0 && activeProject.devImages.length === 0 && (
+                                     <div className="absolute -top-12 left-1/2 -translate-x-1/2 bg-slate-800 text-white px-4 py-2 rounded-xl shadow-xl animate-bounce z-20 whitespace-nowrap text-sm font-bold flex items-center gap-2">
+                                        <span>👇 请上传研发实现图</span>
+                                        <div className="absolute bottom-0 left-1/2 -translate-x-1/2 translate-y-1 w-3 h-3 bg-slate-800 rotate-45"></div>
+                                     </div>
+                                )}
+                                <div 
+                                    onClick={() => document.getElementById('dev-up')?.click()}
+                                    onDragOver={(e) => onDragOver(e, 'dev')}
+                                    onDragLeave={onDragLeave}
+                                    onDrop={(e) => onDrop(e, 'dev')}
+                                    className={`h-[16rem] rounded-[2.5rem] border-2 border-dashed flex flex-col items-center justify-center cursor-pointer transition-all duration-500 group ${
+                                        dragOverTarget === 'dev' 
+                                            ? 'border-indigo-500 bg-indigo-50 scale-[1.02]' 
+                                            : 'border-slate-200 bg-white hover:border-indigo-400 hover:-translate-y-2'
+                                    }`}
+                                >
+                                    <div className={`w-14 h-14 rounded-2xl flex items-center justify-center mb-4 transition-colors ${dragOverTarget === 'dev' ? 'bg-indigo-200 text-indigo-600' : 'bg-slate-50 text-slate-300 group-hover:text-indigo-600'}`}><ClipboardPaste size={28} /></div>
+                                    <span className={`font-black text-lg ${dragOverTarget === 'dev' ? 'text-indigo-600' : 'text-slate-900'}`}>{dragOverTarget === 'dev' ? '松开上传' : '添加实现图'}</span>
                                     <span className="text-xs text-slate-400 mt-2 font-medium bg-slate-100 px-2 py-1 rounded">支持拖拽 / Ctrl+V</span>
-                                </>
-                            )}
-                            <input id="design-up" type="file" className="hidden" accept="image/*" onChange={(e) => handleInputUpload('design', e)} />
-                        </div>
-                        <div className="absolute -top-4 -left-4 w-12 h-12 bg-black text-white rounded-2xl flex items-center justify-center font-black shadow-xl border-4 border-white z-10">01</div>
-                    </div>
-
-                    {activeProject.devImages.map((img, idx) => (
-                         <div key={img.id} className="relative group w-full sm:w-[22rem] shrink-0">
-                            <div className="h-[22rem] rounded-[3rem] border-2 border-indigo-500 bg-white shadow-2xl scale-[1.02] overflow-hidden relative">
-                                <img src={img.data} className="w-full h-full object-cover" />
-                                <div className="absolute inset-0 bg-black/40 flex flex-col items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                                   <button onClick={() => updateActiveProject({ devImages: activeProject.devImages.filter(i => i.id !== img.id) })} className="p-3 bg-red-500 rounded-2xl text-white"><X size={24}/></button>
+                                    <input id="dev-up" type="file" className="hidden" accept="image/*" multiple onChange={(e) => handleInputUpload('dev', e)} />
                                 </div>
                             </div>
-                            <div className="absolute -top-4 -left-4 w-12 h-12 bg-indigo-600 text-white rounded-2xl flex items-center justify-center font-black shadow-xl border-4 border-white z-10">0{idx + 2}</div>
-                         </div>
-                    ))}
-
-                    <div className="w-full sm:w-[22rem] shrink-0 relative">
-                        {activeProject.designImage && activeProject.devImages.length === 0 && (
-                             <div className="absolute -top-12 left-1/2 -translate-x-1/2 bg-slate-800 text-white px-4 py-2 rounded-xl shadow-xl animate-bounce z-20 whitespace-nowrap text-sm font-bold flex items-center gap-2">
-                                <span>👆 请上传研发实现图</span>
-                                <div className="absolute bottom-0 left-1/2 -translate-x-1/2 translate-y-1 w-3 h-3 bg-slate-800 rotate-45"></div>
-                             </div>
-                        )}
-                        <div 
-                            onClick={() => document.getElementById('dev-up')?.click()}
-                            onDragOver={(e) => onDragOver(e, 'dev')}
-                            onDragLeave={onDragLeave}
-                            onDrop={(e) => onDrop(e, 'dev')}
-                            className={`h-[22rem] rounded-[3rem] border-2 border-dashed flex flex-col items-center justify-center cursor-pointer transition-all duration-500 group ${
-                                dragOverTarget === 'dev' 
-                                    ? 'border-indigo-500 bg-indigo-50 scale-[1.02]' 
-                                    : 'border-slate-200 bg-white hover:border-indigo-400 hover:-translate-y-2'
-                            }`}
-                        >
-                            <div className={`w-16 h-16 rounded-2xl flex items-center justify-center mb-4 transition-colors ${dragOverTarget === 'dev' ? 'bg-indigo-200 text-indigo-600' : 'bg-slate-50 text-slate-300 group-hover:text-indigo-600'}`}><ClipboardPaste size={32} /></div>
-                            <span className={`font-black text-xl ${dragOverTarget === 'dev' ? 'text-indigo-600' : 'text-slate-900'}`}>{dragOverTarget === 'dev' ? '松开上传' : '添加实现图'}</span>
-                            <span className="text-xs text-slate-400 mt-2 font-medium bg-slate-100 px-2 py-1 rounded">支持拖拽 / Ctrl+V</span>
-                            <input id="dev-up" type="file" className="hidden" accept="image/*" multiple onChange={(e) => handleInputUpload('dev', e)} />
                         </div>
-                    </div>
+                    </section>
+
+                    {/* Design Tokens */}
+                    <section>
+                        <div className="flex items-center gap-3 mb-6">
+                            <div className="w-10 h-10 bg-slate-200 text-slate-700 rounded-2xl flex items-center justify-center font-black shadow-xl">03</div>
+                            <h3 className="text-lg font-black text-slate-900">设计 Token</h3>
+                            <span className="text-xs text-slate-400 font-medium">可选，取色、测距与 AI 建议将引用 token 名</span>
+                        </div>
+                        <DesignTokenPanel
+                            tokens={activeProject.tokens || []}
+                            onImport={handleImportTokens}
+                            onClear={() => { pushHistory(); updateActiveProject({ tokens: undefined }); }}
+                        />
+                    </section>
                  </div>
 
                  <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-50">
-                    <button onClick={() => setTabMode(TabMode.COMPARE)} disabled={!activeProject.designImage || activeProject.devImages.length === 0} className="h-16 px-12 bg-slate-950 text-white rounded-[2rem] font-black text-xl hover:bg-indigo-600 hover:scale-105 active:scale-95 disabled:bg-slate-100 disabled:text-slate-300 transition-all shadow-2xl flex items-center gap-4">开启走查 <ArrowRight size={24}/></button>
+                    <button onClick={() => setTabMode(TabMode.COMPARE)} disabled={activeProject.designImages.length === 0 || activeProject.devImages.length === 0} className="h-16 px-12 bg-slate-950 text-white rounded-[2rem] font-black text-xl hover:bg-indigo-600 hover:scale-105 active:scale-95 disabled:bg-slate-100 disabled:text-slate-300 transition-all shadow-2xl flex items-center gap-4">开启走查 <ArrowRight size={24}/></button>
                  </div>
               </div>
+           ) : tabMode === TabMode.MATRIX ? (
+              <DeviceMatrix
+                  project={activeProject}
+                  onOpenDevImage={(id) => { updateActiveProject({ activeDevImageId: id }); setTabMode(TabMode.COMPARE); }}
+                  onAddDevImage={() => setTabMode(TabMode.UPLOAD)}
+              />
            ) : (
               <div className="w-full h-full flex items-stretch">
                  {/* ... Comparison View Logic ... */}
@@ -1209,7 +2176,10 @@ const App: React.FC = () => {
                       { id: ToolMode.HAND, icon: Hand, label: '抓手 (Space)' },
                       { id: ToolMode.RULER, icon: Ruler, label: '测量' },
                       { id: ToolMode.COLOR_PICKER, icon: Pipette, label: '吸色' },
-                      { id: ToolMode.ALIGNER, icon: Move, label: '对齐', hidden: comparisonMode !== ComparisonMode.OVERLAY },
+                      { id: ToolMode.INSPECTOR, icon: BoxSelect, label: '检查 (尺寸/间距)' },
+                      { id: ToolMode.MASK, icon: SquareDashed, label: '忽略区域' },
+                      { id: ToolMode.TYPOGRAPHY, icon: Type, label: '文字 (字号/行高/字重)' },
+                      { id: ToolMode.ALIGNER, icon: Move, label: '对齐', hidden: comparisonMode !== ComparisonMode.OVERLAY && comparisonMode !== ComparisonMode.DIFFERENCE },
                     ].filter(t => !t.hidden).map(tool => (
                       <button key={tool.id} onClick={() => setActiveTool(tool.id)} className={`p-3 rounded-2xl transition-all relative group ${activeTool === tool.id ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/30' : 'text-gray-400 hover:bg-gray-100 hover:text-gray-600'}`}>
                          <tool.icon size={20}/>
@@ -1228,11 +2198,25 @@ const App: React.FC = () => {
                             {showAnnotations ? '隐藏标注' : '显示标注'}
                         </span>
                     </button>
+                    {activeDiffResult && (
+                        <button 
+                            onClick={() => setShowHeatmap(!showHeatmap)} 
+                            className={`p-3 rounded-2xl transition-all relative group ${!showHeatmap ? 'text-gray-400 hover:text-gray-600 hover:bg-gray-100' : 'bg-orange-50 text-orange-600 shadow-inner'}`}
+                        >
+                            <Flame size={20} />
+                            <span className="absolute left-full ml-4 px-2 py-1 bg-gray-800 text-white text-[10px] rounded opacity-0 group-hover:opacity-100 pointer-events-none whitespace-nowrap z-50 transition-opacity">
+                                {showHeatmap ? '隐藏差异热力图' : '显示差异热力图'}
+                            </span>
+                        </button>
+                    )}
                  </div>
 
                  <div className="flex-1 min-w-0 bg-slate-100 relative">
                     <ComparisonView 
-                        designImage={activeProject.designImage || ''} 
+                        designImage={activeDesign?.data || ''} 
+                        designImages={activeProject.designImages}
+                        activeDesignImageId={activeDesign?.id ?? null}
+                        onSwitchDesignImage={handleSwitchDesignImage}
                         devImages={activeProject.devImages} 
                         activeDevImageId={activeProject.activeDevImageId} 
                         onSwitchDevImage={(id) => updateActiveProject({ activeDevImageId: id })} 
@@ -1252,11 +2236,22 @@ const App: React.FC = () => {
                         setPosition={setPosition} 
                         onZoomIn={() => setScale(s => s * 1.2)} 
                         onZoomOut={() => setScale(s => s / 1.2)} 
-                        onResetZoom={() => { setScale(1); setPosition({x:0, y:0}); setOverlayOffset({x:0, y:0}); }}
+                        onResetZoom={() => { setScale(1); setPosition({x:0, y:0}); setOverlayOffset({x:0, y:0}); setOverlayScale(1); setIsAligned(false); }}
                         overlayOffset={overlayOffset}
-                        setOverlayOffset={setOverlayOffset}
+                        overlayScale={overlayScale}
+                        setOverlayOffset={offset => { setOverlayOffset(offset); setIsAligned(true); }}
                         isSpacePressed={isSpacePressed}
                         showAnnotations={showAnnotations}
+                        diffHeatmap={showHeatmap ? activeDiffResult?.heatmap : null}
+                        calibration={activeCalibration}
+                        designCalibration={activeDesignCalibration}
+                        measureUnit={activeMeasureUnit}
+                        onDeleteAnnotation={handleDeleteAnnotation}
+                        maskTemplateCount={activeMaskTemplate?.regions.length ?? 0}
+                        onSaveMaskTemplate={handleSaveMaskTemplate}
+                        onApplyMaskTemplate={handleApplyMaskTemplate}
+                        figmaLayers={activeDesign?.figmaLayers}
+                        designChanges={activeDesign?.changes}
                     />
                  </div>
                  <IssueList 
@@ -1268,8 +2263,28 @@ const App: React.FC = () => {
                     onDeleteIssue={(id) => { pushHistory(); updateActiveProject({ issues: activeProject.issues.filter(i => i.id !== id), annotations: activeProject.annotations.filter(a => a.id !== activeProject.issues.find(i => i.id === id)?.annotationId) }) }} 
                     isAnalyzing={isAnalyzing} 
                     aiProgress={aiProgress} 
+                    onCancelAnalysis={cancelAnalysis}
+                    aiError={aiError && aiError.devImageId === activeDevImageId ? aiError : null}
+                    onDismissAiError={() => setAiError(null)}
                     onAnalyze={startAnalysis} 
+                    analyzerLabel={ANALYZER_PRESETS[analyzerSettings.provider].label}
+                    onOpenAnalyzerSettings={() => setIsAnalyzerModalOpen(true)}
+                    aiReport={aiReport && aiReport.devImageId === activeDevImageId ? aiReport : null}
                     onHoverIssue={setHoveredAnnotationId} 
+                    isDiffing={isDiffing}
+                    onPixelDiff={startPixelDiff}
+                    textDiffProgress={textDiffProgress}
+                    onTextDiff={startTextDiff}
+                    diffOptions={diffOptions}
+                    onChangeDiffOptions={setDiffOptions}
+                    diffSummary={activeDiffResult ? { diffRatio: activeDiffResult.diffRatio, regionCount: activeDiffResult.clusters.length } : null}
+                    devImages={activeProject.devImages}
+                    devices={getProjectDevices(activeProject)}
+                    describeMeasurement={(ann) => {
+                        const { unit, calibration } = getMeasureContext(activeProject, ann.devImageId);
+                        return describeMeasurement(ann, unit, calibration);
+                    }}
+                    onSetExpected={handleSetExpected}
                  />
               </div>
            )}
@@ -1279,7 +2294,7 @@ const App: React.FC = () => {
       <ShareModal 
           isOpen={isShareModalOpen} 
           onClose={() => setIsShareModalOpen(false)} 
-          onExportProject={() => {}} 
+          onExportProject={handleExportProject} 
           onExportHTML={handleDownloadHTML} 
           onPreviewHTML={handlePreviewHTML}
           onImportProject={handleImportFeedback}
@@ -1289,7 +2304,30 @@ const App: React.FC = () => {
           activeProjectFigmaUrl={activeProject.figmaUrl}
           onUpdateFigmaUrl={(url) => updateActiveProject({ figmaUrl: url })}
       />
-      <FigmaImportModal isOpen={isFigmaModalOpen} onClose={() => setIsFigmaModalOpen(false)} onImport={() => {}} />
+      <FigmaImportModal
+          isOpen={isFigmaModalOpen}
+          onClose={() => setIsFigmaModalOpen(false)}
+          settings={figmaSettings}
+          onSaveSettings={setFigmaSettings}
+          onImport={handleFigmaImport}
+          initialUrl={activeProject.figmaUrl}
+      />
+      <CaptureModal
+          isOpen={isCaptureModalOpen}
+          onClose={() => setIsCaptureModalOpen(false)}
+          settings={captureSettings}
+          onSaveSettings={setCaptureSettings}
+          devices={getProjectDevices(activeProject)}
+          onAddCustomDevice={handleAddCustomDevice}
+          onCapture={handleCapture}
+      />
+      <AnalyzerSettingsModal
+          isOpen={isAnalyzerModalOpen}
+          onClose={() => setIsAnalyzerModalOpen(false)}
+          settings={analyzerSettings}
+          onSave={setAnalyzerSettings}
+      />
+      <RecoveryPrompt snapshot={recoverySnapshot} onRestore={handleRestoreSession} onDiscard={handleDiscardSession} />
 
       {/* --- HIDDEN FULL REPORT RENDERER FOR EXPORT --- */}
       <div 
@@ -1305,8 +2343,9 @@ const App: React.FC = () => {
           </div>
 
           {projects.filter(p => p.devImages.length > 0).map((p, idx) => {
-             const activeDev = p.devImages.find(d => d.id === p.activeDevImageId) || p.devImages[0];
+             const activeDev = getActiveDevImage(p);
              if (!activeDev) return null;
+             const pairedDesign = getPairedDesign(p, activeDev);
 
              return (
                  <div key={p.id} className="bg-white rounded-3xl shadow-sm border border-gray-100 overflow-hidden flex flex-col">
@@ -1325,10 +2364,10 @@ const App: React.FC = () => {
                          {/* Images Column */}
                          <div className="flex-1 flex gap-4 min-w-0">
                              {/* Design Image */}
-                             {p.designImage && (
+                             {pairedDesign && (
                                  <div className="flex-1 min-w-0 flex flex-col gap-2">
                                      <div className="text-xs font-bold text-indigo-600 uppercase tracking-wider bg-indigo-50 px-2 py-1 rounded w-fit">设计稿 Design</div>
-                                     <img src={p.designImage} className="w-full border-4 border-indigo-100 rounded-lg" />
+                                     <img src={pairedDesign.data} className="w-full border-4 border-indigo-100 rounded-lg" />
                                  </div>
                              )}
                              
@@ -1353,11 +2392,11 @@ const App: React.FC = () => {
                                              </div>
                                          ) : null;
 
-                                         if (ann.type === 'ai' || (ann.type === 'manual' && ann.width)) {
+                                         if (ann.type === 'ai' || ann.type === 'diff' || ann.type === 'typography' || ann.type === 'text' || (ann.type === 'manual' && ann.width)) {
                                             return (
                                                 <div 
                                                     key={ann.id}
-                                                    className={`absolute border-2 ${ann.type === 'ai' ? 'border-red-500 bg-red-500/10' : 'border-blue-500 bg-blue-500/10'}`}
+                                                    className={`absolute border-2 ${ann.type === 'ai' ? 'border-red-500 bg-red-500/10' : ann.type === 'diff' ? 'border-orange-500 bg-orange-500/10' : ann.type === 'typography' ? 'border-violet-500 bg-violet-500/10' : ann.type === 'text' ? 'border-teal-500 bg-teal-500/10' : 'border-blue-500 bg-blue-500/10'}`}
                                                     style={{ 
                                                         left: `${ann.x}%`, 
                                                         top: `${ann.y}%`, 
@@ -0,0 +1,144 @@
+
+import React, { useState, useEffect } from 'react';
+import { X, Cpu, Check } from 'lucide-react';
+import Button from './Button';
+import { AnalyzerProvider, AnalyzerSettings } from '../types';
+import { ANALYZER_PRESETS } from '../services/visionAnalyzer';
+
+interface AnalyzerSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AnalyzerSettings;
+  onSave: (settings: AnalyzerSettings) => void;
+}
+
+const AnalyzerSettingsModal: React.FC<AnalyzerSettingsModalProps> = ({ isOpen, onClose, settings, onSave }) => {
+  const [draft, setDraft] = useState<AnalyzerSettings>(settings);
+
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const selectProvider = (provider: AnalyzerProvider) => {
+    if (provider === draft.provider) return;
+    setDraft({ ...ANALYZER_PRESETS[provider].defaults, tiled: draft.tiled });
+  };
+
+  const needsBaseUrl = draft.provider === 'openai' || draft.provider === 'ollama';
+  const needsApiKey = draft.provider === 'openai' || draft.provider === 'gemini';
+
+  const handleSave = () => {
+    onSave({
+      provider: draft.provider,
+      model: draft.model.trim() || ANALYZER_PRESETS[draft.provider].defaults.model,
+      ...(needsBaseUrl && draft.baseUrl?.trim() ? { baseUrl: draft.baseUrl.trim() } : {}),
+      ...(needsApiKey && draft.apiKey?.trim() ? { apiKey: draft.apiKey.trim() } : {}),
+      tiled: draft.tiled !== false,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div className="flex items-center gap-2 text-gray-900 font-bold">
+            <div className="w-8 h-8 bg-indigo-600 rounded flex items-center justify-center text-white">
+               <Cpu size={18} />
+            </div>
+            <span>AI 分析服务</span>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(ANALYZER_PRESETS) as AnalyzerProvider[]).map(provider => {
+                const preset = ANALYZER_PRESETS[provider];
+                const isSelected = draft.provider === provider;
+                return (
+                  <button
+                    key={provider}
+                    onClick={() => selectProvider(provider)}
+                    className={`text-left p-3 rounded-lg border transition-all ${
+                      isSelected ? 'border-indigo-500 bg-indigo-50 ring-1 ring-indigo-500/10' : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between text-sm font-bold text-gray-900">
+                      {preset.label}
+                      {isSelected && <Check size={14} className="text-indigo-600" />}
+                    </div>
+                    <p className="text-[10px] text-gray-500 mt-1 leading-relaxed">{preset.description}</p>
+                  </button>
+                );
+              })}
+            </div>
+
+            {draft.provider !== 'mock' && (
+              <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">模型</label>
+                  <input
+                      type="text"
+                      value={draft.model}
+                      onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                      placeholder={ANALYZER_PRESETS[draft.provider].defaults.model}
+                  />
+              </div>
+            )}
+
+            {needsBaseUrl && (
+              <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">服务地址 (Base URL)</label>
+                  <input
+                      type="text"
+                      value={draft.baseUrl || ''}
+                      onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                      placeholder={ANALYZER_PRESETS[draft.provider].defaults.baseUrl}
+                  />
+              </div>
+            )}
+
+            {needsApiKey && (
+              <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">API Key {draft.provider === 'gemini' && '(可选)'}</label>
+                  <input
+                      type="password"
+                      value={draft.apiKey || ''}
+                      onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                      placeholder="sk-..."
+                  />
+                  <p className="text-[10px] text-gray-400 mt-1">仅保存在本机工作区中，不会随 .designsync 项目包导出。</p>
+              </div>
+            )}
+
+            <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={draft.tiled !== false}
+                    onChange={(e) => setDraft({ ...draft, tiled: e.target.checked })}
+                    className="mt-0.5 accent-indigo-600"
+                />
+                <span>
+                    长图分块分析
+                    <span className="block text-[10px] text-gray-400 mt-0.5">长截图按屏切成重叠的小块分别分析，保留小字细节；请求次数会相应增加。</span>
+                </span>
+            </label>
+        </div>
+
+        <div className="p-5 border-t border-gray-100 flex justify-end gap-3 bg-gray-50">
+          <Button variant="secondary" onClick={onClose}>取消</Button>
+          <Button variant="primary" onClick={handleSave}>保存</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyzerSettingsModal;
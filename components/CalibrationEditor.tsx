@@ -0,0 +1,108 @@
+
+import React, { useState } from 'react';
+import { Check, X, Ruler } from 'lucide-react';
+import { ImageCalibration } from '../types';
+import { calibrationFromCanvasWidth, DEFAULT_ROOT_FONT_SIZE } from '../services/measurementService';
+import { readImageWidth } from '../services/deviceProfiles';
+
+interface CalibrationEditorProps {
+  calibration?: ImageCalibration;
+  imageSrc: string;
+  fallbackDpr?: number; // 未标定时使用的设备 dpr
+  defaultMode?: 'dpr' | 'canvas';
+  onChange: (calibration: ImageCalibration | undefined) => void;
+}
+
+const CalibrationEditor: React.FC<CalibrationEditorProps> = ({ calibration, imageSrc, fallbackDpr, defaultMode = 'dpr', onChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [mode, setMode] = useState<'dpr' | 'canvas'>(defaultMode);
+  const [value, setValue] = useState('');
+  const [rootFontSize, setRootFontSize] = useState('');
+
+  const startEdit = () => {
+    const currentMode = calibration ? (calibration.canvasWidth ? 'canvas' : 'dpr') : defaultMode;
+    setMode(currentMode);
+    setValue(String(currentMode === 'canvas' ? (calibration?.canvasWidth ?? 375) : (calibration?.dpr ?? fallbackDpr ?? 1)));
+    setRootFontSize(String(calibration?.rootFontSize ?? DEFAULT_ROOT_FONT_SIZE));
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const n = Number(value);
+    const rem = Number(rootFontSize) || undefined;
+    if (!n || n <= 0) return;
+    if (mode === 'canvas') {
+      const imageWidth = await readImageWidth(imageSrc).catch(() => 0);
+      if (!imageWidth) return;
+      onChange(calibrationFromCanvasWidth(imageWidth, n, rem));
+    } else {
+      onChange({ dpr: n, ...(rem ? { rootFontSize: rem } : {}) });
+    }
+    setIsEditing(false);
+  };
+
+  if (!isEditing) {
+    const summary = calibration
+      ? `${calibration.canvasWidth ? `画布 ${calibration.canvasWidth} · ` : ''}@${Math.round(calibration.dpr * 100) / 100}x`
+      : fallbackDpr ? `跟随设备 @${fallbackDpr}x` : '未标定 (1x)';
+    return (
+      <div className="flex-1 min-w-0 flex items-center gap-1">
+        <button
+          onClick={startEdit}
+          className="flex-1 min-w-0 flex items-center gap-1.5 bg-white border border-slate-200 rounded-lg px-2 py-1 font-bold text-slate-800 hover:border-indigo-300 text-left"
+        >
+          <Ruler size={12} className="text-slate-400 shrink-0" />
+          <span className="truncate">{summary}</span>
+          {calibration?.rootFontSize && calibration.rootFontSize !== DEFAULT_ROOT_FONT_SIZE && (
+            <span className="text-[10px] text-slate-400 font-mono shrink-0">1rem={calibration.rootFontSize}</span>
+          )}
+        </button>
+        {calibration && (
+          <button onClick={() => onChange(undefined)} title="清除标定" className="p-1 text-slate-300 hover:text-red-500"><X size={12} /></button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 min-w-0 p-2 rounded-lg border border-indigo-200 bg-indigo-50/50 space-y-1.5">
+      <div className="flex gap-1.5">
+        <select
+          value={mode}
+          onChange={e => {
+            const next = e.target.value as 'dpr' | 'canvas';
+            setMode(next);
+            setValue(next === 'canvas' ? '375' : String(fallbackDpr ?? 2));
+          }}
+          className="bg-white border border-slate-200 rounded px-1 py-1 text-xs outline-none"
+        >
+          <option value="dpr">DPR</option>
+          <option value="canvas">画布宽度</option>
+        </select>
+        <input
+          type="number"
+          step={mode === 'canvas' ? 1 : 0.25}
+          value={value}
+          onChange={e => setValue(e.target.value)}
+          title={mode === 'canvas' ? '画布逻辑宽度，如 750px 的 @2x 设计稿填 375' : '图片像素 / 逻辑像素'}
+          className="flex-1 min-w-0 bg-white border border-slate-200 rounded px-2 py-1 text-xs font-mono outline-none focus:ring-1 focus:ring-indigo-500"
+        />
+      </div>
+      <div className="flex items-center gap-1.5">
+        <span className="text-[10px] text-slate-400 shrink-0">1rem =</span>
+        <input
+          type="number"
+          value={rootFontSize}
+          onChange={e => setRootFontSize(e.target.value)}
+          className="w-14 bg-white border border-slate-200 rounded px-2 py-1 text-xs font-mono outline-none focus:ring-1 focus:ring-indigo-500"
+        />
+        <span className="text-[10px] text-slate-400">px</span>
+        <div className="flex-1" />
+        <button onClick={() => setIsEditing(false)} className="p-1 text-slate-400 hover:text-slate-600"><X size={14} /></button>
+        <button onClick={handleSave} className="p-1 text-indigo-600 hover:text-indigo-800"><Check size={14} /></button>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationEditor;
@@ -0,0 +1,239 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Camera, Check, AlertCircle, Link } from 'lucide-react';
+import Button from './Button';
+import DeviceSelect from './DeviceSelect';
+import { CaptureSettings, DeviceProfile } from '../types';
+import { CaptureResult, DEFAULT_CAPTURE_SERVICE, captureRequestForDevice, captureScreenshot, checkCaptureService, defaultViewportHeight } from '../services/captureService';
+
+interface CaptureModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: CaptureSettings;
+  onSaveSettings: (settings: CaptureSettings) => void;
+  devices: DeviceProfile[];
+  onAddCustomDevice: (device: DeviceProfile) => void;
+  onCapture: (result: CaptureResult, deviceId: string) => void;
+}
+
+const CaptureModal: React.FC<CaptureModalProps> = ({ isOpen, onClose, settings, onSaveSettings, devices, onAddCustomDevice, onCapture }) => {
+  const [draft, setDraft] = useState<CaptureSettings>(settings);
+  const [cookies, setCookies] = useState('');
+  const [serviceOnline, setServiceOnline] = useState<boolean | null>(null);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft({ ...settings, deviceId: settings.deviceId ?? devices[0]?.id });
+    setStatus('idle');
+    setMessage('');
+    setShowAdvanced(!!settings.serviceUrl);
+  }, [isOpen]);
+
+  // 打开弹窗或修改服务地址后检测服务是否在运行
+  useEffect(() => {
+    if (!isOpen) return;
+    const controller = new AbortController();
+    setServiceOnline(null);
+    const timer = setTimeout(() => {
+      checkCaptureService(draft, controller.signal).then(online => {
+        if (!controller.signal.aborted) setServiceOnline(online);
+      });
+    }, 300);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isOpen, draft.serviceUrl]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  if (!isOpen) return null;
+
+  const device = devices.find(d => d.id === draft.deviceId);
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const handleCapture = async () => {
+    if (!device) return;
+    const next: CaptureSettings = {
+      ...draft,
+      serviceUrl: draft.serviceUrl?.trim() || undefined,
+      url: draft.url?.trim() || undefined,
+      waitFor: draft.waitFor?.trim() || undefined,
+    };
+    onSaveSettings(next);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('loading');
+    setMessage(`正在以 ${device.width}@${device.dpr}x 打开页面...`);
+    try {
+      const result = await captureScreenshot(next, captureRequestForDevice(device, next, { url: next.url || '', cookies: cookies.trim() }), controller.signal);
+      setStatus('success');
+      setMessage(`已截图：${result.title || result.url}`);
+      onCapture(result, device.id);
+      setTimeout(onClose, 800);
+    } catch (e: any) {
+      if (e?.name === 'AbortError') return;
+      setStatus('error');
+      setMessage(e?.message || '截图失败');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div className="flex items-center gap-2 text-gray-900 font-bold">
+            <div className="w-8 h-8 bg-indigo-600 rounded flex items-center justify-center text-white">
+               <Camera size={18} />
+            </div>
+            <span>从 URL 截图</span>
+          </div>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+            <div className={`flex items-center gap-2 p-3 text-xs rounded border ${
+              serviceOnline ? 'bg-green-50 text-green-700 border-green-100' : serviceOnline === false ? 'bg-amber-50 text-amber-700 border-amber-100' : 'bg-gray-50 text-gray-500 border-gray-100'
+            }`}>
+                <span className={`w-2 h-2 rounded-full shrink-0 ${serviceOnline ? 'bg-green-500' : serviceOnline === false ? 'bg-amber-500' : 'bg-gray-300'}`} />
+                {serviceOnline === null ? '正在检测本地截图服务...' : serviceOnline ? '本地截图服务已连接' : <span>未检测到截图服务，请在项目目录运行 <code className="font-mono font-bold">npm run capture</code></span>}
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">页面地址 (URL)</label>
+                <div className="relative">
+                  <input
+                      type="text"
+                      value={draft.url || ''}
+                      onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                      className="w-full border border-gray-300 rounded-lg pl-9 pr-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                      placeholder="http://localhost:5173/checkout"
+                  />
+                  <Link className="absolute left-3 top-2.5 text-gray-400" size={16} />
+                </div>
+            </div>
+
+            <div className="flex gap-3">
+                <div className="flex-1 min-w-0">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">设备 / 视口</label>
+                    <div className="flex text-sm">
+                      <DeviceSelect
+                          devices={devices}
+                          value={draft.deviceId}
+                          onChange={(deviceId) => setDraft({ ...draft, deviceId })}
+                          onAddCustomDevice={onAddCustomDevice}
+                      />
+                    </div>
+                </div>
+                <div className="w-24">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">视口高度</label>
+                    <input
+                        type="number"
+                        value={draft.height || ''}
+                        onChange={(e) => setDraft({ ...draft, height: Number(e.target.value) || undefined })}
+                        className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+                        placeholder={device ? String(defaultViewportHeight(device)) : ''}
+                    />
+                </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                    type="checkbox"
+                    checked={draft.fullPage ?? true}
+                    onChange={(e) => setDraft({ ...draft, fullPage: e.target.checked })}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                截取整页（否则只截首屏视口）
+            </label>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                    type="checkbox"
+                    checked={draft.dom ?? true}
+                    onChange={(e) => setDraft({ ...draft, dom: e.target.checked })}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                记录 DOM 与计算样式（点击标注查看元素的实际 CSS）
+            </label>
+
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">等待元素（可选）</label>
+                <input
+                    type="text"
+                    value={draft.waitFor || ''}
+                    onChange={(e) => setDraft({ ...draft, waitFor: e.target.value })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                    placeholder=".order-summary"
+                />
+                <p className="text-[10px] text-gray-400 mt-1">页面加载完成后等待该选择器对应的元素可见再截图，适用于异步渲染的内容。</p>
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cookie（可选）</label>
+                <textarea
+                    value={cookies}
+                    onChange={(e) => setCookies(e.target.value)}
+                    rows={2}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-xs font-mono focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none resize-none"
+                    placeholder="session=...; token=..."
+                />
+                <p className="text-[10px] text-gray-400 mt-1">用于需要登录的页面，可从开发者工具复制请求头中的 Cookie；不会保存。</p>
+            </div>
+
+            {showAdvanced ? (
+              <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">截图服务地址</label>
+                  <input
+                      type="text"
+                      value={draft.serviceUrl || ''}
+                      onChange={(e) => setDraft({ ...draft, serviceUrl: e.target.value })}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                      placeholder={DEFAULT_CAPTURE_SERVICE}
+                  />
+              </div>
+            ) : (
+              <button onClick={() => setShowAdvanced(true)} className="text-xs text-gray-400 hover:text-gray-600">自定义服务地址...</button>
+            )}
+
+            {status === 'error' && (
+                <div className="flex items-center gap-2 text-red-600 text-sm">
+                    <AlertCircle size={16} className="shrink-0" />
+                    <span>{message}</span>
+                </div>
+            )}
+            {(status === 'loading' || status === 'success') && (
+                <p className="text-sm text-gray-500">{message}</p>
+            )}
+        </div>
+
+        <div className="p-5 border-t border-gray-100 flex justify-end gap-3 bg-gray-50">
+          <Button variant="secondary" onClick={handleClose}>取消</Button>
+          <button
+             onClick={handleCapture}
+             disabled={status === 'loading' || !draft.url?.trim() || !device}
+             className={`flex items-center gap-2 px-4 py-2 rounded-lg text-white font-medium transition-all disabled:opacity-60 ${
+                 status === 'success' ? 'bg-green-600' : 'bg-indigo-600 hover:bg-indigo-700'
+             }`}
+          >
+             {status === 'loading' && <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full" />}
+             {status === 'success' && <Check size={16} />}
+             {status === 'loading' ? '正在截图...' : status === 'success' ? '截图成功' : '截图'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaptureModal;
@@ -1,10 +1,32 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { ComparisonMode, Annotation, ToolMode, DevImage } from '../types';
-import { ZoomIn, ZoomOut, RotateCcw, MoveHorizontal, MousePointer2, Paintbrush, Code2, Plus } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ComparisonMode, Annotation, ToolMode, DevImage, DesignImage, MeasureUnit, FigmaLayer, TypographyMetrics, DesignChange } from '../types';
+import { findPairedDesign } from '../services/projectModel';
+import { formatImagePx, formatLogical, measureLineLength, ResolvedCalibration, toLogical } from '../services/measurementService';
+import { toHex } from '../services/colorService';
+import { inspectAt, InspectResult, projectToDesign, readImageData } from '../services/inspectorService';
+import { analyzeTypography, typographyToLogical } from '../services/typographyService';
+import { describeElementStyles, elementsForAnnotation, pageToPct } from '../services/domSnapshotService';
+import { describeLayerSpec, designBoxToDev, devBoxToDesign, layerAt, measureSpec, SpecBox, SpecProjection, textLayerForBox } from '../services/figmaSpecService';
+import { ZoomIn, ZoomOut, RotateCcw, MoveHorizontal, MousePointer2, Paintbrush, Code2, Plus, Zap, Link2, X, Layers, History, Code, Copy } from 'lucide-react';
+
+type OverlayBlendMode = 'normal' | 'multiply' | 'screen' | 'exclusion';
+
+const BLEND_MODE_OPTIONS: { id: OverlayBlendMode; label: string }[] = [
+  { id: 'normal', label: '正常' },
+  { id: 'multiply', label: '正片叠底' },
+  { id: 'screen', label: '滤色' },
+  { id: 'exclusion', label: '排除' },
+];
+
+// 闪烁对比切换间隔 (ms)
+const BLINK_INTERVAL = 500;
 
 interface ComparisonViewProps {
   designImage: string;
+  designImages?: DesignImage[];
+  activeDesignImageId?: string | null;
+  onSwitchDesignImage?: (id: string) => void;
   devImages: DevImage[];
   activeDevImageId: string | null;
   onSwitchDevImage: (id: string) => void;
@@ -27,12 +49,28 @@ interface ComparisonViewProps {
   onResetZoom: () => void;
   showAnnotations?: boolean;
   overlayOffset?: { x: number; y: number };
+  overlayScale?: number;
   setOverlayOffset?: (pos: { x: number; y: number }) => void;
   isSpacePressed?: boolean;
+  diffHeatmap?: string | null;
+  calibration?: ResolvedCalibration; // 当前实现图的单位换算
+  designCalibration?: ResolvedCalibration;
+  measureUnit?: MeasureUnit;
+  onDeleteAnnotation?: (id: string) => void;
+  maskTemplateCount?: number; // 当前页面/设备的忽略区域模板中的区域数，0 表示没有模板
+  onSaveMaskTemplate?: () => void;
+  onApplyMaskTemplate?: () => void;
+  figmaLayers?: FigmaLayer[]; // 当前设计稿的 Figma 节点，坐标为 Frame 逻辑 px
+  designChanges?: DesignChange[]; // 最近一次同步的设计变化区域，坐标为设计稿百分比
 }
 
+const DEFAULT_CALIBRATION: ResolvedCalibration = { dpr: 1, rootFontSize: 16 };
+
 const ComparisonView: React.FC<ComparisonViewProps> = ({
   designImage,
+  designImages = [],
+  activeDesignImageId,
+  onSwitchDesignImage,
   devImages,
   activeDevImageId,
   onSwitchDevImage,
@@ -54,14 +92,46 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
   onResetZoom,
   showAnnotations = true,
   overlayOffset = { x: 0, y: 0 },
+  overlayScale = 1,
   setOverlayOffset,
-  isSpacePressed = false
+  isSpacePressed = false,
+  diffHeatmap,
+  calibration = DEFAULT_CALIBRATION,
+  designCalibration = DEFAULT_CALIBRATION,
+  measureUnit = 'px',
+  onDeleteAnnotation,
+  maskTemplateCount = 0,
+  onSaveMaskTemplate,
+  onApplyMaskTemplate,
+  figmaLayers = [],
+  designChanges = []
 }) => {
   const [isPanning, setIsPanning] = useState(false);
   const [isSliderDragging, setIsSliderDragging] = useState(false);
   const [sliderPosition, setSliderPosition] = useState(50);
   const [isAligning, setIsAligning] = useState(false);
   const [naturalSize, setNaturalSize] = useState<{w: number, h: number} | null>(null);
+  const [designNaturalSize, setDesignNaturalSize] = useState<{w: number, h: number} | null>(null);
+  // Inspector: 两侧同时显示光标所在元素的边界与间距
+  const [inspectState, setInspectState] = useState<{ dev: InspectResult | null; design: InspectResult | null } | null>(null);
+  // 成对测量：标尺同时记录设计稿与实现图两侧的值（取色总是成对采样）
+  const [isPairedMode, setIsPairedMode] = useState(false);
+  const [designInteraction, setDesignInteraction] = useState<{ start: { x: number; y: number }; current: { x: number; y: number } } | null>(null);
+  // Figma 图层：悬停查看节点规格
+  const [showFigmaLayers, setShowFigmaLayers] = useState(false);
+  const [hoveredLayer, setHoveredLayer] = useState<FigmaLayer | null>(null);
+  const [showDesignChanges, setShowDesignChanges] = useState(false);
+  // DOM 快照：选中标注时列出其下方元素的计算样式
+  const [isDomPanelHidden, setIsDomPanelHidden] = useState(false);
+
+  // Overlay / Onion-skin State
+  const [overlayOpacity, setOverlayOpacity] = useState(50);
+  const [overlayBlendMode, setOverlayBlendMode] = useState<OverlayBlendMode>('normal');
+  const [isBlinking, setIsBlinking] = useState(false);
+  const [blinkShowDesign, setBlinkShowDesign] = useState(true);
+  const [differenceSources, setDifferenceSources] = useState<{ design: HTMLImageElement; dev: HTMLImageElement } | null>(null);
+  const [differenceError, setDifferenceError] = useState(false);
+  const differenceCanvasRef = useRef<HTMLCanvasElement>(null);
   
   // Loupe State for Color Picker
   const [loupeState, setLoupeState] = useState<{ x: number, y: number, color: string, srcX: number, srcY: number } | null>(null);
@@ -88,8 +158,20 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
   const outerContainerRef = useRef<HTMLDivElement>(null);
   const interactiveLayerRef = useRef<HTMLDivElement>(null); // Ref for the annotation layer
   const samplingCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const designLayerRef = useRef<HTMLDivElement>(null);
+  const devImageDataRef = useRef<ImageData | null>(null);
+  const designImageDataRef = useRef<ImageData | null>(null);
 
   const activeDevImage = devImages.find(img => img.id === activeDevImageId) || devImages[0];
+  const isAlignableMode = mode === ComparisonMode.OVERLAY || mode === ComparisonMode.DIFFERENCE;
+  const domElements = useMemo(() => {
+    const ann = annotations.find(a => a.id === activeAnnotationId && a.devImageId === activeDevImage?.id);
+    return ann && ann.type !== 'mask' && activeDevImage?.dom ? elementsForAnnotation(activeDevImage.dom, ann) : [];
+  }, [annotations, activeAnnotationId, activeDevImage]);
+  // Frame 逻辑坐标与实现图百分比互相换算
+  const specProjection: SpecProjection | null = naturalSize && figmaLayers.length > 0
+    ? { devSize: naturalSize, offset: overlayOffset, scale: overlayScale, designDpr: designCalibration.dpr }
+    : null;
 
   // Load natural size for pixel measurement
   useEffect(() => {
@@ -105,11 +187,97 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
         if (ctx) {
           ctx.drawImage(img, 0, 0);
           samplingCanvasRef.current = canvas;
+          devImageDataRef.current = null;
         }
       };
     }
   }, [activeDevImage?.data]);
 
+  // Design sampling canvas (inspector)
+  useEffect(() => {
+    designImageDataRef.current = null;
+    setDesignNaturalSize(null);
+    if (!designImage) return;
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (cancelled) return;
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return;
+      ctx.drawImage(img, 0, 0);
+      designImageDataRef.current = readImageData(canvas);
+      setDesignNaturalSize({ w: img.naturalWidth, h: img.naturalHeight });
+    };
+    img.src = designImage;
+    return () => { cancelled = true; };
+  }, [designImage]);
+
+  useEffect(() => {
+    if (activeTool !== ToolMode.INSPECTOR) setInspectState(null);
+  }, [activeTool]);
+
+  useEffect(() => {
+    setHoveredLayer(null);
+    if (figmaLayers.length === 0) setShowFigmaLayers(false);
+  }, [figmaLayers]);
+
+  useEffect(() => {
+    if (designChanges.length === 0) setShowDesignChanges(false);
+  }, [designChanges]);
+
+  useEffect(() => {
+    setIsDomPanelHidden(false);
+  }, [activeAnnotationId]);
+
+  // Blink / flicker toggle for overlay
+  useEffect(() => {
+    if (!isBlinking || mode !== ComparisonMode.OVERLAY) return;
+    const timer = setInterval(() => setBlinkShowDesign(v => !v), BLINK_INTERVAL);
+    return () => {
+      clearInterval(timer);
+      setBlinkShowDesign(true);
+    };
+  }, [isBlinking, mode]);
+
+  // Load sources for difference compositing
+  useEffect(() => {
+    if (mode !== ComparisonMode.DIFFERENCE || !designImage || !activeDevImage?.data) return;
+    let cancelled = false;
+    const design = new Image();
+    const dev = new Image();
+    setDifferenceError(false);
+    Promise.all([
+      new Promise((resolve, reject) => { design.onload = resolve; design.onerror = reject; design.src = designImage; }),
+      new Promise((resolve, reject) => { dev.onload = resolve; dev.onerror = reject; dev.src = activeDevImage.data; }),
+    ]).then(() => {
+      if (!cancelled) setDifferenceSources({ design, dev });
+    }).catch(() => {
+      if (!cancelled) {
+        setDifferenceSources(null);
+        setDifferenceError(true);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [mode, designImage, activeDevImage?.data]);
+
+  // Draw difference: identical pixels become black
+  useEffect(() => {
+    const canvas = differenceCanvasRef.current;
+    if (mode !== ComparisonMode.DIFFERENCE || !canvas || !differenceSources) return;
+    const { design, dev } = differenceSources;
+    canvas.width = dev.naturalWidth;
+    canvas.height = dev.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.drawImage(dev, 0, 0);
+    ctx.globalCompositeOperation = 'difference';
+    ctx.drawImage(design, overlayOffset.x, overlayOffset.y, design.naturalWidth * overlayScale, design.naturalHeight * overlayScale);
+  }, [mode, differenceSources, overlayOffset.x, overlayOffset.y, overlayScale]);
+
   // Global Drag Handlers for Smooth Interaction
   useEffect(() => {
     if (dragState) {
@@ -186,6 +354,212 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
     };
   };
 
+  // --- Inspector ---
+  const getDevImageData = () => {
+    if (!devImageDataRef.current && samplingCanvasRef.current) devImageDataRef.current = readImageData(samplingCanvasRef.current);
+    return devImageDataRef.current;
+  };
+
+  // 悬停在实现图上：按叠加对齐参数换算到设计稿同一位置
+  const inspectFromDev = (coords: { x: number; y: number }) => {
+    const devData = getDevImageData();
+    if (!devData || !naturalSize) return;
+    const point = { x: coords.x / 100 * naturalSize.w, y: coords.y / 100 * naturalSize.h };
+    const designPoint = projectToDesign(point, overlayOffset, overlayScale);
+    setInspectState({
+      dev: inspectAt(devData, point.x, point.y),
+      design: designImageDataRef.current ? inspectAt(designImageDataRef.current, designPoint.x, designPoint.y) : null,
+    });
+  };
+
+  // 悬停在设计稿上（分屏模式）：反向换算到实现图
+  const handleDesignMouseMove = (e: React.MouseEvent) => {
+    if (designInteraction) {
+      setDesignInteraction({ ...designInteraction, current: getDesignRelativeCoords(e.clientX, e.clientY) });
+      return;
+    }
+    if (showFigmaLayers && designNaturalSize) {
+      const coords = getDesignRelativeCoords(e.clientX, e.clientY);
+      setHoveredLayer(layerAt(figmaLayers, {
+        x: coords.x / 100 * designNaturalSize.w / designCalibration.dpr,
+        y: coords.y / 100 * designNaturalSize.h / designCalibration.dpr,
+      }));
+    }
+    if (activeTool !== ToolMode.INSPECTOR || isSpacePressed) return;
+    const rect = designLayerRef.current?.getBoundingClientRect();
+    const designData = designImageDataRef.current;
+    const devData = getDevImageData();
+    if (!rect || !designData || !designNaturalSize) return;
+    const point = {
+      x: (e.clientX - rect.left) / rect.width * designNaturalSize.w,
+      y: (e.clientY - rect.top) / rect.height * designNaturalSize.h,
+    };
+    const devPoint = { x: point.x * overlayScale + overlayOffset.x, y: point.y * overlayScale + overlayOffset.y };
+    setInspectState({
+      dev: devData ? inspectAt(devData, devPoint.x, devPoint.y) : null,
+      design: inspectAt(designData, point.x, point.y),
+    });
+  };
+
+  // --- Paired Measurement ---
+  // 两侧坐标均为各自图片的百分比，经叠加对齐参数互相换算
+  const devPctToDesignPct = (p: { x: number; y: number }) => {
+    if (!naturalSize || !designNaturalSize) return null;
+    const d = projectToDesign({ x: p.x / 100 * naturalSize.w, y: p.y / 100 * naturalSize.h }, overlayOffset, overlayScale);
+    return { x: d.x / designNaturalSize.w * 100, y: d.y / designNaturalSize.h * 100 };
+  };
+
+  const designPctToDevPct = (p: { x: number; y: number }) => {
+    if (!naturalSize || !designNaturalSize) return null;
+    const x = p.x / 100 * designNaturalSize.w * overlayScale + overlayOffset.x;
+    const y = p.y / 100 * designNaturalSize.h * overlayScale + overlayOffset.y;
+    return { x: x / naturalSize.w * 100, y: y / naturalSize.h * 100 };
+  };
+
+  const sampleHex = (image: ImageData | null, size: { w: number; h: number } | null, p: { x: number; y: number }) => {
+    if (!image || !size) return null;
+    const x = Math.floor(p.x / 100 * size.w);
+    const y = Math.floor(p.y / 100 * size.h);
+    if (x < 0 || y < 0 || x >= image.width || y >= image.height) return null;
+    const i = (y * image.width + x) * 4;
+    return toHex(image.data[i], image.data[i + 1], image.data[i + 2]);
+  };
+
+  // 标尺：按实现图上的线段创建标注，成对模式下附带设计稿同一线段的长度作为期望值
+  const addMeasure = (line: { x: number; y: number; endX: number; endY: number }) => {
+    const data: Partial<Annotation> = {
+      ...line,
+      type: 'measure',
+      pixelLength: naturalSize ? Math.round(measureLineLength(line, naturalSize)) : undefined
+    };
+    const start = isPairedMode ? devPctToDesignPct({ x: line.x, y: line.y }) : null;
+    const end = isPairedMode ? devPctToDesignPct({ x: line.endX, y: line.endY }) : null;
+    if (start && end && designNaturalSize) {
+      const designPx = measureLineLength({ x: start.x, y: start.y, endX: end.x, endY: end.y }, designNaturalSize);
+      data.expected = Math.round(toLogical(designPx, designCalibration) * 10) / 10;
+      data.paired = true;
+    }
+    // 设计稿来自 Figma：两端吸附到节点边缘，期望值取节点间的精确距离
+    if (specProjection) {
+      const p1 = devBoxToDesign({ x: line.x, y: line.y, width: 0, height: 0 }, specProjection);
+      const p2 = devBoxToDesign({ x: line.endX, y: line.endY, width: 0, height: 0 }, specProjection);
+      const spec = measureSpec(figmaLayers, { x1: p1.x, y1: p1.y, x2: p2.x, y2: p2.y });
+      if (spec) {
+        data.expected = spec.value;
+        data.paired = true;
+        data.figmaSpec = `${spec.property ? `${spec.property}: ` : ''}${spec.value}px（${spec.label}）`;
+      }
+    }
+    onAddAnnotation(data);
+  };
+
+  const addColor = (point: { x: number; y: number }) => {
+    const hex = sampleHex(getDevImageData(), naturalSize, point);
+    if (!hex) return;
+    const data: Partial<Annotation> = { x: point.x, y: point.y, type: 'color', color: hex, text: hex };
+    // 取色始终同时采样设计稿对齐位置，用于计算色差
+    const designPoint = devPctToDesignPct(point);
+    const expectedColor = designPoint && sampleHex(designImageDataRef.current, designNaturalSize, designPoint);
+    if (expectedColor) {
+      data.expectedColor = expectedColor;
+      data.paired = true;
+    }
+    onAddAnnotation(data);
+  };
+
+  // 文字检测：实现图选区与设计稿对齐区域分别估算字号、行高与字重
+  const addTypography = (box: { x: number; y: number; width: number; height: number }) => {
+    const devData = getDevImageData();
+    if (!devData || !naturalSize) return;
+    const actual = analyzeTypography(devData, {
+      left: box.x / 100 * naturalSize.w,
+      top: box.y / 100 * naturalSize.h,
+      right: (box.x + box.width) / 100 * naturalSize.w,
+      bottom: (box.y + box.height) / 100 * naturalSize.h,
+    });
+    if (!actual) {
+      alert('选区内没有识别到文字，请框选单个文本块');
+      return;
+    }
+    const data: Partial<Annotation> = { ...box, type: 'typography', typography: typographyToLogical(actual, calibration.dpr) };
+    const start = devPctToDesignPct({ x: box.x, y: box.y });
+    const end = devPctToDesignPct({ x: box.x + box.width, y: box.y + box.height });
+    if (start && end && designImageDataRef.current && designNaturalSize) {
+      const expected = analyzeTypography(designImageDataRef.current, {
+        left: start.x / 100 * designNaturalSize.w,
+        top: start.y / 100 * designNaturalSize.h,
+        right: end.x / 100 * designNaturalSize.w,
+        bottom: end.y / 100 * designNaturalSize.h,
+      });
+      if (expected) {
+        data.expectedTypography = typographyToLogical(expected, designCalibration.dpr);
+        data.paired = true;
+      }
+    }
+    // Figma 文字节点的字号、行高、字重为精确值，覆盖像素估算
+    const textLayer = specProjection ? textLayerForBox(figmaLayers, devBoxToDesign(box, specProjection)) : null;
+    if (textLayer?.text) {
+      const base: TypographyMetrics = data.expectedTypography ?? {
+        ...data.typography!,
+        capHeight: Math.round(data.typography!.capHeight * textLayer.text.fontSize / data.typography!.fontSize * 10) / 10,
+        xHeight: undefined,
+      };
+      data.expectedTypography = {
+        ...base,
+        fontSize: textLayer.text.fontSize,
+        lineHeight: textLayer.text.lineHeight ?? base.lineHeight,
+        weight: textLayer.text.fontWeight,
+      };
+      data.paired = true;
+      data.figmaSpec = `「${textLayer.name}」${describeLayerSpec(textLayer).join(' ')}`;
+    }
+    onAddAnnotation(data);
+  };
+
+  // 分屏模式下在设计稿上绘制：换算到实现图后按同样方式创建
+  const getDesignRelativeCoords = (clientX: number, clientY: number) => {
+    const rect = designLayerRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return {
+      x: Math.max(0, Math.min(100, ((clientX - rect.left) / rect.width) * 100)),
+      y: Math.max(0, Math.min(100, ((clientY - rect.top) / rect.height) * 100))
+    };
+  };
+
+  const isDesignToolActive = activeTool === ToolMode.COLOR_PICKER || activeTool === ToolMode.TYPOGRAPHY || (isPairedMode && activeTool === ToolMode.RULER);
+
+  const handleDesignMouseDown = (e: React.MouseEvent) => {
+    if (!isDesignToolActive || isSpacePressed) return;
+    e.stopPropagation();
+    const coords = getDesignRelativeCoords(e.clientX, e.clientY);
+    if (activeTool === ToolMode.COLOR_PICKER) {
+      const devPoint = designPctToDevPct(coords);
+      if (devPoint && devPoint.x >= 0 && devPoint.x <= 100 && devPoint.y >= 0 && devPoint.y <= 100) addColor(devPoint);
+      return;
+    }
+    setDesignInteraction({ start: coords, current: coords });
+  };
+
+  const handleDesignMouseUp = () => {
+    if (!designInteraction) return;
+    const { start, current } = designInteraction;
+    setDesignInteraction(null);
+    if (Math.hypot(current.x - start.x, current.y - start.y) <= 0.1) return;
+    const devStart = designPctToDevPct(start);
+    const devEnd = designPctToDevPct(current);
+    if (!devStart || !devEnd) return;
+    if (activeTool === ToolMode.TYPOGRAPHY) {
+      addTypography({
+        x: Math.min(devStart.x, devEnd.x),
+        y: Math.min(devStart.y, devEnd.y),
+        width: Math.abs(devEnd.x - devStart.x),
+        height: Math.abs(devEnd.y - devStart.y),
+      });
+      return;
+    }
+    addMeasure({ x: devStart.x, y: devStart.y, endX: devEnd.x, endY: devEnd.y });
+  };
+
   // --- Handlers for Main Container (Panning) ---
   const handleContainerMouseDown = (e: React.MouseEvent) => {
     // Only pan if Space is pressed or Hand tool is active or Middle Click
@@ -201,7 +575,7 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
       return;
     }
     // Handle Overlay Alignment (Drag Design Image)
-    if (isAligning && setOverlayOffset && mode === ComparisonMode.OVERLAY) {
+    if (isAligning && setOverlayOffset && isAlignableMode) {
         setOverlayOffset({ x: overlayOffset.x + e.movementX / scale, y: overlayOffset.y + e.movementY / scale });
         return;
     }
@@ -244,7 +618,7 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
   };
 
   const handleResizeMouseDown = (e: React.MouseEvent, ann: Annotation) => {
-      if ((ann.type === 'manual' || ann.type === 'ai') && activeTool === ToolMode.POINTER) {
+      if ((ann.type === 'manual' || ann.type === 'ai' || ann.type === 'diff' || ann.type === 'mask') && activeTool === ToolMode.POINTER) {
           e.stopPropagation();
           
           if(onInteractionStart) onInteractionStart(); // Save history
@@ -274,19 +648,12 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
     if (activeTool === ToolMode.COLOR_PICKER && samplingCanvasRef.current) {
       // This is instant, no drag, but adds annotation. 
       // The history should be handled by onAddAnnotation caller (App.tsx), not here.
-      const ctx = samplingCanvasRef.current.getContext('2d');
-      if (ctx) {
-        const px = (coords.x / 100) * samplingCanvasRef.current.width;
-        const py = (coords.y / 100) * samplingCanvasRef.current.height;
-        const pixel = ctx.getImageData(px, py, 1, 1).data;
-        const hex = "#" + ("000000" + ((pixel[0] << 16) | (pixel[1] << 8) | pixel[2]).toString(16)).slice(-6).toUpperCase();
-        onAddAnnotation({ x: coords.x, y: coords.y, type: 'color', color: hex, text: hex });
-      }
+      addColor(coords);
       return;
     }
 
-    // Aligner (Overlay Mode)
-    if (activeTool === ToolMode.ALIGNER && mode === ComparisonMode.OVERLAY) {
+    // Aligner (Overlay / Difference Mode)
+    if (activeTool === ToolMode.ALIGNER && isAlignableMode) {
         setIsAligning(true);
         return;
     }
@@ -315,7 +682,7 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
             if (ctx) {
                 try {
                     const p = ctx.getImageData(srcX, srcY, 1, 1).data;
-                    const hex = "#" + ("000000" + ((p[0] << 16) | (p[1] << 8) | p[2]).toString(16)).slice(-6).toUpperCase();
+                    const hex = toHex(p[0], p[1], p[2]);
                     setLoupeState({
                         x: e.clientX,
                         y: e.clientY,
@@ -334,6 +701,17 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
          if (loupeState) setLoupeState(null);
     }
 
+    if (showFigmaLayers && specProjection) {
+        const coords = getImageRelativeCoords(e.clientX, e.clientY);
+        const point = devBoxToDesign({ ...coords, width: 0, height: 0 }, specProjection);
+        setHoveredLayer(layerAt(figmaLayers, point));
+    }
+
+    if (activeTool === ToolMode.INSPECTOR) {
+        inspectFromDev(getImageRelativeCoords(e.clientX, e.clientY));
+        return;
+    }
+
     // 2. Handle Tool Preview
     if (!interactionStart) return;
     const coords = getImageRelativeCoords(e.clientX, e.clientY);
@@ -350,12 +728,25 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
         if (activeTool === ToolMode.RULER) {
           // Add Measurement
           if (dist > 0.1) {
-             onAddAnnotation({ 
-                 x: interactionStart.x, 
-                 y: interactionStart.y, 
-                 endX: interactionCurrent.x, 
-                 endY: interactionCurrent.y, 
-                 type: 'measure' 
+             addMeasure({ x: interactionStart.x, y: interactionStart.y, endX: interactionCurrent.x, endY: interactionCurrent.y });
+          }
+        } else if (activeTool === ToolMode.MASK) {
+          if (dist > 0.5) {
+             onAddAnnotation({
+                x: Math.min(interactionStart.x, interactionCurrent.x),
+                y: Math.min(interactionStart.y, interactionCurrent.y),
+                width: Math.abs(dx),
+                height: Math.abs(dy),
+                type: 'mask'
+             });
+          }
+        } else if (activeTool === ToolMode.TYPOGRAPHY) {
+          if (dist > 0.5) {
+             addTypography({
+                x: Math.min(interactionStart.x, interactionCurrent.x),
+                y: Math.min(interactionStart.y, interactionCurrent.y),
+                width: Math.abs(dx),
+                height: Math.abs(dy)
              });
           }
         } else if (activeTool === ToolMode.POINTER) {
@@ -387,9 +778,11 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
   let cursorStyle = 'cursor-default';
   if (isSpacePressed || activeTool === ToolMode.HAND) cursorStyle = isPanning ? 'cursor-grabbing' : 'cursor-grab';
   else if (activeTool === ToolMode.ALIGNER) cursorStyle = 'cursor-move';
-  else if (activeTool === ToolMode.RULER || activeTool === ToolMode.POINTER) cursorStyle = 'cursor-crosshair';
+  else if (activeTool === ToolMode.RULER || activeTool === ToolMode.POINTER || activeTool === ToolMode.INSPECTOR || activeTool === ToolMode.TYPOGRAPHY || activeTool === ToolMode.MASK) cursorStyle = 'cursor-crosshair';
   else if (activeTool === ToolMode.COLOR_PICKER) cursorStyle = 'cursor-crosshair'; // CHANGED: Visible cursor for precision
 
+  const formatPx = (imagePx: number) => formatImagePx(imagePx, measureUnit, calibration);
+
   const renderAnnotations = () => {
     if (!showAnnotations) return null;
     return (
@@ -406,18 +799,64 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
              ? (isActive || isHovered ? 'z-50' : 'z-40') 
              : (isActive || isHovered ? 'z-20' : 'z-10');
 
+          // 忽略区域：斜线填充，忽略工具下可直接删除
+          if (ann.type === 'mask') {
+              return (
+                <div
+                    key={ann.id}
+                    className={`absolute border-2 border-dashed border-slate-500 group ${isPointerMode ? 'cursor-move pointer-events-auto' : activeTool === ToolMode.MASK ? 'pointer-events-auto' : 'pointer-events-none'} ${zIndexClass}`}
+                    style={{
+                        left: `${ann.x}%`, top: `${ann.y}%`, width: `${ann.width}%`, height: `${ann.height}%`,
+                        backgroundImage: 'repeating-linear-gradient(45deg, rgba(100,116,139,0.35) 0 6px, rgba(100,116,139,0.1) 6px 12px)'
+                    }}
+                    onMouseDown={(e) => isPointerMode && handleAnnotationMouseDown(e, ann)}
+                >
+                    <div className="absolute left-0 top-0 bg-slate-600 text-white text-[16px] font-bold px-1.5 py-0.5 select-none pointer-events-none whitespace-nowrap">{ann.text}</div>
+                    {activeTool === ToolMode.MASK && onDeleteAnnotation && (
+                        <button
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={() => onDeleteAnnotation(ann.id)}
+                            className="absolute -top-3 -right-3 w-7 h-7 rounded-full bg-white border-2 border-slate-500 text-slate-600 hover:bg-red-500 hover:border-red-500 hover:text-white flex items-center justify-center shadow"
+                            title="删除忽略区域"
+                        >
+                            <X size={14} />
+                        </button>
+                    )}
+                    {isActive && isPointerMode && (
+                        <div
+                            className="absolute bottom-0 right-0 w-4 h-4 bg-white border-2 border-indigo-600 cursor-nwse-resize translate-x-1/2 translate-y-1/2 rounded-full shadow-sm pointer-events-auto"
+                            onMouseDown={(e) => handleResizeMouseDown(e, ann)}
+                        />
+                    )}
+                </div>
+              );
+          }
+
           // Boxes
-          if (ann.type === 'ai' || (ann.type === 'manual' && ann.width && ann.height)) {
+          if (ann.type === 'ai' || ann.type === 'diff' || ann.type === 'typography' || ann.type === 'text' || (ann.type === 'manual' && ann.width && ann.height)) {
               return (
                 <div 
                     key={ann.id}
                     className={`absolute border-2 transition-all group ${
                       isActive || isHovered ? 'border-indigo-600 bg-indigo-600/20' : 
-                      ann.type === 'ai' ? 'border-red-500 bg-red-500/10' : 'border-blue-500 bg-blue-500/10'
+                      ann.type === 'ai' ? 'border-red-500 bg-red-500/10' : 
+                      ann.type === 'diff' ? 'border-orange-500 bg-orange-500/10' :
+                      ann.type === 'typography' ? 'border-violet-500 bg-violet-500/10' :
+                      ann.type === 'text' ? 'border-teal-500 bg-teal-500/10' : 'border-blue-500 bg-blue-500/10'
                     } ${isPointerMode ? 'cursor-move pointer-events-auto' : 'pointer-events-none'} ${zIndexClass}`}
                     style={{ left: `${ann.x}%`, top: `${ann.y}%`, width: `${ann.width}%`, height: `${ann.height}%` }}
                     onMouseDown={(e) => isPointerMode && handleAnnotationMouseDown(e, ann)}
                 >
+                    {ann.type === 'typography' && ann.typography ? (
+                        <div className={`absolute left-0 -top-2 -translate-y-full text-white text-[20px] font-bold font-mono px-2 py-0.5 rounded shadow-sm whitespace-nowrap select-none pointer-events-none ${isActive || isHovered ? 'bg-indigo-600' : 'bg-violet-500'}`}>
+                            {formatLogical(ann.typography.fontSize, measureUnit, calibration.rootFontSize)}
+                            {ann.expectedTypography && ` / ${formatLogical(ann.expectedTypography.fontSize, measureUnit, calibration.rootFontSize)}`}
+                        </div>
+                    ) : (isActive || isHovered) && naturalSize && (
+                        <div className="absolute left-0 -top-2 -translate-y-full bg-indigo-600 text-white text-[20px] font-bold font-mono px-2 py-0.5 rounded shadow-sm whitespace-nowrap select-none pointer-events-none">
+                            {formatPx((ann.width || 0) / 100 * naturalSize.w)} × {formatPx((ann.height || 0) / 100 * naturalSize.h)}
+                        </div>
+                    )}
                     {isActive && isPointerMode && (
                         <div 
                             className="absolute bottom-0 right-0 w-4 h-4 bg-white border-2 border-indigo-600 cursor-nwse-resize translate-x-1/2 translate-y-1/2 rounded-full shadow-sm pointer-events-auto"
@@ -446,11 +885,7 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
                 lenPct = Math.sqrt(dx * dx + dyScaled * dyScaled);
                 angle = Math.atan2(dyScaled, dx) * 180 / Math.PI;
 
-                const pxDist = Math.sqrt(
-                    Math.pow((ann.endX - ann.x) / 100 * naturalSize.w, 2) + 
-                    Math.pow((ann.endY! - ann.y) / 100 * naturalSize.h, 2)
-                );
-                label = `${Math.round(pxDist)}px`;
+                label = formatPx(measureLineLength(ann, naturalSize));
             }
             
             return (
@@ -478,6 +913,9 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
               >
                 <div className="w-5 h-5 rounded-full border border-gray-200" style={{ backgroundColor: ann.color }} />
                 <span className="text-[20px] font-bold font-mono text-slate-800 select-none">{ann.color}</span>
+                {ann.deltaE !== undefined && (
+                  <span className="text-[16px] font-bold font-mono text-slate-400 select-none">ΔE {ann.deltaE.toFixed(1)}</span>
+                )}
               </div>
             );
           }
@@ -511,16 +949,19 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
                </svg>
                <div className="absolute bg-indigo-600 text-white text-[20px] font-bold px-2 py-0.5 rounded shadow-sm font-mono whitespace-nowrap" style={{ left: `${interactionCurrent.x}%`, top: `${interactionCurrent.y}%`, transform: 'translate(10px, 10px)'}}>
                    {naturalSize 
-                     ? `${Math.round(Math.sqrt(Math.pow((interactionCurrent.x - interactionStart.x)/100 * naturalSize.w, 2) + Math.pow((interactionCurrent.y - interactionStart.y)/100 * naturalSize.h, 2)))}px`
+                     ? formatPx(measureLineLength({ x: interactionStart.x, y: interactionStart.y, endX: interactionCurrent.x, endY: interactionCurrent.y }, naturalSize))
                      : `${Math.round(Math.sqrt(Math.pow(interactionCurrent.x - interactionStart.x, 2) + Math.pow(interactionCurrent.y - interactionStart.y, 2)) * 10) / 10}%`
                    }
                </div>
            </div>
         )}
         
-        {interactionStart && interactionCurrent && activeTool === ToolMode.POINTER && (Math.abs(interactionCurrent.x - interactionStart.x) > 0.5) && (
+        {interactionStart && interactionCurrent && (activeTool === ToolMode.POINTER || activeTool === ToolMode.TYPOGRAPHY || activeTool === ToolMode.MASK) && (Math.abs(interactionCurrent.x - interactionStart.x) > 0.5) && (
             <div 
-                className="absolute border-2 border-blue-500 bg-blue-500/10 pointer-events-none z-50"
+                className={`absolute border-2 pointer-events-none z-50 ${
+                    activeTool === ToolMode.TYPOGRAPHY ? 'border-violet-500 bg-violet-500/10' :
+                    activeTool === ToolMode.MASK ? 'border-dashed border-slate-500 bg-slate-500/20' : 'border-blue-500 bg-blue-500/10'
+                }`}
                 style={{
                     left: `${Math.min(interactionStart.x, interactionCurrent.x)}%`,
                     top: `${Math.min(interactionStart.y, interactionCurrent.y)}%`,
@@ -533,10 +974,210 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
     );
   };
 
+  // Figma 式红线：元素边框、尺寸以及到四周相邻元素的间距
+  const renderRedlines = (result: InspectResult, size: { w: number; h: number }, unitCalibration: ResolvedCalibration, tone: 'dev' | 'design') => {
+    const { box, gaps, point } = result;
+    const pctX = (v: number) => `${v / size.w * 100}%`;
+    const pctY = (v: number) => `${v / size.h * 100}%`;
+    const format = (v: number) => formatImagePx(v, measureUnit, unitCalibration);
+    const color = tone === 'dev' ? 'bg-rose-500' : 'bg-indigo-600';
+    const label = `absolute ${color} text-white text-[20px] font-bold font-mono px-2 py-0.5 rounded shadow-sm whitespace-nowrap select-none`;
+    const segments = [
+      { key: 'left', value: gaps.left, style: { left: pctX(box.left - gaps.left), top: pctY(point.y), width: pctX(gaps.left), height: '2px' } },
+      { key: 'right', value: gaps.right, style: { left: pctX(box.right), top: pctY(point.y), width: pctX(gaps.right), height: '2px' } },
+      { key: 'top', value: gaps.top, style: { left: pctX(point.x), top: pctY(box.top - gaps.top), width: '2px', height: pctY(gaps.top) } },
+      { key: 'bottom', value: gaps.bottom, style: { left: pctX(point.x), top: pctY(box.bottom), width: '2px', height: pctY(gaps.bottom) } },
+    ].filter(seg => seg.value > 0);
+
+    return (
+      <div className="absolute inset-0 pointer-events-none z-40">
+        <div
+          className={`absolute border-2 ${tone === 'dev' ? 'border-rose-500 bg-rose-500/10' : 'border-indigo-600 bg-indigo-600/10'}`}
+          style={{ left: pctX(box.left), top: pctY(box.top), width: pctX(box.right - box.left), height: pctY(box.bottom - box.top) }}
+        >
+          <div className={`${label} left-1/2 -translate-x-1/2 -translate-y-full -top-2`}>
+            {format(box.right - box.left)} × {format(box.bottom - box.top)}
+          </div>
+        </div>
+        {segments.map(seg => (
+          <div key={seg.key} className={`absolute ${color}`} style={seg.style}>
+            <div className={`${label} left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2`}>{format(seg.value)}</div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // Figma 节点轮廓；悬停节点高亮并显示规格，toPct 把 Frame 逻辑坐标换算为所在图片的百分比
+  const renderFigmaLayers = (toPct: (box: SpecBox) => SpecBox) => {
+    const hovered = hoveredLayer ? toPct(hoveredLayer) : null;
+    const parent = hoveredLayer?.parentId ? figmaLayers.find(l => l.id === hoveredLayer.parentId) : null;
+    const parentBox = parent?.parentId ? toPct(parent) : null;
+    return (
+      <div className="absolute inset-0 pointer-events-none z-30">
+        <svg className="w-full h-full overflow-visible absolute inset-0">
+          {figmaLayers.filter(l => l.parentId).map(l => {
+            const box = toPct(l);
+            return <rect key={l.id} x={`${box.x}%`} y={`${box.y}%`} width={`${box.width}%`} height={`${box.height}%`} fill="none" stroke="#a855f7" strokeOpacity={0.35} strokeWidth={1} />;
+          })}
+        </svg>
+        {parentBox && (
+          <div className="absolute border-2 border-dashed border-fuchsia-400" style={{ left: `${parentBox.x}%`, top: `${parentBox.y}%`, width: `${parentBox.width}%`, height: `${parentBox.height}%` }} />
+        )}
+        {hovered && hoveredLayer && (
+          <div className="absolute border-2 border-fuchsia-600 bg-fuchsia-500/10" style={{ left: `${hovered.x}%`, top: `${hovered.y}%`, width: `${hovered.width}%`, height: `${hovered.height}%` }}>
+            <div className="absolute left-0 -top-2 -translate-y-full bg-fuchsia-600 text-white text-[18px] font-mono px-2 py-1 rounded shadow-lg whitespace-nowrap select-none">
+              <div className="font-bold font-sans">{hoveredLayer.name}</div>
+              {describeLayerSpec(hoveredLayer).map(line => <div key={line}>{line}</div>)}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // 最近一次同步的设计变化区域；toPct 把设计稿百分比换算为所在图片的百分比
+  const renderDesignChanges = (toPct: (box: SpecBox) => SpecBox | null) => (
+    <div className="absolute inset-0 pointer-events-none z-30">
+      {designChanges.map((change, i) => {
+        const box = toPct(change);
+        if (!box) return null;
+        return (
+          <div key={i} className="absolute border-2 border-dashed border-amber-500 bg-amber-400/10" style={{ left: `${box.x}%`, top: `${box.y}%`, width: `${box.width}%`, height: `${box.height}%` }}>
+            <span className="absolute left-0 top-0 -translate-y-full bg-amber-500 text-white text-[16px] font-bold px-1.5 py-0.5 rounded-t whitespace-nowrap select-none">{change.label}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  // 选中标注下的页面元素：第一个为命中的元素，其余为父元素（虚线）
+  const renderDomElements = () => {
+    const snapshot = activeDevImage?.dom;
+    if (!snapshot) return null;
+    return (
+      <div className="absolute inset-0 pointer-events-none z-30">
+        {domElements.map((el, i) => {
+          const box = pageToPct(snapshot, el);
+          return (
+            <div
+              key={`${el.selector}-${i}`}
+              className={`absolute border-2 ${i === 0 ? 'border-cyan-500 bg-cyan-400/10' : 'border-dashed border-cyan-400'}`}
+              style={{ left: `${box.x}%`, top: `${box.y}%`, width: `${box.width}%`, height: `${box.height}%` }}
+            >
+              {i === 0 && (
+                <span className="absolute left-0 top-full mt-1 bg-cyan-600 text-white text-[16px] font-mono px-1.5 py-0.5 rounded whitespace-nowrap select-none">{el.selector}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const designBoxToDevPct = (box: SpecBox) => {
+    const start = designPctToDevPct(box);
+    const end = designPctToDevPct({ x: box.x + box.width, y: box.y + box.height });
+    return start && end ? { x: start.x, y: start.y, width: end.x - start.x, height: end.y - start.y } : null;
+  };
+
+  // 成对标注在设计稿一侧的投影，以及在设计稿上绘制标尺时的预览
+  const renderPairedOnDesign = () => {
+    const lines: { key: string; x1: number; y1: number; x2: number; y2: number; label?: string; isActive?: boolean }[] = [];
+    const pills: { key: string; x: number; y: number; color: string; isActive: boolean }[] = [];
+    const boxes: { key: string; x: number; y: number; width: number; height: number; label?: string; isActive: boolean }[] = [];
+    if (showAnnotations) {
+      annotations.filter(ann => ann.paired && ann.devImageId === activeDevImageId).forEach(ann => {
+        const isActive = activeAnnotationId === ann.id || hoveredAnnotationId === ann.id;
+        const start = devPctToDesignPct({ x: ann.x, y: ann.y });
+        if (!start) return;
+        if (ann.type === 'measure' && ann.endX !== undefined && ann.endY !== undefined) {
+          const end = devPctToDesignPct({ x: ann.endX, y: ann.endY });
+          if (end) lines.push({ key: ann.id, x1: start.x, y1: start.y, x2: end.x, y2: end.y, isActive });
+        } else if (ann.type === 'color' && ann.expectedColor) {
+          pills.push({ key: ann.id, x: start.x, y: start.y, color: ann.expectedColor, isActive });
+        } else if (ann.type === 'typography' && ann.expectedTypography && ann.width !== undefined && ann.height !== undefined) {
+          const end = devPctToDesignPct({ x: ann.x + ann.width, y: ann.y + ann.height });
+          if (end) boxes.push({
+            key: ann.id, x: start.x, y: start.y, width: end.x - start.x, height: end.y - start.y, isActive,
+            label: formatLogical(ann.expectedTypography.fontSize, measureUnit, designCalibration.rootFontSize),
+          });
+        }
+      });
+    }
+    if (designInteraction && activeTool === ToolMode.TYPOGRAPHY) {
+      const { start, current } = designInteraction;
+      boxes.push({
+        key: 'preview', x: Math.min(start.x, current.x), y: Math.min(start.y, current.y),
+        width: Math.abs(current.x - start.x), height: Math.abs(current.y - start.y), isActive: true,
+      });
+    } else if (designInteraction && designNaturalSize) {
+      const { start, current } = designInteraction;
+      const designPx = measureLineLength({ x: start.x, y: start.y, endX: current.x, endY: current.y }, designNaturalSize);
+      lines.push({ key: 'preview', x1: start.x, y1: start.y, x2: current.x, y2: current.y, label: formatImagePx(designPx, measureUnit, designCalibration), isActive: true });
+    }
+    if (lines.length === 0 && pills.length === 0 && boxes.length === 0) return null;
+
+    return (
+      <div className="absolute inset-0 pointer-events-none z-30">
+        <svg className="w-full h-full overflow-visible absolute inset-0">
+          {lines.map(l => (
+            <line key={l.key} x1={`${l.x1}%`} y1={`${l.y1}%`} x2={`${l.x2}%`} y2={`${l.y2}%`} stroke={l.isActive ? '#4f46e5' : '#ef4444'} strokeWidth="2" strokeDasharray="4" />
+          ))}
+        </svg>
+        {lines.filter(l => l.label).map(l => (
+          <div key={`${l.key}-label`} className="absolute bg-indigo-600 text-white text-[20px] font-bold px-2 py-0.5 rounded shadow-sm font-mono whitespace-nowrap" style={{ left: `${l.x2}%`, top: `${l.y2}%`, transform: 'translate(10px, 10px)' }}>
+            {l.label}
+          </div>
+        ))}
+        {boxes.map(box => (
+          <div
+            key={box.key}
+            className={`absolute border-2 border-dashed ${box.isActive ? 'border-indigo-600 bg-indigo-600/10' : 'border-violet-500 bg-violet-500/10'}`}
+            style={{ left: `${box.x}%`, top: `${box.y}%`, width: `${box.width}%`, height: `${box.height}%` }}
+          >
+            {box.label && (
+              <div className="absolute left-0 -top-2 -translate-y-full bg-violet-500 text-white text-[20px] font-bold font-mono px-2 py-0.5 rounded shadow-sm whitespace-nowrap select-none">{box.label}</div>
+            )}
+          </div>
+        ))}
+        {pills.map(pill => (
+          <div
+            key={pill.key}
+            className={`absolute flex items-center gap-2 px-2 py-1 bg-white border-2 border-dashed rounded-lg shadow-xl ${pill.isActive ? 'border-indigo-600' : 'border-slate-200'}`}
+            style={{ left: `${pill.x}%`, top: `${pill.y}%`, transform: 'translate(-50%, -50%)' }}
+          >
+            <div className="w-5 h-5 rounded-full border border-gray-200" style={{ backgroundColor: pill.color }} />
+            <span className="text-[20px] font-bold font-mono text-slate-800 select-none">{pill.color}</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   // Common wrapper for the interactive Dev Image
+  const renderDevThumbnail = (img: DevImage) => (
+    <button
+        key={img.id}
+        onClick={() => onSwitchDevImage(img.id)}
+        className={`relative w-10 h-10 rounded-lg overflow-hidden border-2 transition-all ${
+            img.id === activeDevImageId 
+                ? 'border-indigo-600 ring-2 ring-indigo-200 ring-offset-1 scale-105' 
+                : 'border-gray-100 opacity-60 hover:opacity-100 grayscale hover:grayscale-0'
+        }`}
+        title={img.name}
+    >
+        <img src={img.data} className="w-full h-full object-cover" />
+    </button>
+  );
+
   const InteractiveDevImage = () => (
      <div className="relative">
         <img src={activeDevImage?.data} className="max-w-none block pointer-events-none select-none" draggable={false} />
+        {/* Pixel Diff Heatmap */}
+        {diffHeatmap && (
+            <img src={diffHeatmap} className="absolute inset-0 w-full h-full pointer-events-none select-none z-20" style={{ imageRendering: 'pixelated' }} draggable={false} />
+        )}
         {/* Interactive Layer Overlay */}
         <div 
             ref={interactiveLayerRef}
@@ -544,9 +1185,13 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
             onMouseDown={handleToolMouseDown}
             onMouseMove={handleToolMouseMove}
             onMouseUp={handleToolMouseUp}
-            onMouseLeave={() => setLoupeState(null)}
+            onMouseLeave={() => { setLoupeState(null); setInspectState(null); setHoveredLayer(null); }}
         />
+        {showFigmaLayers && specProjection && renderFigmaLayers(box => designBoxToDev(box, specProjection))}
+        {showDesignChanges && renderDesignChanges(designBoxToDevPct)}
         {renderAnnotations()}
+        {!isDomPanelHidden && domElements.length > 0 && renderDomElements()}
+        {inspectState?.dev && naturalSize && renderRedlines(inspectState.dev, naturalSize, calibration, 'dev')}
      </div>
   );
 
@@ -569,7 +1214,25 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
                     <div className="flex gap-10 items-start">
                         {/* Design Image (Static Reference) */}
                         <div className="relative border-8 border-indigo-500 shadow-2xl bg-white shrink-0 rounded-xl overflow-hidden group">
-                            <img src={designImage} className="max-w-none block pointer-events-none select-none" draggable={false} />
+                            <div
+                                ref={designLayerRef}
+                                className="relative"
+                                onMouseDown={handleDesignMouseDown}
+                                onMouseMove={handleDesignMouseMove}
+                                onMouseUp={handleDesignMouseUp}
+                                onMouseLeave={() => { setInspectState(null); setDesignInteraction(null); setHoveredLayer(null); }}
+                            >
+                                <img src={designImage} className="max-w-none block pointer-events-none select-none" draggable={false} />
+                                {showFigmaLayers && designNaturalSize && renderFigmaLayers(box => ({
+                                    x: box.x * designCalibration.dpr / designNaturalSize.w * 100,
+                                    y: box.y * designCalibration.dpr / designNaturalSize.h * 100,
+                                    width: box.width * designCalibration.dpr / designNaturalSize.w * 100,
+                                    height: box.height * designCalibration.dpr / designNaturalSize.h * 100,
+                                }))}
+                                {showDesignChanges && renderDesignChanges(box => box)}
+                                {renderPairedOnDesign()}
+                                {inspectState?.design && designNaturalSize && renderRedlines(inspectState.design, designNaturalSize, designCalibration, 'design')}
+                            </div>
                             <div className="absolute top-4 left-4 z-50">
                                 <div className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-full shadow-lg font-bold text-sm tracking-wide backdrop-blur-md bg-opacity-90 ring-4 ring-indigo-500/30">
                                     <Paintbrush size={16} />
@@ -616,17 +1279,171 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
                              <div className="absolute inset-0 pointer-events-none overflow-hidden z-20">
                                  <img 
                                     src={designImage} 
-                                    className="max-w-none block opacity-50 transition-transform duration-75" 
-                                    style={{ transform: `translate(${overlayOffset.x}px, ${overlayOffset.y}px)` }}
+                                    className="max-w-none block transition-transform duration-75" 
+                                    style={{ 
+                                        transform: `translate(${overlayOffset.x}px, ${overlayOffset.y}px) scale(${overlayScale})`,
+                                        transformOrigin: '0 0',
+                                        opacity: isBlinking ? (blinkShowDesign ? 1 : 0) : overlayOpacity / 100,
+                                        mixBlendMode: isBlinking ? 'normal' : overlayBlendMode
+                                    }}
                                     draggable={false}
                                  />
                              </div>
                         )}
+
+                        {mode === ComparisonMode.DIFFERENCE && (
+                             <div className="absolute inset-0 pointer-events-none overflow-hidden z-20 bg-black">
+                                 <canvas ref={differenceCanvasRef} className="w-full h-full block" />
+                                 {differenceError && (
+                                     <div className="absolute inset-0 flex items-center justify-center text-sm font-medium text-red-300">
+                                         图片加载失败，无法生成差值图
+                                     </div>
+                                 )}
+                             </div>
+                        )}
+
+                        {/* 设计稿一侧的红线按对齐参数叠加到实现图上 */}
+                        {inspectState?.design && designNaturalSize && (
+                             <div className="absolute inset-0 pointer-events-none overflow-hidden z-40">
+                                 <div
+                                    className="absolute top-0 left-0"
+                                    style={{
+                                        width: designNaturalSize.w,
+                                        height: designNaturalSize.h,
+                                        transform: `translate(${overlayOffset.x}px, ${overlayOffset.y}px) scale(${overlayScale})`,
+                                        transformOrigin: '0 0'
+                                    }}
+                                 >
+                                    {renderRedlines(inspectState.design, designNaturalSize, designCalibration, 'design')}
+                                 </div>
+                             </div>
+                        )}
                     </div>
                 )}
             </div>
         </div>
         
+        {/* Overlay / Difference Controls */}
+        {mode === ComparisonMode.OVERLAY && (
+            <div className="absolute top-6 left-1/2 -translate-x-1/2 z-40 bg-white/90 backdrop-blur shadow-xl border border-gray-200 px-4 py-2 rounded-2xl flex items-center gap-4 text-xs font-bold text-gray-600">
+                <label className={`flex items-center gap-2 ${isBlinking ? 'opacity-40' : ''}`}>
+                    <span>不透明度</span>
+                    <input 
+                        type="range" 
+                        min={0} 
+                        max={100} 
+                        value={overlayOpacity} 
+                        disabled={isBlinking}
+                        onChange={(e) => setOverlayOpacity(Number(e.target.value))} 
+                        className="w-24 accent-indigo-600"
+                    />
+                    <span className="w-8 text-right font-mono text-gray-800">{overlayOpacity}%</span>
+                </label>
+                <div className="w-[1px] h-4 bg-gray-200" />
+                <div className={`flex bg-gray-100 p-0.5 rounded-lg ${isBlinking ? 'opacity-40 pointer-events-none' : ''}`}>
+                    {BLEND_MODE_OPTIONS.map(option => (
+                        <button 
+                            key={option.id} 
+                            onClick={() => setOverlayBlendMode(option.id)} 
+                            className={`px-2 py-1 rounded-md transition-all ${overlayBlendMode === option.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="w-[1px] h-4 bg-gray-200" />
+                <button 
+                    onClick={() => setIsBlinking(!isBlinking)} 
+                    className={`flex items-center gap-1.5 px-2 py-1 rounded-lg transition-all ${isBlinking ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:bg-gray-100'}`}
+                    title="在设计稿与实现图之间快速切换"
+                >
+                    <Zap size={12} />
+                    闪烁对比
+                </button>
+            </div>
+        )}
+        {activeTool === ToolMode.RULER && (
+            <button
+                onClick={() => setIsPairedMode(!isPairedMode)}
+                className={`absolute bottom-20 left-6 z-40 flex items-center gap-2 px-3 py-2 rounded-2xl text-xs font-bold shadow-xl border transition-all ${
+                    isPairedMode ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white/95 text-gray-600 border-gray-200 hover:border-indigo-300'
+                }`}
+                title="同时记录设计稿与实现图同一位置的值（按当前对齐参数换算坐标）"
+            >
+                <Link2 size={14} />
+                成对测量{isPairedMode ? '：设计稿 ↔ 实现图' : ''}
+            </button>
+        )}
+
+        {/* 忽略区域模板 */}
+        {activeTool === ToolMode.MASK && (
+            <div className="absolute bottom-20 left-6 z-40 bg-white/95 backdrop-blur shadow-xl border border-gray-200 rounded-2xl p-3 text-xs space-y-2 min-w-[14rem]">
+                <p className="text-[10px] text-gray-400 leading-relaxed">框选时间戳、头像、广告等动态内容，<br />AI 分析、像素/文案比对与报告都会忽略这些区域</p>
+                <div className="flex gap-2">
+                    {onSaveMaskTemplate && (
+                        <button
+                            onClick={onSaveMaskTemplate}
+                            disabled={!annotations.some(a => a.type === 'mask' && a.devImageId === activeDevImageId)}
+                            className="flex-1 px-2 py-1.5 rounded-lg border border-gray-200 font-bold text-gray-600 hover:border-indigo-300 hover:text-indigo-600 disabled:opacity-40"
+                            title="同一页面、同一设备新上传的实现图会自动套用"
+                        >
+                            {maskTemplateCount > 0 ? '更新页面模板' : '保存为页面模板'}
+                        </button>
+                    )}
+                    {onApplyMaskTemplate && maskTemplateCount > 0 && (
+                        <button
+                            onClick={onApplyMaskTemplate}
+                            className="flex-1 px-2 py-1.5 rounded-lg bg-slate-700 text-white font-bold hover:bg-slate-900"
+                        >
+                            套用模板 ({maskTemplateCount})
+                        </button>
+                    )}
+                </div>
+            </div>
+        )}
+
+        {/* Inspector 对照面板 */}
+        {activeTool === ToolMode.INSPECTOR && (
+            <div className="absolute bottom-20 left-6 z-40 bg-white/95 backdrop-blur shadow-xl border border-gray-200 rounded-2xl p-3 text-xs min-w-[14rem]">
+                {inspectState && (inspectState.dev || inspectState.design) ? (
+                    <table className="w-full font-mono">
+                        <thead>
+                            <tr className="text-[10px] text-gray-400">
+                                <th />
+                                <th className="text-right font-bold text-indigo-600 px-2">设计稿</th>
+                                <th className="text-right font-bold text-rose-500 px-2">实现图</th>
+                            </tr>
+                        </thead>
+                        <tbody className="text-gray-800">
+                            {[
+                                { label: '宽', design: inspectState.design && inspectState.design.box.right - inspectState.design.box.left, dev: inspectState.dev && inspectState.dev.box.right - inspectState.dev.box.left },
+                                { label: '高', design: inspectState.design && inspectState.design.box.bottom - inspectState.design.box.top, dev: inspectState.dev && inspectState.dev.box.bottom - inspectState.dev.box.top },
+                                ...(['left', 'top', 'right', 'bottom'] as const).map(side => ({
+                                    label: { left: '左', top: '上', right: '右', bottom: '下' }[side],
+                                    design: inspectState.design?.gaps[side] ?? null,
+                                    dev: inspectState.dev?.gaps[side] ?? null,
+                                })),
+                            ].map(row => (
+                                <tr key={row.label}>
+                                    <td className="font-sans font-bold text-gray-400 pr-2">{row.label}</td>
+                                    <td className="text-right px-2">{row.design !== null ? formatImagePx(row.design, measureUnit, designCalibration) : '-'}</td>
+                                    <td className="text-right px-2">{row.dev !== null ? formatImagePx(row.dev, measureUnit, calibration) : '-'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : (
+                    <span className="text-gray-400 font-bold">悬停在元素上查看尺寸与间距</span>
+                )}
+            </div>
+        )}
+
+        {mode === ComparisonMode.DIFFERENCE && (
+            <div className="absolute top-6 left-1/2 -translate-x-1/2 z-40 bg-slate-900/90 backdrop-blur shadow-xl px-4 py-2 rounded-2xl text-xs font-bold text-white">
+                差值模式：完全一致的像素显示为黑色，亮色即为差异
+            </div>
+        )}
+
         {/* Loupe Floating Element */}
         {activeTool === ToolMode.COLOR_PICKER && loupeState && (
             <div 
@@ -648,22 +1465,30 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
             </div>
         )}
 
-        {/* Filmstrip: Dev Image Switcher */}
+        {/* Filmstrip: Design ↔ Dev Pair Switcher */}
         <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-40 bg-white/90 backdrop-blur shadow-xl border border-gray-200 p-1.5 rounded-2xl flex items-center gap-2 transition-all">
-            {devImages.map((img) => (
-                <button
-                    key={img.id}
-                    onClick={() => onSwitchDevImage(img.id)}
-                    className={`relative w-10 h-10 rounded-lg overflow-hidden border-2 transition-all ${
-                        img.id === activeDevImageId 
-                            ? 'border-indigo-600 ring-2 ring-indigo-200 ring-offset-1 scale-105' 
-                            : 'border-gray-100 opacity-60 hover:opacity-100 grayscale hover:grayscale-0'
-                    }`}
-                    title={img.name}
-                >
-                    <img src={img.data} className="w-full h-full object-cover" />
-                </button>
-            ))}
+            {designImages.length > 1 ? (
+                designImages.map((design, idx) => {
+                    const pairedDevImages = devImages.filter(img => findPairedDesign(designImages, img)?.id === design.id);
+                    const isActiveDesign = design.id === activeDesignImageId;
+                    return (
+                        <div key={design.id} className={`flex items-center gap-1 p-0.5 rounded-xl ${isActiveDesign ? 'bg-indigo-50' : ''}`}>
+                            <button
+                                onClick={() => onSwitchDesignImage?.(design.id)}
+                                disabled={pairedDevImages.length === 0}
+                                className={`relative w-8 h-10 rounded-md overflow-hidden border-2 transition-all disabled:cursor-not-allowed ${
+                                    isActiveDesign ? 'border-black' : 'border-gray-100 opacity-60 hover:opacity-100'
+                                }`}
+                                title={`D${idx + 1} · ${design.name}`}
+                            >
+                                <img src={design.data} className="w-full h-full object-cover" />
+                                <span className="absolute bottom-0 inset-x-0 bg-black/70 text-white text-[8px] font-black text-center leading-tight">D{idx + 1}</span>
+                            </button>
+                            {pairedDevImages.map(renderDevThumbnail)}
+                        </div>
+                    );
+                })
+            ) : devImages.map(renderDevThumbnail)}
             <div className="w-[1px] h-6 bg-gray-200 mx-1"></div>
             <button
                 onClick={onAddDevImage}
@@ -674,6 +1499,59 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({
             </button>
         </div>
 
+        <div className="absolute top-6 right-6 z-40 flex items-center gap-2">
+            {designChanges.length > 0 && (
+                <button
+                    onClick={() => setShowDesignChanges(!showDesignChanges)}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-2xl text-xs font-bold shadow-xl border transition-all ${
+                        showDesignChanges ? 'bg-amber-500 text-white border-amber-500' : 'bg-white/95 text-gray-600 border-gray-200 hover:border-amber-300'
+                    }`}
+                    title="显示最近一次从 Figma 同步时设计稿发生变化的区域"
+                >
+                    <History size={14} />
+                    设计变更 ({designChanges.length})
+                </button>
+            )}
+            {figmaLayers.length > 0 && (
+                <button
+                    onClick={() => { setShowFigmaLayers(!showFigmaLayers); setHoveredLayer(null); }}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-2xl text-xs font-bold shadow-xl border transition-all ${
+                        showFigmaLayers ? 'bg-fuchsia-600 text-white border-fuchsia-600' : 'bg-white/95 text-gray-600 border-gray-200 hover:border-fuchsia-300'
+                    }`}
+                    title="显示 Figma 节点，悬停查看尺寸、间距与文字样式"
+                >
+                    <Layers size={14} />
+                    Figma 图层 ({figmaLayers.length})
+                </button>
+            )}
+        </div>
+
+        {/* DOM 元素与计算样式 */}
+        {!isDomPanelHidden && domElements.length > 0 && (
+            <div className="absolute top-20 right-6 z-40 w-80 max-h-[60%] overflow-y-auto bg-white/95 backdrop-blur shadow-xl border border-gray-200 rounded-2xl p-3 text-xs space-y-3">
+                <div className="flex items-center gap-2 font-bold text-gray-700">
+                    <Code size={14} className="text-cyan-600" />
+                    标注下的元素
+                    <button onClick={() => setIsDomPanelHidden(true)} className="ml-auto p-0.5 text-gray-400 hover:text-gray-600"><X size={14} /></button>
+                </div>
+                {domElements.map((el, i) => (
+                    <div key={`${el.selector}-${i}`} className={i === 0 ? '' : 'pt-3 border-t border-gray-100'}>
+                        <div className="flex items-center gap-1.5">
+                            <code className={`flex-1 min-w-0 truncate font-mono font-bold ${i === 0 ? 'text-cyan-700' : 'text-gray-500'}`} title={el.selector}>{el.selector}</code>
+                            <button onClick={() => navigator.clipboard.writeText(el.selector)} className="shrink-0 text-gray-400 hover:text-cyan-600" title="复制选择器"><Copy size={12} /></button>
+                        </div>
+                        <div className="mt-0.5 text-[10px] text-gray-400">
+                            {i === 0 ? '' : '父元素 · '}{Math.round(el.width * 100) / 100} × {Math.round(el.height * 100) / 100}px
+                            {el.text && <span className="ml-1 text-gray-500">「{el.text}」</span>}
+                        </div>
+                        {Object.keys(el.styles).length > 0 && (
+                            <pre className="mt-1.5 bg-slate-50 border border-slate-100 rounded-lg px-2 py-1.5 font-mono text-[11px] text-slate-700 whitespace-pre-wrap break-all">{describeElementStyles(el).join('\n')}</pre>
+                        )}
+                    </div>
+                ))}
+            </div>
+        )}
+
         {/* Zoom Controls */}
         <div className="absolute bottom-6 right-6 z-40 bg-white shadow-xl border p-1 rounded-xl flex items-center gap-1">
              <button onClick={onZoomOut} className="p-2 hover:bg-slate-100 rounded-lg"><ZoomOut size={16}/></button>
@@ -0,0 +1,99 @@
+
+import React, { useMemo, useState } from 'react';
+import { Palette, Trash2, Upload } from 'lucide-react';
+import { DesignToken } from '../types';
+
+interface DesignTokenPanelProps {
+  tokens: DesignToken[];
+  onImport: (file: File) => void;
+  onClear: () => void;
+}
+
+// 预览时每类最多展示的数量
+const PREVIEW_LIMIT = 48;
+
+/**
+ * 项目的设计 token：导入 W3C / Style Dictionary / Figma Variables 导出的 JSON，并按类型预览。
+ */
+const DesignTokenPanel: React.FC<DesignTokenPanelProps> = ({ tokens, onImport, onClear }) => {
+  const [filter, setFilter] = useState('');
+
+  const { colors, dimensions } = useMemo(() => {
+    const q = filter.trim().toLowerCase();
+    const visible = q ? tokens.filter(t => t.name.toLowerCase().includes(q)) : tokens;
+    return {
+      colors: visible.filter(t => t.type === 'color'),
+      dimensions: visible.filter(t => t.type === 'dimension'),
+    };
+  }, [tokens, filter]);
+
+  const input = (
+    <input
+      id="token-up"
+      type="file"
+      className="hidden"
+      accept=".json,application/json"
+      onChange={(e) => {
+        const file = e.target.files?.[0];
+        if (file) onImport(file);
+        e.target.value = '';
+      }}
+    />
+  );
+
+  if (tokens.length === 0) {
+    return (
+      <div
+        onClick={() => document.getElementById('token-up')?.click()}
+        className="w-full sm:w-[16rem] h-32 rounded-[2rem] border-2 border-dashed border-slate-200 bg-white flex flex-col items-center justify-center cursor-pointer hover:border-indigo-400 transition-colors group"
+      >
+        <Palette size={24} className="text-slate-300 group-hover:text-indigo-400 mb-2" />
+        <span className="font-black text-slate-900">导入 token 文件</span>
+        <span className="text-[10px] text-slate-400 mt-1">W3C / Style Dictionary / Figma Variables</span>
+        {input}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-[2rem] border border-slate-200 bg-white p-6 space-y-4">
+      <div className="flex items-center gap-3">
+        <span className="text-sm font-black text-slate-900">{tokens.length} 个 token</span>
+        <span className="text-xs text-slate-400">颜色 {tokens.filter(t => t.type === 'color').length} · 尺寸 {tokens.filter(t => t.type === 'dimension').length}</span>
+        <input
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder="按名称筛选"
+          className="ml-auto w-40 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs outline-none focus:ring-1 focus:ring-indigo-500"
+        />
+        <button onClick={() => document.getElementById('token-up')?.click()} title="重新导入" className="p-1.5 text-slate-400 hover:text-indigo-600"><Upload size={14} /></button>
+        <button onClick={onClear} title="清除 token" className="p-1.5 text-slate-400 hover:text-red-500"><Trash2 size={14} /></button>
+        {input}
+      </div>
+      {colors.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {colors.slice(0, PREVIEW_LIMIT).map(token => (
+            <div key={token.name} title={`${token.name} ${token.value}`} className="flex items-center gap-1.5 px-2 py-1 rounded-lg bg-slate-50 border border-slate-100 max-w-[14rem]">
+              <span className="w-3 h-3 rounded shrink-0 border border-black/10" style={{ backgroundColor: token.value }} />
+              <span className="text-[10px] font-mono text-slate-600 truncate">{token.name}</span>
+            </div>
+          ))}
+          {colors.length > PREVIEW_LIMIT && <span className="text-[10px] text-slate-400 self-center">+{colors.length - PREVIEW_LIMIT}</span>}
+        </div>
+      )}
+      {dimensions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {dimensions.slice(0, PREVIEW_LIMIT).map(token => (
+            <div key={token.name} className="flex items-center gap-1.5 px-2 py-1 rounded-lg bg-slate-50 border border-slate-100 max-w-[14rem]">
+              <span className="text-[10px] font-mono text-slate-600 truncate">{token.name}</span>
+              <span className="text-[10px] font-mono font-bold text-indigo-600 shrink-0">{token.value}px</span>
+            </div>
+          ))}
+          {dimensions.length > PREVIEW_LIMIT && <span className="text-[10px] text-slate-400 self-center">+{dimensions.length - PREVIEW_LIMIT}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DesignTokenPanel;
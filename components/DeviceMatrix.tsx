@@ -0,0 +1,135 @@
+
+import React, { useMemo } from 'react';
+import { Image as ImageIcon, Monitor, Smartphone, Tablet } from 'lucide-react';
+import { DeviceProfile, Project } from '../types';
+import { getProjectDevices } from '../services/deviceProfiles';
+import { getPairedDesign } from '../services/projectModel';
+
+interface DeviceMatrixProps {
+  project: Project;
+  onOpenDevImage: (devImageId: string) => void;
+  onAddDevImage: () => void;
+}
+
+const NO_DEVICE = '__none__';
+
+const deviceIcon = (device: DeviceProfile | null) => {
+  if (!device) return ImageIcon;
+  if (device.width >= 1024) return Monitor;
+  if (device.width >= 600) return Tablet;
+  return Smartphone;
+};
+
+/**
+ * 断点矩阵：行是设计稿（页面/状态），列是设备，单元格内为对应的实现图及问题数。
+ */
+const DeviceMatrix: React.FC<DeviceMatrixProps> = ({ project, onOpenDevImage, onAddDevImage }) => {
+  const columns = useMemo(() => {
+    const used = new Set(project.devImages.map(img => img.deviceId || NO_DEVICE));
+    // 按宽度从小到大排列，未指定设备的放在最后
+    const cols: (DeviceProfile | null)[] = getProjectDevices(project)
+      .filter(d => used.has(d.id))
+      .sort((a, b) => a.width - b.width);
+    if (used.has(NO_DEVICE)) cols.push(null);
+    return cols;
+  }, [project]);
+
+  const issueCounts = useMemo(() => {
+    const counts = new Map<string, { open: number; total: number }>();
+    project.issues.forEach(issue => {
+      const c = counts.get(issue.devImageId) || { open: 0, total: 0 };
+      c.total++;
+      if (issue.status === 'open' || issue.status === 'in_progress') c.open++;
+      counts.set(issue.devImageId, c);
+    });
+    return counts;
+  }, [project.issues]);
+
+  if (project.designImages.length === 0 || project.devImages.length === 0) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center text-slate-400">
+        <Smartphone size={40} className="mb-4 opacity-30" />
+        <p className="text-sm font-medium">上传设计稿与实现图并标记设备后，在这里查看所有断点</p>
+        <button onClick={onAddDevImage} className="text-xs text-indigo-600 mt-3 hover:underline">去上传</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full overflow-auto p-10">
+      <table className="border-separate border-spacing-4">
+        <thead>
+          <tr>
+            <th />
+            {columns.map(device => {
+              const Icon = deviceIcon(device);
+              return (
+                <th key={device?.id ?? NO_DEVICE} className="min-w-[12rem] text-left">
+                  <div className="flex items-center gap-2 text-sm font-black text-slate-900">
+                    <Icon size={16} className="text-indigo-600" />
+                    {device ? device.name : '未指定设备'}
+                  </div>
+                  {device && <div className="text-[10px] font-mono text-slate-400 mt-0.5">{device.width} × @{device.dpr}x · {device.platform}</div>}
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {project.designImages.map((design, designIdx) => (
+            <tr key={design.id}>
+              <th className="align-top text-left w-40">
+                <div className="w-40 h-28 rounded-2xl overflow-hidden border border-slate-200 bg-white">
+                  <img src={design.data} className="w-full h-full object-cover object-top" />
+                </div>
+                <p className="mt-2 text-xs font-bold text-slate-600 truncate"><span className="text-indigo-600">D{designIdx + 1}</span> · {design.name}</p>
+              </th>
+              {columns.map(device => {
+                const cellImages = project.devImages.filter(img =>
+                  getPairedDesign(project, img)?.id === design.id && (img.deviceId || NO_DEVICE) === (device?.id ?? NO_DEVICE)
+                );
+                return (
+                  <td key={device?.id ?? NO_DEVICE} className="align-top">
+                    {cellImages.length === 0 ? (
+                      <div className="h-40 rounded-2xl border-2 border-dashed border-slate-200 flex items-center justify-center text-xs font-bold text-slate-300">
+                        缺少实现图
+                      </div>
+                    ) : (
+                      <div className="flex flex-col gap-3">
+                        {cellImages.map(img => {
+                          const count = issueCounts.get(img.id) || { open: 0, total: 0 };
+                          return (
+                            <button
+                              key={img.id}
+                              onClick={() => onOpenDevImage(img.id)}
+                              className={`relative h-40 rounded-2xl overflow-hidden border-2 bg-white text-left transition-all hover:-translate-y-1 hover:shadow-xl ${
+                                img.id === project.activeDevImageId ? 'border-indigo-500' : 'border-slate-200 hover:border-indigo-300'
+                              }`}
+                            >
+                              <img src={img.data} className="w-full h-full object-cover object-top" />
+                              <div className="absolute inset-x-0 bottom-0 p-2 bg-gradient-to-t from-black/70 to-transparent flex items-end justify-between gap-2">
+                                <span className="text-[10px] font-bold text-white truncate">{img.name}</span>
+                                <span
+                                  title="未解决 / 全部问题"
+                                  className={`shrink-0 px-1.5 py-0.5 rounded text-[10px] font-black ${count.open > 0 ? 'bg-red-500 text-white' : 'bg-white/90 text-slate-700'}`}
+                                >
+                                  {count.open}/{count.total}
+                                </span>
+                              </div>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DeviceMatrix;
@@ -0,0 +1,97 @@
+
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { DeviceProfile } from '../types';
+
+interface DeviceSelectProps {
+  devices: DeviceProfile[];
+  value?: string;
+  onChange: (deviceId: string | undefined) => void;
+  onAddCustomDevice: (device: DeviceProfile) => void;
+}
+
+const CUSTOM_OPTION = '__custom__';
+
+const DeviceSelect: React.FC<DeviceSelectProps> = ({ devices, value, onChange, onAddCustomDevice }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [width, setWidth] = useState('375');
+  const [dpr, setDpr] = useState('2');
+  const [platform, setPlatform] = useState<DeviceProfile['platform']>('web');
+
+  const handleCreate = () => {
+    const w = Number(width);
+    const ratio = Number(dpr);
+    if (!w || !ratio) return;
+    const device: DeviceProfile = { id: uuidv4(), name: name.trim() || `自定义 ${w}`, width: w, dpr: ratio, platform };
+    onAddCustomDevice(device);
+    onChange(device.id);
+    setIsCreating(false);
+    setName('');
+  };
+
+  if (isCreating) {
+    return (
+      <div className="p-2 rounded-lg border border-indigo-200 bg-indigo-50/50 space-y-1.5" onClick={e => e.stopPropagation()}>
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="名称，如 Pixel 8"
+          className="w-full bg-white border border-slate-200 rounded px-2 py-1 text-xs outline-none focus:ring-1 focus:ring-indigo-500"
+        />
+        <div className="flex gap-1.5">
+          <input
+            type="number"
+            value={width}
+            onChange={e => setWidth(e.target.value)}
+            title="逻辑宽度"
+            className="w-16 bg-white border border-slate-200 rounded px-2 py-1 text-xs font-mono outline-none focus:ring-1 focus:ring-indigo-500"
+          />
+          <span className="text-[10px] text-slate-400 self-center">@</span>
+          <input
+            type="number"
+            step="0.25"
+            value={dpr}
+            onChange={e => setDpr(e.target.value)}
+            title="设备像素比"
+            className="w-12 bg-white border border-slate-200 rounded px-2 py-1 text-xs font-mono outline-none focus:ring-1 focus:ring-indigo-500"
+          />
+          <select
+            value={platform}
+            onChange={e => setPlatform(e.target.value as DeviceProfile['platform'])}
+            className="flex-1 min-w-0 bg-white border border-slate-200 rounded px-1 py-1 text-xs outline-none"
+          >
+            <option value="ios">iOS</option>
+            <option value="android">Android</option>
+            <option value="web">Web</option>
+          </select>
+        </div>
+        <div className="flex justify-end gap-1">
+          <button onClick={() => setIsCreating(false)} className="p-1 text-slate-400 hover:text-slate-600"><X size={14} /></button>
+          <button onClick={handleCreate} className="p-1 text-indigo-600 hover:text-indigo-800"><Check size={14} /></button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <select
+      value={value ?? ''}
+      onChange={e => {
+        if (e.target.value === CUSTOM_OPTION) setIsCreating(true);
+        else onChange(e.target.value || undefined);
+      }}
+      className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg px-2 py-1 font-bold text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+    >
+      <option value="">未指定</option>
+      {devices.map(device => (
+        <option key={device.id} value={device.id}>{device.name} · {device.width}@{device.dpr}x</option>
+      ))}
+      <option value={CUSTOM_OPTION}>自定义...</option>
+    </select>
+  );
+};
+
+export default DeviceSelect;
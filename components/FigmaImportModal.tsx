@@ -1,39 +1,78 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { X, Figma, Check, AlertCircle, Link } from 'lucide-react';
 import Button from './Button';
+import { FigmaSettings } from '../types';
+import { DEFAULT_FIGMA_API_BASE, FIGMA_EXPORT_SCALES, FigmaImportResult, fetchFigmaFrames, parseFigmaUrl } from '../services/figmaService';
 
 interface FigmaImportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onImport: (url: string) => void;
+  settings: FigmaSettings;
+  onSaveSettings: (settings: FigmaSettings) => void;
+  onImport: (result: FigmaImportResult, url: string) => void;
+  initialUrl?: string;
 }
 
-const FigmaImportModal: React.FC<FigmaImportModalProps> = ({ isOpen, onClose, onImport }) => {
+const FigmaImportModal: React.FC<FigmaImportModalProps> = ({ isOpen, onClose, settings, onSaveSettings, onImport, initialUrl }) => {
   const [url, setUrl] = useState('');
+  const [draft, setDraft] = useState<FigmaSettings>(settings);
   const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setUrl(initialUrl || '');
+    setDraft(settings);
+    setStatus('idle');
+    setMessage('');
+    setShowAdvanced(!!settings.apiBase);
+  }, [isOpen]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   if (!isOpen) return null;
 
-  const handleImport = () => {
-    if (!url) return;
+  const scale = draft.scale ?? 2;
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const handleImport = async () => {
+    const link = parseFigmaUrl(url);
+    if (!link) {
+      setStatus('error');
+      setMessage('请输入有效的 Figma 链接。');
+      return;
+    }
+    const next: FigmaSettings = {
+      token: draft.token?.trim() || undefined,
+      apiBase: draft.apiBase?.trim() || undefined,
+      scale,
+    };
+    onSaveSettings(next);
+    const controller = new AbortController();
+    abortRef.current = controller;
     setStatus('loading');
-    
-    // Simulate API delay and processing
-    setTimeout(() => {
-        // Validation check (mock)
-        if (url.includes('figma.com')) {
-           setStatus('success');
-           setTimeout(() => {
-               onImport(url);
-               setStatus('idle');
-               setUrl('');
-               onClose();
-           }, 1000);
-        } else {
-           setStatus('error');
-        }
-    }, 1000);
+    setMessage('正在读取 Frame...');
+    try {
+      const result = await fetchFigmaFrames(next, link, scale, {
+        signal: controller.signal,
+        onProgress: (done, total) => setMessage(`正在下载图片 ${done}/${total}...`),
+      });
+      setStatus('success');
+      setMessage(`已导入 ${result.frames.length} 个 Frame`);
+      onImport(result, url.trim());
+      setTimeout(onClose, 800);
+    } catch (e: any) {
+      if (e?.name === 'AbortError') return;
+      setStatus('error');
+      setMessage(e?.message || 'Figma 导入失败');
+    }
   };
 
   return (
@@ -46,41 +85,89 @@ const FigmaImportModal: React.FC<FigmaImportModalProps> = ({ isOpen, onClose, on
             </div>
             <span>Figma 快速导入</span>
           </div>
-          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600">
             <X size={20} />
           </button>
         </div>
 
         <div className="p-6 space-y-4">
             <div className="p-3 bg-blue-50 text-blue-700 text-xs rounded border border-blue-100">
-                提示：请输入 Figma 的 Frame 链接（Copy Link）。目前仅保留 URL 记录功能。
+                提示：在 Figma 中选中 Frame 后 Copy Link。链接不带 node-id 时导入第一个页面的所有顶层 Frame。
             </div>
 
             <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Figma 链接 (URL)</label>
                 <div className="relative">
-                  <input 
-                      type="text" 
+                  <input
+                      type="text"
                       value={url}
                       onChange={(e) => setUrl(e.target.value)}
                       className="w-full border border-gray-300 rounded-lg pl-9 pr-3 py-2 text-sm focus:ring-2 focus:ring-black focus:border-black outline-none"
-                      placeholder="https://www.figma.com/file/..."
+                      placeholder="https://www.figma.com/design/...?node-id=1-2"
                   />
                   <Link className="absolute left-3 top-2.5 text-gray-400" size={16} />
                 </div>
             </div>
 
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Personal Access Token</label>
+                <input
+                    type="password"
+                    value={draft.token || ''}
+                    onChange={(e) => setDraft({ ...draft, token: e.target.value })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-black focus:border-black outline-none"
+                    placeholder="figd_..."
+                />
+                <p className="text-[10px] text-gray-400 mt-1">需要 file_content:read 权限；仅保存在本机工作区中，不会随 .designsync 项目包导出。</p>
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">导出倍率</label>
+                <div className="flex gap-2">
+                  {FIGMA_EXPORT_SCALES.map(s => (
+                    <button
+                      key={s}
+                      onClick={() => setDraft({ ...draft, scale: s })}
+                      className={`flex-1 py-1.5 rounded-lg border text-sm font-bold transition-all ${
+                        scale === s ? 'border-black bg-black text-white' : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                      }`}
+                    >
+                      @{s}x
+                    </button>
+                  ))}
+                </div>
+                <p className="text-[10px] text-gray-400 mt-1">建议与实现截图的 DPR 一致；导入后按 Frame 宽度自动标定。</p>
+            </div>
+
+            {showAdvanced ? (
+              <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">API 地址</label>
+                  <input
+                      type="text"
+                      value={draft.apiBase || ''}
+                      onChange={(e) => setDraft({ ...draft, apiBase: e.target.value })}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-black focus:border-black outline-none"
+                      placeholder={DEFAULT_FIGMA_API_BASE}
+                  />
+              </div>
+            ) : (
+              <button onClick={() => setShowAdvanced(true)} className="text-xs text-gray-400 hover:text-gray-600">自定义 API 地址...</button>
+            )}
+
             {status === 'error' && (
                 <div className="flex items-center gap-2 text-red-600 text-sm">
-                    <AlertCircle size={16} />
-                    <span>请输入有效的 Figma 链接。</span>
+                    <AlertCircle size={16} className="shrink-0" />
+                    <span>{message}</span>
                 </div>
             )}
+            {(status === 'loading' || status === 'success') && (
+                <p className="text-sm text-gray-500">{message}</p>
+            )}
         </div>
 
         <div className="p-5 border-t border-gray-100 flex justify-end gap-3 bg-gray-50">
-          <Button variant="secondary" onClick={onClose}>取消</Button>
-          <button 
+          <Button variant="secondary" onClick={handleClose}>取消</Button>
+          <button
              onClick={handleImport}
              disabled={status === 'loading' || !url}
              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-white font-medium transition-all ${
@@ -89,7 +176,7 @@ const FigmaImportModal: React.FC<FigmaImportModalProps> = ({ isOpen, onClose, on
           >
              {status === 'loading' && <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full" />}
              {status === 'success' && <Check size={16} />}
-             {status === 'loading' ? '正在解析...' : status === 'success' ? '导入成功' : '导入'}
+             {status === 'loading' ? '正在导入...' : status === 'success' ? '导入成功' : '导入'}
           </button>
         </div>
       </div>
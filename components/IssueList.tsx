@@ -1,7 +1,11 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { Issue, Annotation, Comment } from '../types';
-import { Trash2, MessageSquareWarning, Sparkles, ClipboardList, ChevronDown, CheckCircle2, Clock, XCircle, AlertCircle, PanelRightClose, PanelRightOpen, Send, Copy, Download, Loader2, Edit3, Save } from 'lucide-react';
+import { Issue, Annotation, Comment, DevImage, DeviceProfile } from '../types';
+import { PixelDiffOptions } from '../services/pixelDiffService';
+import { MeasurementDescription } from '../services/measurementService';
+import { classifyDeltaE, DELTA_E_LEVELS } from '../services/colorService';
+import { AnalysisProgress, AnalysisStage, AnalyzerErrorKind } from '../services/visionAnalyzer';
+import { Trash2, MessageSquareWarning, Sparkles, ClipboardList, ChevronDown, CheckCircle2, Clock, XCircle, AlertCircle, PanelRightClose, PanelRightOpen, Send, Copy, Download, Loader2, Edit3, Save, ScanSearch, SlidersHorizontal, Settings2, Square, RotateCw, X, Smartphone, TextSearch, History } from 'lucide-react';
 
 interface IssueListProps {
   issues: Issue[];
@@ -11,11 +15,31 @@ interface IssueListProps {
   onUpdateIssue: (id: string, updates: Partial<Issue>) => void;
   onDeleteIssue: (id: string) => void;
   isAnalyzing: boolean;
-  aiProgress?: number;
+  aiProgress?: AnalysisProgress | null;
   onAnalyze: () => void;
+  onCancelAnalysis?: () => void;
+  aiError?: { kind: AnalyzerErrorKind; message: string } | null;
+  onDismissAiError?: () => void;
+  analyzerLabel?: string;
+  onOpenAnalyzerSettings?: () => void;
+  aiReport?: { discarded: number; merged: number } | null;
   onHoverIssue?: (id: string | null) => void;
+  isDiffing?: boolean;
+  onPixelDiff?: () => void;
+  diffOptions?: PixelDiffOptions;
+  onChangeDiffOptions?: (options: PixelDiffOptions) => void;
+  diffSummary?: { diffRatio: number; regionCount: number } | null;
+  textDiffProgress?: string | null; // 文案比对进行中的状态文字
+  onTextDiff?: () => void;
+  devImages?: DevImage[];
+  devices?: DeviceProfile[];
+  describeMeasurement?: (annotation: Annotation) => MeasurementDescription | null;
+  onSetExpected?: (annotationId: string, input: string) => void;
 }
 
+// 未标记设备的实现图在设备过滤中归为一组
+const NO_DEVICE = '__none__';
+
 const severityMap: Record<string, { label: string; color: string }> = {
   critical: { label: '紧急', color: 'bg-red-100 text-red-700 border-red-200' },
   high: { label: '高', color: 'bg-orange-100 text-orange-700 border-orange-200' },
@@ -30,6 +54,31 @@ const statusMap: Record<string, { label: string; icon: any; color: string }> = {
   wont_fix: { label: '不修复', icon: XCircle, color: 'text-gray-600 bg-gray-50' },
 };
 
+const stageLabels: Record<AnalysisStage, string> = {
+  preparing: '正在压缩图片',
+  requesting: '等待模型响应',
+  receiving: '正在接收结果',
+  retrying: '请求失败，稍后重试',
+  parsing: '正在校验结果',
+};
+
+// 重试时按失败原因细化提示
+const retryLabels: Partial<Record<AnalyzerErrorKind, string>> = {
+  rate_limit: '请求受限，稍后重试',
+  network: '网络异常，稍后重试',
+  server: '服务暂时不可用，稍后重试',
+};
+
+const aiErrorMap: Record<AnalyzerErrorKind, { title: string; hint: string }> = {
+  aborted: { title: '分析已取消', hint: '' },
+  rate_limit: { title: '请求过于频繁', hint: '已自动重试多次仍被限流，请稍后再试或更换模型。' },
+  auth: { title: 'API Key 无效或无权限', hint: '请在 AI 服务设置中检查 API Key。' },
+  network: { title: '无法连接到 AI 服务', hint: '请检查网络，或确认服务地址可访问、已允许跨域。' },
+  server: { title: 'AI 服务暂时不可用', hint: '服务端返回错误，已自动重试，请稍后再试。' },
+  invalid_response: { title: 'AI 返回格式异常', hint: '模型未按要求输出 JSON，可重试或更换模型。' },
+  unknown: { title: 'AI 分析失败', hint: '' },
+};
+
 const IssueList: React.FC<IssueListProps> = ({
   issues,
   annotations,
@@ -38,13 +87,33 @@ const IssueList: React.FC<IssueListProps> = ({
   onUpdateIssue,
   onDeleteIssue,
   isAnalyzing,
-  aiProgress = 0,
+  aiProgress,
   onAnalyze,
-  onHoverIssue
+  onCancelAnalysis,
+  aiError,
+  onDismissAiError,
+  analyzerLabel,
+  onOpenAnalyzerSettings,
+  aiReport,
+  onHoverIssue,
+  isDiffing = false,
+  onPixelDiff,
+  diffOptions,
+  onChangeDiffOptions,
+  diffSummary,
+  textDiffProgress = null,
+  onTextDiff,
+  devImages = [],
+  devices = [],
+  describeMeasurement,
+  onSetExpected
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [showDiffSettings, setShowDiffSettings] = useState(false);
   const [newCommentText, setNewCommentText] = useState('');
   const [filterStatus, setFilterStatus] = useState<string | null>(null);
+  const [filterDevice, setFilterDevice] = useState<string | null>(null);
+  const [filterRecheck, setFilterRecheck] = useState(false);
   const itemRefs = useRef<Map<string, HTMLDivElement>>(new Map());
 
   const stats = useMemo(() => {
@@ -57,10 +126,45 @@ const IssueList: React.FC<IssueListProps> = ({
     };
   }, [issues]);
 
+  const issueDeviceOf = useMemo(() => {
+    const map = new Map(devImages.map(img => [img.id, img.deviceId || NO_DEVICE]));
+    return (issue: Issue) => map.get(issue.devImageId) || NO_DEVICE;
+  }, [devImages]);
+
+  // 只列出当前页面实际用到的设备
+  const deviceOptions = useMemo(() => {
+    const used = new Set(devImages.map(img => img.deviceId || NO_DEVICE));
+    const options = devices.filter(d => used.has(d.id)).map(d => ({ id: d.id, label: d.name }));
+    if (options.length > 0 && used.has(NO_DEVICE)) options.push({ id: NO_DEVICE, label: '未指定' });
+    return options;
+  }, [devImages, devices]);
+
   const filteredIssues = useMemo(() => {
-    if (!filterStatus) return issues;
-    return issues.filter(i => i.status === filterStatus);
-  }, [issues, filterStatus]);
+    return issues.filter(i =>
+      (!filterStatus || i.status === filterStatus) && (!filterDevice || issueDeviceOf(i) === filterDevice) && (!filterRecheck || !!i.needsRecheck)
+    );
+  }, [issues, filterStatus, filterDevice, filterRecheck, issueDeviceOf]);
+
+  const recheckCount = useMemo(() => issues.filter(i => i.needsRecheck).length, [issues]);
+
+  useEffect(() => {
+    if (recheckCount === 0) setFilterRecheck(false);
+  }, [recheckCount]);
+
+  // 设备被移除或只剩一种时，过滤条件随之失效
+  useEffect(() => {
+    if (filterDevice && (deviceOptions.length < 2 || !deviceOptions.some(o => o.id === filterDevice))) setFilterDevice(null);
+  }, [deviceOptions, filterDevice]);
+
+  const measurementOf = (issue: Issue) => {
+    const ann = issue.annotationId ? annotations.find(a => a.id === issue.annotationId) : undefined;
+    return ann && describeMeasurement ? describeMeasurement(ann) : null;
+  };
+
+  const deviceLabel = (issue: Issue) => {
+    const deviceId = issueDeviceOf(issue);
+    return deviceOptions.length > 1 ? devices.find(d => d.id === deviceId)?.name : undefined;
+  };
 
   useEffect(() => {
     if (activeIssueId && !isCollapsed) {
@@ -143,38 +247,185 @@ const IssueList: React.FC<IssueListProps> = ({
             );
           })}
         </div>
-        
-        <div className="space-y-3">
+
+        {recheckCount > 0 && (
           <button
-            onClick={onAnalyze}
-            disabled={isAnalyzing}
-            className={`w-full flex items-center justify-center gap-2 py-2.5 px-4 rounded-xl text-sm font-bold transition-all ${
-              isAnalyzing ? 'bg-indigo-100 text-indigo-400 cursor-wait' : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg shadow-indigo-600/20'
+            onClick={() => setFilterRecheck(!filterRecheck)}
+            className={`w-full flex items-center gap-2 mb-5 px-3 py-2 rounded-xl border text-xs font-bold transition-all ${
+              filterRecheck ? 'border-amber-500 bg-amber-50 text-amber-700' : 'border-amber-100 bg-amber-50/50 text-amber-600 hover:border-amber-300'
             }`}
+            title="设计稿重新同步后，标注区域内设计有变化的问题"
           >
-            {isAnalyzing ? (
-              <>
-                <Loader2 size={18} className="animate-spin" />
-                正在深度扫描细节...
-              </>
-            ) : (
-              <>
-                <Sparkles size={18} />
-                AI 智能像素对齐评测
-              </>
-            )}
+            <History size={14} />
+            {recheckCount} 个问题需要复查
+            <span className="ml-auto text-[10px] font-normal">{filterRecheck ? '显示全部' : '只看需复查'}</span>
           </button>
+        )}
+
+        {deviceOptions.length > 1 && (
+          <div className="flex items-center gap-1.5 mb-5 overflow-x-auto">
+            <Smartphone size={14} className="text-gray-400 shrink-0" />
+            {[{ id: null, label: '全部设备' }, ...deviceOptions].map(option => (
+              <button
+                key={option.id ?? 'all'}
+                onClick={() => setFilterDevice(option.id)}
+                className={`shrink-0 px-2.5 py-1 rounded-lg text-[11px] font-bold border transition-all ${
+                  filterDevice === option.id ? 'border-indigo-500 bg-indigo-50 text-indigo-600' : 'border-gray-100 bg-gray-50 text-gray-500 hover:border-gray-300'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+        
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <button
+              onClick={onAnalyze}
+              disabled={isAnalyzing}
+              className={`flex-1 flex items-center justify-center gap-2 py-2.5 px-4 rounded-xl text-sm font-bold transition-all ${
+                isAnalyzing ? 'bg-indigo-100 text-indigo-400 cursor-wait' : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg shadow-indigo-600/20'
+              }`}
+            >
+              {isAnalyzing ? (
+                <>
+                  <Loader2 size={18} className="animate-spin" />
+                  正在深度扫描细节...
+                </>
+              ) : (
+                <>
+                  <Sparkles size={18} />
+                  AI 智能像素对齐评测
+                </>
+              )}
+            </button>
+            {onOpenAnalyzerSettings && (
+              <button
+                onClick={onOpenAnalyzerSettings}
+                disabled={isAnalyzing}
+                className="px-3 rounded-xl border border-gray-200 text-gray-400 hover:text-indigo-600 hover:border-indigo-200 transition-all disabled:opacity-50"
+                title={analyzerLabel ? `AI 服务：${analyzerLabel}` : 'AI 服务设置'}
+              >
+                <Settings2 size={16} />
+              </button>
+            )}
+          </div>
+          {analyzerLabel && !isAnalyzing && (
+            <div className="text-[10px] text-gray-400 text-center -mt-1">当前服务：{analyzerLabel}</div>
+          )}
+          {aiReport && !isAnalyzing && (aiReport.discarded > 0 || aiReport.merged > 0) && (
+            <div className="text-[10px] font-bold text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-1.5">
+              {aiReport.discarded > 0 && <span>已丢弃 {aiReport.discarded} 条格式异常的 AI 结果</span>}
+              {aiReport.discarded > 0 && aiReport.merged > 0 && ' · '}
+              {aiReport.merged > 0 && <span>合并 {aiReport.merged} 条重复区域</span>}
+            </div>
+          )}
           {isAnalyzing && (
             <div className="space-y-1.5">
-              <div className="flex justify-between text-[10px] font-black text-indigo-600 uppercase tracking-widest">
-                <span>分析进度</span>
-                <span>{aiProgress}%</span>
+              <div className="flex justify-between items-center text-[10px] font-black text-indigo-600 uppercase tracking-widest">
+                <span>
+                  {aiProgress ? (aiProgress.retryReason && retryLabels[aiProgress.retryReason]) || stageLabels[aiProgress.stage] : '分析进度'}
+                  {aiProgress?.attempt ? ` (${aiProgress.attempt})` : ''}
+                  {aiProgress?.tileCount ? ` · 第 ${aiProgress.tile}/${aiProgress.tileCount} 块` : ''}
+                </span>
+                <span className="flex items-center gap-2">
+                  {aiProgress?.percent ?? 0}%
+                  {onCancelAnalysis && (
+                    <button
+                      onClick={onCancelAnalysis}
+                      className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-gray-200 text-gray-500 hover:text-red-600 hover:border-red-200 normal-case tracking-normal"
+                      title="取消分析"
+                    >
+                      <Square size={8} className="fill-current" /> 取消
+                    </button>
+                  )}
+                </span>
               </div>
               <div className="w-full bg-gray-100 h-2 rounded-full overflow-hidden">
-                <div className="bg-indigo-600 h-full transition-all duration-500 ease-out" style={{ width: `${aiProgress}%` }}></div>
+                <div className="bg-indigo-600 h-full transition-all duration-500 ease-out" style={{ width: `${aiProgress?.percent ?? 0}%` }}></div>
               </div>
             </div>
           )}
+          {aiError && !isAnalyzing && (
+            <div className="p-3 rounded-xl border border-red-100 bg-red-50 text-xs text-red-700 space-y-1">
+              <div className="flex items-start justify-between gap-2">
+                <span className="font-bold flex items-center gap-1.5"><AlertCircle size={14} />{aiErrorMap[aiError.kind].title}</span>
+                {onDismissAiError && (
+                  <button onClick={onDismissAiError} className="text-red-300 hover:text-red-600"><X size={14} /></button>
+                )}
+              </div>
+              {aiErrorMap[aiError.kind].hint && <p className="leading-relaxed">{aiErrorMap[aiError.kind].hint}</p>}
+              <p className="text-[10px] text-red-400 font-mono break-all">{aiError.message}</p>
+              <button onClick={onAnalyze} className="flex items-center gap-1 text-[10px] font-bold text-red-600 hover:underline pt-1">
+                <RotateCw size={10} /> 重新分析
+              </button>
+            </div>
+          )}
+          {onPixelDiff && (
+            <div className="flex gap-2">
+              <button
+                onClick={onPixelDiff}
+                disabled={isDiffing}
+                className={`flex-1 flex items-center justify-center gap-2 py-2 px-3 rounded-xl text-xs font-bold border transition-all ${
+                  isDiffing ? 'bg-orange-50 text-orange-300 border-orange-100 cursor-wait' : 'bg-white text-orange-600 border-orange-200 hover:bg-orange-50'
+                }`}
+              >
+                {isDiffing ? <Loader2 size={14} className="animate-spin" /> : <ScanSearch size={14} />}
+                {isDiffing ? '正在比对像素...' : '本地像素比对'}
+              </button>
+              {diffOptions && onChangeDiffOptions && (
+                <button
+                  onClick={() => setShowDiffSettings(!showDiffSettings)}
+                  className={`p-2 rounded-xl border transition-all ${showDiffSettings ? 'border-orange-300 bg-orange-50 text-orange-600' : 'border-gray-200 text-gray-400 hover:text-gray-600'}`}
+                  title="比对参数"
+                >
+                  <SlidersHorizontal size={14} />
+                </button>
+              )}
+            </div>
+          )}
+          {showDiffSettings && diffOptions && onChangeDiffOptions && (
+            <div className="p-3 rounded-xl border border-gray-100 bg-gray-50 space-y-2">
+              {[
+                { key: 'threshold', label: '通道容差', min: 0, max: 128, unit: '' },
+                { key: 'antiAliasRadius', label: '抗锯齿容差', min: 0, max: 3, unit: 'px' },
+                { key: 'minClusterArea', label: '最小区域', min: 0, max: 1024, unit: 'px²' },
+              ].map(field => (
+                <label key={field.key} className="flex items-center gap-3 text-[10px] font-bold text-gray-500">
+                  <span className="w-16 shrink-0">{field.label}</span>
+                  <input
+                    type="range"
+                    min={field.min}
+                    max={field.max}
+                    value={diffOptions[field.key as 'threshold' | 'antiAliasRadius' | 'minClusterArea']}
+                    onChange={e => onChangeDiffOptions({ ...diffOptions, [field.key]: Number(e.target.value) })}
+                    className="flex-1 accent-orange-500"
+                  />
+                  <span className="w-12 text-right font-mono text-gray-700">
+                    {diffOptions[field.key as 'threshold' | 'antiAliasRadius' | 'minClusterArea']}{field.unit}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+          {diffSummary && (
+            <div className="text-[10px] font-bold text-orange-600 bg-orange-50 border border-orange-100 rounded-lg px-3 py-1.5">
+              差异像素占比 {(diffSummary.diffRatio * 100).toFixed(2)}% · {diffSummary.regionCount} 个差异区域
+            </div>
+          )}
+          {onTextDiff && (
+            <button
+              onClick={onTextDiff}
+              disabled={!!textDiffProgress}
+              className={`w-full flex items-center justify-center gap-2 py-2 px-3 rounded-xl text-xs font-bold border transition-all ${
+                textDiffProgress ? 'bg-teal-50 text-teal-400 border-teal-100 cursor-wait' : 'bg-white text-teal-600 border-teal-200 hover:bg-teal-50'
+              }`}
+            >
+              {textDiffProgress ? <Loader2 size={14} className="animate-spin" /> : <TextSearch size={14} />}
+              {textDiffProgress || '本地文案比对 (OCR)'}
+            </button>
+          )}
         </div>
       </div>
 
@@ -187,14 +438,26 @@ const IssueList: React.FC<IssueListProps> = ({
           <div className="flex flex-col items-center justify-center py-20 text-gray-400 text-center">
             <MessageSquareWarning size={40} className="mb-4 opacity-20" />
             <p className="text-sm font-medium">当前无相关问题记录</p>
-            {filterStatus && (
-              <button onClick={() => setFilterStatus(null)} className="text-xs text-indigo-600 mt-2 hover:underline">清除过滤器</button>
+            {(filterStatus || filterDevice || filterRecheck) && (
+              <button onClick={() => { setFilterStatus(null); setFilterDevice(null); setFilterRecheck(false); }} className="text-xs text-indigo-600 mt-2 hover:underline">清除过滤器</button>
             )}
           </div>
         ) : (
           filteredIssues.map((issue) => {
             const isActive = activeIssueId === issue.id;
             const sev = severityMap[issue.severity] || severityMap.medium;
+            const measurement = measurementOf(issue);
+            const colorAnn = annotations.find(a => a.id === issue.annotationId && a.type === 'color' && a.expectedColor && a.deltaE !== undefined);
+            const colorCompare = colorAnn && (
+              <div className="mt-2 flex items-center gap-2 text-[11px] font-mono text-gray-500">
+                <span className="w-3.5 h-3.5 rounded border border-gray-200" style={{ backgroundColor: colorAnn.expectedColor }} title={`设计 ${colorAnn.expectedColor}`} />
+                <span>→</span>
+                <span className="w-3.5 h-3.5 rounded border border-gray-200" style={{ backgroundColor: colorAnn.color }} title={`实现 ${colorAnn.color}`} />
+                <span className={`px-1.5 py-0.5 rounded border font-sans font-bold text-[10px] ${DELTA_E_LEVELS[classifyDeltaE(colorAnn.deltaE!)].color}`}>
+                  ΔE {colorAnn.deltaE!.toFixed(1)} · {DELTA_E_LEVELS[classifyDeltaE(colorAnn.deltaE!)].label}
+                </span>
+              </div>
+            );
 
             return (
               <div
@@ -227,11 +490,26 @@ const IssueList: React.FC<IssueListProps> = ({
                           {Object.keys(severityMap).map(k => <option key={k} value={k}>{severityMap[k].label}</option>)}
                        </select>
                     </div>
+                    {deviceLabel(issue) && (
+                       <span className="flex items-center gap-1 text-[10px] font-bold text-slate-500 bg-slate-50 px-2 py-0.5 rounded border border-slate-100">
+                          <Smartphone size={10} /> {deviceLabel(issue)}
+                       </span>
+                    )}
                     {issue.annotationId && annotations.find(a => a.id === issue.annotationId)?.type === 'ai' && (
                        <span className="flex items-center gap-1 text-[10px] font-bold text-indigo-500 bg-indigo-50 px-2 py-0.5 rounded border border-indigo-100">
                           <Sparkles size={10} /> AI 检测
                        </span>
                     )}
+                    {issue.annotationId && annotations.find(a => a.id === issue.annotationId)?.type === 'diff' && (
+                       <span className="flex items-center gap-1 text-[10px] font-bold text-orange-500 bg-orange-50 px-2 py-0.5 rounded border border-orange-100">
+                          <ScanSearch size={10} /> 像素比对
+                       </span>
+                    )}
+                    {issue.needsRecheck && (
+                       <span className="flex items-center gap-1 text-[10px] font-bold text-amber-600 bg-amber-50 px-2 py-0.5 rounded border border-amber-200" title={issue.needsRecheck.reason}>
+                          <History size={10} /> 需复查
+                       </span>
+                    )}
                   </div>
                   <button 
                     onClick={(e) => { e.stopPropagation(); onDeleteIssue(issue.id); }}
@@ -250,12 +528,45 @@ const IssueList: React.FC<IssueListProps> = ({
                       onChange={e => onUpdateIssue(issue.id, { title: e.target.value })}
                       placeholder="问题标题"
                     />
+                    {issue.needsRecheck && (
+                       <div className="flex items-start gap-2 bg-amber-50 px-3 py-2 rounded-xl border border-amber-100 text-[11px] text-amber-700">
+                          <History size={12} className="mt-0.5 shrink-0" />
+                          <span className="flex-1">设计稿已更新：{issue.needsRecheck.reason}</span>
+                          <button
+                             onClick={() => onUpdateIssue(issue.id, { needsRecheck: undefined })}
+                             className="shrink-0 font-bold text-amber-700 hover:text-amber-900"
+                          >
+                             已复查
+                          </button>
+                       </div>
+                    )}
                     <textarea 
                       className="w-full text-xs text-gray-500 border-none p-0 focus:ring-0 resize-none min-h-[60px] bg-transparent placeholder:text-gray-300"
                       value={issue.description}
                       onChange={e => onUpdateIssue(issue.id, { description: e.target.value })}
                       placeholder="差异详细描述..."
                     />
+
+                    {colorCompare}
+
+                    {measurement && issue.annotationId && (
+                       <div className="flex items-center gap-3 bg-slate-50 px-3 py-2 rounded-xl border border-slate-100 text-xs">
+                          <span className="text-gray-400">实际 <b className="font-mono text-gray-800">{measurement.actual}</b></span>
+                          <label className="flex items-center gap-1 text-gray-400">
+                             期望
+                             <input
+                                key={`${issue.annotationId}-${measurement.expected ?? ''}`}
+                                type="number"
+                                defaultValue={measurement.expected ? parseFloat(measurement.expected) : ''}
+                                onBlur={e => onSetExpected?.(issue.annotationId!, e.target.value)}
+                                onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                className="w-16 bg-white border border-gray-200 rounded px-1.5 py-0.5 font-mono text-gray-800 outline-none focus:ring-1 focus:ring-indigo-500"
+                             />
+                             {measurement.unit}
+                          </label>
+                          {measurement.delta && <span className="ml-auto font-mono font-bold text-red-500">{measurement.delta}</span>}
+                       </div>
+                    )}
                     
                     {issue.suggestion && (
                        <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
@@ -295,6 +606,10 @@ const IssueList: React.FC<IssueListProps> = ({
                   <>
                     <h3 className="text-sm font-bold text-gray-800 line-clamp-1 mb-1">{issue.title}</h3>
                     <p className="text-xs text-gray-500 line-clamp-2 leading-relaxed">{issue.description}</p>
+                    {measurement?.expected && (
+                       <p className="mt-1 text-[11px] font-mono text-gray-500">期望 {measurement.expected}，实际 {measurement.actual}</p>
+                    )}
+                    {colorCompare}
                     <div className="mt-3 flex items-center gap-3">
                        <div className={`flex items-center gap-1 text-[10px] font-bold ${statusMap[issue.status].color.split(' ')[0]}`}>
                           {React.createElement(statusMap[issue.status].icon, { size: 12 })}
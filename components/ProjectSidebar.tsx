@@ -1,7 +1,8 @@
 
 import React, { useState } from 'react';
 import { Project } from '../types';
-import { Plus, LayoutTemplate, Trash2, Edit2, Check, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
+import { BatchItem, BatchItemStatus, BatchSummary, MAX_BATCH_CONCURRENCY } from '../services/batchAnalysis';
+import { Plus, LayoutTemplate, Trash2, Edit2, Check, PanelLeftClose, PanelLeftOpen, Sparkles, Loader2, Clock, CheckCircle2, AlertCircle, MinusCircle, Square, X } from 'lucide-react';
 
 interface ProjectSidebarProps {
   projects: Project[];
@@ -10,10 +11,39 @@ interface ProjectSidebarProps {
   onAddProject: () => void;
   onDeleteProject: (id: string) => void;
   onRenameProject: (id: string, name: string) => void;
+  batchItems?: BatchItem[];
+  isBatchRunning?: boolean;
+  batchSummary?: BatchSummary | null;
+  batchConcurrency?: number;
+  onChangeBatchConcurrency?: (value: number) => void;
+  onAnalyzeAll?: (scope: 'project' | 'all') => void;
+  onCancelBatch?: () => void;
+  onDismissBatchSummary?: () => void;
   isCollapsed: boolean;
   onToggleCollapse: () => void;
 }
 
+const batchStatusMap: Record<BatchItemStatus, { label: string; icon: any; color: string }> = {
+  queued: { label: '排队中', icon: Clock, color: 'text-gray-400' },
+  running: { label: '分析中', icon: Loader2, color: 'text-indigo-500 animate-spin' },
+  done: { label: '已完成', icon: CheckCircle2, color: 'text-green-500' },
+  failed: { label: '失败', icon: AlertCircle, color: 'text-red-500' },
+  skipped: { label: '缺少设计稿', icon: MinusCircle, color: 'text-gray-300' },
+  cancelled: { label: '已取消', icon: MinusCircle, color: 'text-gray-400' },
+};
+
+// 页面整体状态：有进行中的显示进行中，否则有失败的显示失败
+const projectBatchStatus = (items: BatchItem[]): BatchItemStatus | null => {
+  if (items.length === 0) return null;
+  const order: BatchItemStatus[] = ['running', 'queued', 'failed', 'cancelled', 'done', 'skipped'];
+  return order.find(status => items.some(i => i.status === status)) ?? null;
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds} 秒` : `${Math.floor(seconds / 60)} 分 ${seconds % 60} 秒`;
+};
+
 const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
   projects,
   activeProjectId,
@@ -21,6 +51,14 @@ const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
   onAddProject,
   onDeleteProject,
   onRenameProject,
+  batchItems = [],
+  isBatchRunning = false,
+  batchSummary,
+  batchConcurrency = 1,
+  onChangeBatchConcurrency,
+  onAnalyzeAll,
+  onCancelBatch,
+  onDismissBatchSummary,
   isCollapsed,
   onToggleCollapse
 }) => {
@@ -33,6 +71,8 @@ const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
     setTempName(project.name);
   };
 
+  const finishedCount = batchItems.filter(i => i.status !== 'queued' && i.status !== 'running').length;
+
   const saveEditing = () => {
     if (editingId && tempName.trim()) {
       onRenameProject(editingId, tempName.trim());
@@ -75,10 +115,13 @@ const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
         {projects.map((project) => {
           const isActive = project.id === activeProjectId;
           const isEditing = editingId === project.id;
+          const projectItems = batchItems.filter(i => i.projectId === project.id);
+          const batchStatus = projectBatchStatus(projectItems);
+          const BatchIcon = batchStatus ? batchStatusMap[batchStatus].icon : null;
 
           return (
+            <React.Fragment key={project.id}>
             <div 
-                key={project.id} 
                 onClick={() => !isEditing && onSwitchProject(project.id)}
                 title={isCollapsed ? project.name : undefined}
                 className={`relative group w-full flex items-center p-2 rounded-lg cursor-pointer transition-all border ${
@@ -89,12 +132,17 @@ const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
             >
                {/* Thumbnail */}
                <div className={`w-10 h-10 rounded shrink-0 overflow-hidden flex items-center justify-center border transition-colors ${isActive ? 'border-indigo-200 bg-white' : 'border-gray-200 bg-gray-50'} ${!isCollapsed ? 'mr-3' : ''}`}>
-                 {project.designImage ? (
-                    <img src={project.designImage} className="w-full h-full object-cover" alt="thumbnail" />
+                 {project.designImages.length > 0 ? (
+                    <img src={project.designImages[0].data} className="w-full h-full object-cover" alt="thumbnail" />
                  ) : (
                     <LayoutTemplate size={16} className={isActive ? "text-indigo-300" : "text-gray-300"} />
                  )}
                </div>
+               {isCollapsed && BatchIcon && batchStatus && (
+                   <span className="absolute top-1 right-1 bg-white rounded-full">
+                       <BatchIcon size={12} className={batchStatusMap[batchStatus].color} />
+                   </span>
+               )}
 
                {/* Name & Actions (Hidden when collapsed) */}
                {!isCollapsed && (
@@ -118,6 +166,11 @@ const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
                               <span className={`text-sm truncate font-medium`}>
                                   {project.name}
                               </span>
+                              {BatchIcon && batchStatus && (
+                                  <span title={batchStatusMap[batchStatus].label} className="shrink-0 ml-1">
+                                      <BatchIcon size={14} className={batchStatusMap[batchStatus].color} />
+                                  </span>
+                              )}
                           </div>
                       )}
                    </div>
@@ -151,6 +204,25 @@ const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
                    <div className="absolute right-0 top-1/2 -translate-y-1/2 w-1 h-5 bg-indigo-500 rounded-l-full"></div>
                )}
             </div>
+
+            {/* Per-image batch status */}
+            {!isCollapsed && projectItems.length > 0 && (
+              <div className="pl-14 pr-2 -mt-1 space-y-0.5">
+                {projectItems.map(item => {
+                  const image = project.devImages.find(img => img.id === item.devImageId);
+                  const config = batchStatusMap[item.status];
+                  return (
+                    <div key={item.devImageId} className="flex items-center gap-1.5 text-[10px] text-gray-500" title={item.error || config.label}>
+                      <config.icon size={10} className={`shrink-0 ${config.color}`} />
+                      <span className="truncate flex-1">{image?.name || '实现图'}</span>
+                      {item.status === 'done' && <span className="font-mono text-gray-400">{item.issueCount}</span>}
+                      {item.status === 'failed' && <span className="text-red-400">失败</span>}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            </React.Fragment>
           );
         })}
 
@@ -163,6 +235,80 @@ const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
           {!isCollapsed && <span>新建页面</span>}
         </button>
       </div>
+
+      {/* Batch Analysis */}
+      {onAnalyzeAll && !isCollapsed && (
+        <div className="px-3 space-y-2">
+          {batchSummary && !isBatchRunning && (
+            <div className="p-3 rounded-lg border border-indigo-100 bg-indigo-50 text-[11px] text-indigo-900 space-y-1 animate-in fade-in">
+              <div className="flex justify-between items-center font-bold">
+                <span>批量分析完成</span>
+                {onDismissBatchSummary && (
+                  <button onClick={onDismissBatchSummary} className="text-indigo-300 hover:text-indigo-600"><X size={14} /></button>
+                )}
+              </div>
+              <p>共 {batchSummary.total} 张 · 完成 {batchSummary.done} · 新增 {batchSummary.issueCount} 个问题</p>
+              {(batchSummary.failed > 0 || batchSummary.skipped > 0 || batchSummary.cancelled > 0) && (
+                <p className="text-indigo-500">
+                  {batchSummary.failed > 0 && `失败 ${batchSummary.failed} `}
+                  {batchSummary.skipped > 0 && `跳过 ${batchSummary.skipped} `}
+                  {batchSummary.cancelled > 0 && `取消 ${batchSummary.cancelled}`}
+                </p>
+              )}
+              <p className="text-indigo-400">耗时 {formatDuration(batchSummary.durationMs)}</p>
+            </div>
+          )}
+
+          {isBatchRunning ? (
+            <div className="p-3 rounded-lg border border-gray-100 bg-gray-50 space-y-2">
+              <div className="flex justify-between items-center text-[11px] font-bold text-gray-600">
+                <span className="flex items-center gap-1.5"><Loader2 size={12} className="animate-spin text-indigo-500" /> 批量分析 {finishedCount}/{batchItems.length}</span>
+                {onCancelBatch && (
+                  <button onClick={onCancelBatch} className="flex items-center gap-1 text-gray-400 hover:text-red-600">
+                    <Square size={8} className="fill-current" /> 取消
+                  </button>
+                )}
+              </div>
+              <div className="w-full bg-gray-200 h-1.5 rounded-full overflow-hidden">
+                <div className="bg-indigo-600 h-full transition-all duration-500" style={{ width: `${batchItems.length ? (finishedCount / batchItems.length) * 100 : 0}%` }}></div>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-1.5">
+              <div className="grid grid-cols-2 gap-1.5">
+                <button
+                  onClick={() => onAnalyzeAll('project')}
+                  className="flex items-center justify-center gap-1 py-1.5 rounded-lg border border-gray-200 text-[11px] font-bold text-gray-600 hover:border-indigo-300 hover:text-indigo-600"
+                  title="分析当前页面的全部实现图"
+                >
+                  <Sparkles size={12} /> 本页全部
+                </button>
+                <button
+                  onClick={() => onAnalyzeAll('all')}
+                  className="flex items-center justify-center gap-1 py-1.5 rounded-lg bg-indigo-600 text-[11px] font-bold text-white hover:bg-indigo-700"
+                  title="分析所有页面的全部实现图"
+                >
+                  <Sparkles size={12} /> 所有页面
+                </button>
+              </div>
+              {onChangeBatchConcurrency && (
+                <label className="flex items-center justify-between text-[10px] text-gray-400 px-1">
+                  <span>同时分析</span>
+                  <select
+                    value={batchConcurrency}
+                    onChange={e => onChangeBatchConcurrency(Number(e.target.value))}
+                    className="bg-transparent text-gray-600 font-bold outline-none"
+                  >
+                    {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                      <option key={n} value={n}>{n} 张</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,62 @@
+
+import React from 'react';
+import { History, AlertTriangle } from 'lucide-react';
+import { WorkspaceSnapshot } from '../types';
+import Button from './Button';
+
+interface RecoveryPromptProps {
+  snapshot: WorkspaceSnapshot | null;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+const RecoveryPrompt: React.FC<RecoveryPromptProps> = ({ snapshot, onRestore, onDiscard }) => {
+  if (!snapshot) return null;
+
+  const issueCount = snapshot.projects.reduce((sum, p) => sum + p.issues.length, 0);
+  const imageCount = snapshot.projects.reduce((sum, p) => sum + p.devImages.length + p.designImages.length, 0);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 flex items-center gap-2 bg-gray-50 text-gray-900 font-bold">
+          <div className="w-8 h-8 bg-amber-500 rounded flex items-center justify-center text-white">
+            <AlertTriangle size={18} />
+          </div>
+          <span>检测到上次未正常退出</span>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600 leading-relaxed">
+            上次的走查会话没有正常关闭（可能是浏览器崩溃或标签页被意外关闭）。是否恢复最近一次自动保存的内容？
+          </p>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="flex flex-col items-center py-2 rounded-xl border border-gray-100 bg-gray-50">
+              <span className="text-[10px] font-bold text-gray-500">页面</span>
+              <span className="text-sm font-black text-gray-800">{snapshot.projects.length}</span>
+            </div>
+            <div className="flex flex-col items-center py-2 rounded-xl border border-gray-100 bg-gray-50">
+              <span className="text-[10px] font-bold text-gray-500">图片</span>
+              <span className="text-sm font-black text-gray-800">{imageCount}</span>
+            </div>
+            <div className="flex flex-col items-center py-2 rounded-xl border border-gray-100 bg-gray-50">
+              <span className="text-[10px] font-bold text-gray-500">问题</span>
+              <span className="text-sm font-black text-gray-800">{issueCount}</span>
+            </div>
+          </div>
+          <p className="text-xs text-gray-400">保存时间: {new Date(snapshot.savedAt).toLocaleString()}</p>
+        </div>
+
+        <div className="p-5 border-t border-gray-100 flex justify-end gap-3 bg-gray-50">
+          <Button variant="secondary" onClick={onDiscard}>放弃并新建</Button>
+          <Button variant="primary" onClick={onRestore}>
+            <History size={16} className="mr-2" />
+            恢复上次会话
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryPrompt;
@@ -158,18 +158,21 @@ const ShareModal: React.FC<ShareModalProps> = ({
                          <div className="grid grid-cols-2 gap-3">
                             <Button variant="secondary" onClick={onExportProject} className="w-full justify-center">
                                 <Download size={16} className="mr-2" />
-                                .dsync 备份
+                                .designsync 导出
                             </Button>
                             <Button variant="secondary" onClick={() => fileInputRef.current?.click()} className="w-full justify-center">
                                 <Upload size={16} className="mr-2" />
                                 导入反馈/备份
                             </Button>
                          </div>
-                         <input 
-                            type="file" 
+                         <p className="text-xs text-gray-500 mt-2 leading-relaxed">
+                            .designsync 项目包包含全部页面、设计稿、实现图、标注与评论，可交给其他设计师继续走查；同时兼容旧版反馈 JSON 和 HTML 报告。
+                         </p>
+                         <input
+                            type="file"
                             ref={fileInputRef} 
                             className="hidden" 
-                            accept=".json,.dsync,.html" 
+                            accept=".designsync,.zip,.json,.dsync,.html" 
                             onChange={handleFileChange} 
                          />
                      </div>
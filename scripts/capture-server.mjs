@@ -0,0 +1,299 @@
+// 本地截图服务：用无头 Chromium 按指定视口、DPR 打开页面并截图，供「从 URL 截图」直接生成实现图。
+// 截图同时记录 DOM 快照（元素位置、选择器与计算样式），用于在标注处查看实际 CSS。
+// 用法：npm run capture（默认 http://localhost:4020）。使用本机已安装的 Chrome/Chromium：
+// 通过 CAPTURE_CHROME 环境变量或 --chrome=<路径> 指定可执行文件，未指定时查找系统安装的 Chrome。
+// 服务只监听 127.0.0.1，且只接受本机页面发起的请求，避免被其他网站借来访问内网页面。
+import http from 'node:http';
+import puppeteer from 'puppeteer-core';
+
+const PORT = Number(process.env.CAPTURE_PORT || 4020);
+const HOST = process.env.CAPTURE_HOST || '127.0.0.1';
+// 额外允许的来源，逗号分隔，如 https://designsync.example.com
+const EXTRA_ORIGINS = (process.env.CAPTURE_ALLOW_ORIGINS || '').split(',').map(s => s.trim()).filter(Boolean);
+// 容器内以 root 运行时 Chromium 需要关闭沙箱
+const NO_SANDBOX = process.env.CAPTURE_NO_SANDBOX === '1';
+const CHROME_PATH = process.argv.find(arg => arg.startsWith('--chrome='))?.slice('--chrome='.length) || process.env.CAPTURE_CHROME || '';
+
+const MAX_BODY = 1024 * 1024;
+const MAX_VIEWPORT = 4096;
+const MAX_DPR = 4;
+const DEFAULT_TIMEOUT = 30000;
+const MAX_TIMEOUT = 120000;
+// DOM 快照保存的元素数上限，超出部分（通常是长列表尾部）丢弃
+const MAX_DOM_ELEMENTS = 4000;
+// 记录的计算样式；TEXT_STYLES 只对直接包含文字的元素记录
+const TEXT_STYLES = ['font-family', 'font-size', 'font-weight', 'line-height', 'letter-spacing', 'color', 'text-align'];
+const BOX_STYLES = [
+  'display', 'flex-direction', 'justify-content', 'align-items', 'gap', 'margin', 'padding',
+  'border', 'border-radius', 'background-color', 'box-shadow', 'opacity',
+];
+
+class CaptureError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const isAllowedOrigin = origin => {
+  if (!origin) return true; // curl 等非浏览器请求
+  if (EXTRA_ORIGINS.includes(origin)) return true;
+  try {
+    return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+};
+
+const send = (req, res, status, body) => {
+  const origin = req.headers.origin;
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    ...(origin && isAllowedOrigin(origin) ? { 'Access-Control-Allow-Origin': origin, Vary: 'Origin' } : {}),
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(status === 204 ? '' : JSON.stringify(body));
+};
+
+const readJson = req =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY) {
+        reject(new CaptureError(413, '请求内容过大'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new CaptureError(400, '请求不是有效的 JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const clamp = (value, min, max, fallback) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.min(Math.max(n, min), max) : fallback;
+};
+
+// 从浏览器开发者工具复制的 "a=1; b=2" 形式，作用于目标页面的域名
+const parseCookies = (header, url) =>
+  header.split(';').map(part => part.trim()).filter(Boolean).map(part => {
+    const index = part.indexOf('=');
+    if (index <= 0) throw new CaptureError(400, `Cookie 格式不正确：${part}`);
+    return { name: part.slice(0, index).trim(), value: part.slice(index + 1).trim(), url };
+  });
+
+// 校验并补全截图参数
+const parseOptions = body => {
+  let url;
+  try {
+    url = new URL(String(body.url || '').trim());
+  } catch {
+    throw new CaptureError(400, '请输入有效的页面地址');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new CaptureError(400, '只支持 http/https 页面');
+  return {
+    url: url.href,
+    width: Math.round(clamp(body.width, 1, MAX_VIEWPORT, 1440)),
+    height: Math.round(clamp(body.height, 1, MAX_VIEWPORT, 900)),
+    dpr: clamp(body.dpr, 0.5, MAX_DPR, 1),
+    mobile: !!body.mobile,
+    fullPage: body.fullPage !== false,
+    waitFor: typeof body.waitFor === 'string' ? body.waitFor.trim() : '',
+    cookies: typeof body.cookies === 'string' ? parseCookies(body.cookies, url.href) : [],
+    timeout: Math.round(clamp(body.timeout, 1000, MAX_TIMEOUT, DEFAULT_TIMEOUT)),
+    dom: body.dom !== false,
+  };
+};
+
+// 在页面中执行：按文档顺序收集可见元素，坐标为相对文档左上角的 CSS px，父元素总在子元素之前
+const collectDom = ({ maxElements, textStyles, boxStyles }) => {
+  const SKIP_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'LINK', 'META', 'BR']);
+  // 与默认值相同的盒模型样式不记录
+  const DEFAULT_VALUES = new Set(['', 'none', 'normal', 'auto', '0px', 'rgba(0, 0, 0, 0)', '1', 'block', 'inline', 'row', 'flex-start', 'stretch', '0px none rgb(0, 0, 0)']);
+  const IDENT = /^-?[A-Za-z_][\w-]*$/;
+
+  const selectorOf = el => {
+    const parts = [];
+    for (let node = el; node && node !== document.body && parts.length < 4; node = node.parentElement) {
+      if (node.id && IDENT.test(node.id)) {
+        parts.unshift(`#${node.id}`);
+        return parts.join(' > ');
+      }
+      const tag = node.tagName.toLowerCase();
+      const classes = [...node.classList].filter(c => IDENT.test(c)).slice(0, 2);
+      let part = tag + classes.map(c => `.${c}`).join('');
+      const siblings = node.parentElement ? [...node.parentElement.children].filter(c => c.tagName === node.tagName) : [];
+      if (siblings.filter(c => classes.every(k => c.classList.contains(k))).length > 1) {
+        part += `:nth-of-type(${siblings.indexOf(node) + 1})`;
+      }
+      parts.unshift(part);
+    }
+    return parts.join(' > ');
+  };
+
+  const ownText = el =>
+    [...el.childNodes].filter(n => n.nodeType === Node.TEXT_NODE).map(n => n.textContent).join(' ').replace(/\s+/g, ' ').trim();
+
+  const elements = [];
+  const visit = (el, parent) => {
+    if (elements.length >= maxElements || SKIP_TAGS.has(el.tagName)) return;
+    const style = getComputedStyle(el);
+    if (style.display === 'none') return;
+    const rect = el.getBoundingClientRect();
+    let index = parent;
+    // visibility: hidden 与 display: contents 的元素本身不记录，子元素仍可能可见
+    if (style.visibility !== 'hidden' && rect.width > 0 && rect.height > 0) {
+      const text = ownText(el);
+      const styles = {};
+      boxStyles.forEach(prop => {
+        const value = style.getPropertyValue(prop);
+        if (!DEFAULT_VALUES.has(value) && !value.startsWith('0px none')) styles[prop] = value;
+      });
+      if (text) textStyles.forEach(prop => { styles[prop] = style.getPropertyValue(prop); });
+      index = elements.length;
+      elements.push({
+        selector: selectorOf(el),
+        tag: el.tagName.toLowerCase(),
+        ...(text ? { text: text.slice(0, 80) } : {}),
+        ...(parent !== undefined ? { parent } : {}),
+        x: Math.round((rect.left + scrollX) * 100) / 100,
+        y: Math.round((rect.top + scrollY) * 100) / 100,
+        width: Math.round(rect.width * 100) / 100,
+        height: Math.round(rect.height * 100) / 100,
+        styles,
+      });
+    }
+    [...el.children].forEach(child => visit(child, index));
+  };
+  [...document.body.children].forEach(child => visit(child, undefined));
+  return elements;
+};
+
+// PNG 头部 IHDR 中的像素宽高
+const pngSize = buffer => ({ width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) });
+
+let browserPromise = null;
+
+// 浏览器在首次截图时启动并复用；崩溃或被关闭后下次请求重新启动
+const getBrowser = () => {
+  if (!browserPromise) {
+    browserPromise = puppeteer.launch({
+      ...(CHROME_PATH ? { executablePath: CHROME_PATH } : { channel: 'chrome' }),
+      args: NO_SANDBOX ? ['--no-sandbox', '--disable-setuid-sandbox'] : [],
+    }).then(
+      browser => {
+        browser.on('disconnected', () => { browserPromise = null; });
+        return browser;
+      },
+      e => {
+        browserPromise = null;
+        throw new CaptureError(500, `无法启动 Chromium：${e.message}（可用 CAPTURE_CHROME 或 --chrome= 指定浏览器路径）`);
+      }
+    );
+  }
+  return browserPromise;
+};
+
+const capture = async options => {
+  const browser = await getBrowser();
+  // 每次截图使用独立的上下文，Cookie 与缓存互不影响
+  const context = await browser.createBrowserContext();
+  try {
+    const page = await context.newPage();
+    page.setDefaultTimeout(options.timeout);
+    await page.setViewport({
+      width: options.width,
+      height: options.height,
+      deviceScaleFactor: options.dpr,
+      isMobile: options.mobile,
+      hasTouch: options.mobile,
+    });
+    if (options.cookies.length > 0) await page.setCookie(...options.cookies);
+
+    let response;
+    try {
+      response = await page.goto(options.url, { waitUntil: 'networkidle2', timeout: options.timeout });
+    } catch (e) {
+      if (e.name === 'TimeoutError') throw new CaptureError(504, `页面加载超时（${options.timeout / 1000}s）`);
+      throw new CaptureError(502, `页面打开失败：${e.message}`);
+    }
+    if (response && response.status() >= 400) throw new CaptureError(502, `页面返回 ${response.status()}`);
+    if (options.waitFor) {
+      try {
+        await page.waitForSelector(options.waitFor, { visible: true, timeout: options.timeout });
+      } catch (e) {
+        if (e.name === 'TimeoutError') throw new CaptureError(504, `等待元素 ${options.waitFor} 超时`);
+        throw new CaptureError(400, `等待元素的选择器无效：${options.waitFor}`);
+      }
+    }
+    // Web 字体加载完成前截图会出现回退字体
+    await page.evaluate(() => document.fonts.ready);
+
+    // 在截图前记录，避免整页截图过程中触发的懒加载改变布局
+    const elements = options.dom
+      ? await page.evaluate(collectDom, { maxElements: MAX_DOM_ELEMENTS, textStyles: TEXT_STYLES, boxStyles: BOX_STYLES })
+      : null;
+    const image = Buffer.from(await page.screenshot({ type: 'png', fullPage: options.fullPage }));
+    const size = pngSize(image);
+    return {
+      data: `data:image/png;base64,${image.toString('base64')}`,
+      title: await page.title(),
+      url: page.url(),
+      // 截图覆盖的页面范围（CSS px），与截图像素等比
+      ...(elements ? { dom: { width: size.width / options.dpr, height: size.height / options.dpr, elements } } : {}),
+    };
+  } finally {
+    await context.close().catch(() => {});
+  }
+};
+
+// 单核机器上并发打开多个页面很容易耗尽内存，截图请求按顺序执行
+let queue = Promise.resolve();
+const enqueue = task => {
+  const run = queue.then(task, task);
+  queue = run.catch(() => {});
+  return run;
+};
+
+const server = http.createServer(async (req, res) => {
+  if (!isAllowedOrigin(req.headers.origin)) return send(req, res, 403, { error: '不允许该来源访问截图服务' });
+  if (req.method === 'OPTIONS') return send(req, res, 204);
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    return send(req, res, 200, { ok: true });
+  }
+  if (req.method !== 'POST' || url.pathname !== '/capture') return send(req, res, 404, { error: 'Not found' });
+
+  try {
+    const options = parseOptions(await readJson(req));
+    console.log(`capture ${options.url} ${options.width}x${options.height}@${options.dpr}x${options.fullPage ? ' full page' : ''}`);
+    const result = await enqueue(() => capture(options));
+    send(req, res, 200, result);
+  } catch (e) {
+    if (!(e instanceof CaptureError)) console.error(e);
+    send(req, res, e instanceof CaptureError ? e.status : 500, { error: e.message || '截图失败' });
+  }
+});
+
+const shutdown = async () => {
+  server.close();
+  if (browserPromise) await browserPromise.then(browser => browser.close(), () => {});
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+server.listen(PORT, HOST, () => {
+  console.log(`Capture service: http://${HOST === '127.0.0.1' ? 'localhost' : HOST}:${PORT}`);
+});
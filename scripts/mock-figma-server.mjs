@@ -0,0 +1,200 @@
+// 本地 mock Figma REST API，用于在没有 Figma 账号/网络时调试导入流程。
+// 用法：npm run mock:figma，然后在导入弹窗中把 API 地址设为 http://localhost:4010，Token 填 mock-token，
+// 链接填 https://www.figma.com/design/MOCKFILE/Mock?node-id=1-2（或去掉 node-id 导入全部 Frame）。
+// 调试重新同步：curl -X POST http://localhost:4010/mock/revision 切换到修改后的设计（卡片下移、标题改字），再次调用切回。
+import http from 'node:http';
+import zlib from 'node:zlib';
+
+const PORT = Number(process.env.PORT || 4010);
+const TOKEN = process.env.FIGMA_MOCK_TOKEN || 'mock-token';
+const FILE_KEY = 'MOCKFILE';
+
+// 0 为初版设计，1 为修改后的设计
+let revision = 0;
+
+const rgb = ([r, g, b]) => ({ r: r / 255, g: g / 255, b: b / 255, a: 1 });
+const solid = color => [{ type: 'SOLID', color: rgb(color) }];
+const box = (x, y, width, height) => ({ x: 1000 + x, y: 2000 + y, width, height });
+
+const text = (id, name, characters, x, y, width, fontSize, lineHeightPx, fontWeight) => ({
+  id,
+  name,
+  type: 'TEXT',
+  characters,
+  absoluteBoundingBox: box(x, y, width, lineHeightPx),
+  fills: solid([15, 23, 42]),
+  style: { fontFamily: 'Inter', fontWeight, fontSize, lineHeightPx, letterSpacing: 0 },
+});
+
+// 节点几何与 renderPng 绘制的内容一致：顶部导航条 + Auto layout 卡片（padding 16，gap 8）
+// Frame 的绝对坐标不在原点，导入时需要换算为相对坐标
+const frame = (prefix, name, width, height, color, revised = false, top = revised ? 160 : 120) => ({
+  id: `${prefix}:2`,
+  name,
+  type: 'FRAME',
+  absoluteBoundingBox: box(0, 0, width, height),
+  fills: solid([255, 255, 255]),
+  color,
+  cardTop: top,
+  children: [
+    {
+      id: `${prefix}:10`,
+      name: 'Nav Bar',
+      type: 'FRAME',
+      absoluteBoundingBox: box(0, 0, width, 64),
+      fills: solid(color),
+      children: [],
+    },
+    {
+      id: `${prefix}:20`,
+      name: 'Card',
+      type: 'FRAME',
+      absoluteBoundingBox: box(24, top, width - 48, 200),
+      fills: solid([241, 245, 249]),
+      cornerRadius: 12,
+      layoutMode: 'VERTICAL',
+      paddingTop: 16,
+      paddingRight: 16,
+      paddingBottom: 16,
+      paddingLeft: 16,
+      itemSpacing: 8,
+      children: [
+        text(`${prefix}:21`, 'Title', revised ? '新的卡片标题' : '卡片标题', 40, top + 16, width - 80, 18, 26, 600),
+        text(`${prefix}:22`, 'Body', '这里是一段说明文字', 40, top + 50, width - 80, 14, 20, 400),
+        { id: `${prefix}:23`, name: 'Hidden badge', type: 'FRAME', visible: false, absoluteBoundingBox: box(40, top + 80, 40, 20) },
+      ],
+    },
+  ],
+});
+
+// 详情页在修改后的设计中保持不变
+const buildFrames = () => [
+  frame('1', '首页 / iPhone 14', 390, 844, [79, 70, 229], revision === 1),
+  frame('3', '详情页 / iPhone 14', 390, 844, [16, 185, 129]),
+];
+
+const buildDocument = frames => ({
+  id: '0:0',
+  name: 'Document',
+  type: 'DOCUMENT',
+  children: [{ id: '0:1', name: 'Page 1', type: 'CANVAS', children: frames }],
+});
+
+let FRAMES = buildFrames();
+let DOCUMENT = buildDocument(FRAMES);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = buf => {
+  let c = 0xffffffff;
+  for (const b of buf) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type, data) => {
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([len, body, crc]);
+};
+
+// 纯色背景 + 顶部导航条 + 中间卡片，便于叠加对齐
+const renderPng = (node, scale) => {
+  const width = Math.round(node.absoluteBoundingBox.width * scale);
+  const height = Math.round(node.absoluteBoundingBox.height * scale);
+  const raw = Buffer.alloc((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (width * 3 + 1);
+    raw[row] = 0;
+    for (let x = 0; x < width; x++) {
+      const inBar = y < 64 * scale;
+      const inCard = x >= 24 * scale && x < width - 24 * scale && y >= node.cardTop * scale && y < (node.cardTop + 200) * scale;
+      const rgb = inBar ? node.color : inCard ? [241, 245, 249] : [255, 255, 255];
+      raw.set(rgb, row + 1 + x * 3);
+    }
+  }
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 2; // RGB
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+const findNode = id => (id === '0:1' ? DOCUMENT.children[0] : FRAMES.find(f => f.id === id));
+
+// GET /v1/files/:key?depth=2 只返回到页面的直接子节点
+const truncate = (node, depth) => ({ ...node, children: depth > 0 ? node.children?.map(c => truncate(c, depth - 1)) : undefined });
+
+const send = (res, status, body, type = 'application/json') => {
+  res.writeHead(status, {
+    'Content-Type': type,
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'X-Figma-Token, Content-Type',
+  });
+  res.end(type === 'application/json' ? JSON.stringify(body) : body);
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, '', 'text/plain');
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  console.log(req.method, url.pathname + url.search);
+
+  if (req.method === 'POST' && url.pathname === '/mock/revision') {
+    revision = 1 - revision;
+    FRAMES = buildFrames();
+    DOCUMENT = buildDocument(FRAMES);
+    return send(res, 200, { revision });
+  }
+
+  // 图片下载地址不需要 token，与 Figma 返回的 S3 链接一致
+  const image = /^\/images\/([^/]+)\/([^/]+)@(\d+(?:\.\d+)?)x\.png$/.exec(url.pathname);
+  if (image) {
+    const node = findNode(decodeURIComponent(image[2]));
+    if (!node || node.type === 'CANVAS') return send(res, 404, { status: 404, err: 'Not found' });
+    return send(res, 200, renderPng(node, Number(image[3])), 'image/png');
+  }
+
+  if (req.headers['x-figma-token'] !== TOKEN) return send(res, 403, { status: 403, err: 'Invalid token' });
+
+  const nodes = /^\/v1\/files\/([^/]+)\/nodes$/.exec(url.pathname);
+  const file = /^\/v1\/files\/([^/]+)$/.exec(url.pathname);
+  const images = /^\/v1\/images\/([^/]+)$/.exec(url.pathname);
+  const key = (nodes || file || images)?.[1];
+  if (!key) return send(res, 404, { status: 404, err: 'Not found' });
+  if (key !== FILE_KEY) return send(res, 404, { status: 404, err: 'Not found' });
+
+  const ids = (url.searchParams.get('ids') || '').split(',').filter(Boolean);
+  if (nodes) {
+    return send(res, 200, {
+      name: 'Mock Design',
+      lastModified: new Date().toISOString(),
+      nodes: Object.fromEntries(ids.map(id => [id, findNode(id) ? { document: findNode(id) } : null])),
+    });
+  }
+  if (file) {
+    const depth = Number(url.searchParams.get('depth') || Infinity);
+    return send(res, 200, { name: 'Mock Design', lastModified: new Date().toISOString(), document: truncate(DOCUMENT, depth) });
+  }
+  const scale = Number(url.searchParams.get('scale') || 1);
+  const base = `http://${req.headers.host}`;
+  return send(res, 200, {
+    err: null,
+    images: Object.fromEntries(ids.map(id => [id, findNode(id) ? `${base}/images/${key}/${encodeURIComponent(id)}@${scale}x.png` : null])),
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Figma API: http://localhost:${PORT} (token: ${TOKEN}, file key: ${FILE_KEY})`);
+});
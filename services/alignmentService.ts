@@ -0,0 +1,235 @@
+import { loadImage } from './imageService';
+
+// 设计稿与实现图的自动配准：粗配准用相位相关 (FFT)，精配准在原始分辨率上做局部搜索
+
+export interface AlignmentOptions {
+  allowScale: boolean; // 是否同时估计统一缩放（如 @3x 设计稿 vs @2x 截图）
+}
+
+export interface AlignmentResult {
+  offset: { x: number; y: number }; // 设计稿相对实现图的平移 (实现图 px)
+  scale: number; // 设计稿缩放倍数
+  confidence: number; // 0-1，相位相关峰值
+}
+
+// 粗配准时实现图缩放到的宽度 (px)
+const COARSE_WIDTH = 128;
+// 精配准最多采样的像素数
+const REFINE_SAMPLES = 40000;
+// 常见的倍率关系：@1x/@2x/@3x 之间互相换算
+const COMMON_SCALES = [1, 0.5, 2, 2 / 3, 1.5, 1 / 3, 3];
+
+const toGray = (img: HTMLImageElement, width: number, height: number): Float32Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const data = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  const gray = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+const nextPow2 = (n: number) => 1 << Math.ceil(Math.log2(Math.max(2, n)));
+
+// 原地迭代 radix-2 FFT
+const fft1d = (re: Float64Array, im: Float64Array, inverse: boolean) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+};
+
+const fft2d = (re: Float64Array, im: Float64Array, w: number, h: number, inverse: boolean) => {
+  const rowRe = new Float64Array(w);
+  const rowIm = new Float64Array(w);
+  for (let y = 0; y < h; y++) {
+    rowRe.set(re.subarray(y * w, (y + 1) * w));
+    rowIm.set(im.subarray(y * w, (y + 1) * w));
+    fft1d(rowRe, rowIm, inverse);
+    re.set(rowRe, y * w);
+    im.set(rowIm, y * w);
+  }
+  const colRe = new Float64Array(h);
+  const colIm = new Float64Array(h);
+  for (let x = 0; x < w; x++) {
+    for (let y = 0; y < h; y++) {
+      colRe[y] = re[y * w + x];
+      colIm[y] = im[y * w + x];
+    }
+    fft1d(colRe, colIm, inverse);
+    for (let y = 0; y < h; y++) {
+      re[y * w + x] = colRe[y];
+      im[y * w + x] = colIm[y];
+    }
+  }
+};
+
+// 去均值后零填充到 w*h 的复数数组
+const toPadded = (gray: Float32Array, gw: number, gh: number, w: number, h: number) => {
+  let mean = 0;
+  for (let i = 0; i < gray.length; i++) mean += gray[i];
+  mean /= gray.length || 1;
+  const re = new Float64Array(w * h);
+  for (let y = 0; y < gh; y++) {
+    for (let x = 0; x < gw; x++) re[y * w + x] = gray[y * gw + x] - mean;
+  }
+  return { re, im: new Float64Array(w * h) };
+};
+
+/**
+ * 相位相关：返回使 dev(p) ≈ design(p - shift) 的平移量以及峰值强度。
+ */
+const phaseCorrelate = (
+  design: Float32Array, dw: number, dh: number,
+  dev: Float32Array, vw: number, vh: number
+) => {
+  const w = nextPow2(Math.max(dw, vw) * 2);
+  const h = nextPow2(Math.max(dh, vh) * 2);
+  const a = toPadded(design, dw, dh, w, h);
+  const b = toPadded(dev, vw, vh, w, h);
+  fft2d(a.re, a.im, w, h, false);
+  fft2d(b.re, b.im, w, h, false);
+
+  // R = B * conj(A) / |B * conj(A)|
+  for (let i = 0; i < w * h; i++) {
+    const re = b.re[i] * a.re[i] + b.im[i] * a.im[i];
+    const im = b.im[i] * a.re[i] - b.re[i] * a.im[i];
+    const mag = Math.hypot(re, im) || 1;
+    a.re[i] = re / mag;
+    a.im[i] = im / mag;
+  }
+  fft2d(a.re, a.im, w, h, true);
+
+  let peak = -Infinity;
+  let peakIndex = 0;
+  for (let i = 0; i < w * h; i++) {
+    if (a.re[i] > peak) {
+      peak = a.re[i];
+      peakIndex = i;
+    }
+  }
+  let x = peakIndex % w;
+  let y = (peakIndex - x) / w;
+  if (x > w / 2) x -= w;
+  if (y > h / 2) y -= h;
+  return { x, y, peak };
+};
+
+// 在粗配准结果附近逐像素搜索，取平均灰度差最小的平移
+const refineOffset = (
+  design: Float32Array, dw: number, dh: number,
+  dev: Float32Array, vw: number, vh: number,
+  initial: { x: number; y: number }, radius: number
+) => {
+  const stride = Math.max(1, Math.floor(Math.sqrt((vw * vh) / REFINE_SAMPLES)));
+  let best = { x: Math.round(initial.x), y: Math.round(initial.y) };
+  let bestScore = Infinity;
+
+  for (let oy = best.y - radius; oy <= best.y + radius; oy++) {
+    for (let ox = best.x - radius; ox <= best.x + radius; ox++) {
+      let sum = 0;
+      let count = 0;
+      for (let y = 0; y < vh; y += stride) {
+        const sy = y - oy;
+        if (sy < 0 || sy >= dh) continue;
+        for (let x = 0; x < vw; x += stride) {
+          const sx = x - ox;
+          if (sx < 0 || sx >= dw) continue;
+          sum += Math.abs(dev[y * vw + x] - design[sy * dw + sx]);
+          count++;
+        }
+      }
+      // 重叠区域过小的平移不可信
+      if (count < 100) continue;
+      const score = sum / count;
+      if (score < bestScore) {
+        bestScore = score;
+        best = { x: ox, y: oy };
+      }
+    }
+  }
+  return best;
+};
+
+export const computeAlignment = async (
+  designImage: string,
+  devImage: string,
+  options: AlignmentOptions = { allowScale: false }
+): Promise<AlignmentResult> => {
+  const [design, dev] = await Promise.all([loadImage(designImage), loadImage(devImage)]);
+  const vw = dev.naturalWidth;
+  const vh = dev.naturalHeight;
+  const factor = Math.max(1, vw / COARSE_WIDTH);
+  const coarseDev = toGray(dev, vw / factor, vh / factor);
+  const cvw = Math.max(1, Math.round(vw / factor));
+  const cvh = Math.max(1, Math.round(vh / factor));
+
+  const widthRatio = vw / design.naturalWidth;
+  const candidates = options.allowScale
+    ? Array.from(new Set([1, widthRatio, ...COMMON_SCALES].map(s => Math.round(s * 1000) / 1000)))
+        .filter(s => s >= 0.25 && s <= 4)
+    : [1];
+
+  let best: { scale: number; x: number; y: number; peak: number } | null = null;
+  for (const scale of candidates) {
+    const cdw = Math.max(1, Math.round((design.naturalWidth * scale) / factor));
+    const cdh = Math.max(1, Math.round((design.naturalHeight * scale) / factor));
+    const coarseDesign = toGray(design, cdw, cdh);
+    const result = phaseCorrelate(coarseDesign, cdw, cdh, coarseDev, cvw, cvh);
+    if (!best || result.peak > best.peak) best = { scale, ...result };
+  }
+  if (!best) throw new Error('无法计算对齐结果');
+
+  const dw = Math.round(design.naturalWidth * best.scale);
+  const dh = Math.round(design.naturalHeight * best.scale);
+  const offset = refineOffset(
+    toGray(design, dw, dh), dw, dh,
+    toGray(dev, vw, vh), vw, vh,
+    { x: best.x * factor, y: best.y * factor },
+    Math.ceil(factor) + 1
+  );
+
+  return {
+    offset,
+    scale: best.scale,
+    confidence: Math.max(0, Math.min(1, best.peak)),
+  };
+};
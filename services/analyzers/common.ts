@@ -0,0 +1,186 @@
+import { AiAnalysisResult, AnalyzerProvider } from '../../types';
+
+export type AnalysisStage = 'preparing' | 'requesting' | 'receiving' | 'retrying' | 'parsing';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  percent: number; // 0-100
+  attempt?: number; // 重试时为第几次重试
+  retryReason?: AnalyzerErrorKind; // 重试时上一次失败的原因
+  tile?: number; // 分块分析时当前块序号 (从 1 开始)
+  tileCount?: number;
+}
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+  // 叠加对齐参数（实现图 px），分块时按此把设计稿放到实现图坐标；未设置时按宽度等比缩放
+  alignment?: { offset: { x: number; y: number }; scale: number };
+}
+
+// 所有 AI 服务统一返回经过校验的结论（见 findingSchema.ts）
+export interface VisionAnalyzer {
+  readonly provider: AnalyzerProvider;
+  analyze(designImage: string, devImage: string, options?: AnalyzeOptions): Promise<AiAnalysisResult>;
+}
+
+export type AnalyzerErrorKind = 'aborted' | 'rate_limit' | 'auth' | 'network' | 'server' | 'invalid_response' | 'unknown';
+
+export class AnalyzerError extends Error {
+  readonly kind: AnalyzerErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: AnalyzerErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'AnalyzerError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable() {
+    return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+const kindFromStatus = (status: number): AnalyzerErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+// Retry-After 可能是秒数，也可能是 HTTP 日期
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const errorFromResponse = async (response: Response, serviceName: string): Promise<AnalyzerError> => {
+  const text = await response.text().catch(() => '');
+  console.error(`${serviceName} Error:`, text);
+  return new AnalyzerError(kindFromStatus(response.status), `${serviceName}请求失败 (${response.status})`, {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+  });
+};
+
+export const toAnalyzerError = (error: unknown, signal?: AbortSignal): AnalyzerError => {
+  if (error instanceof AnalyzerError) return error;
+  if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
+    return new AnalyzerError('aborted', '分析已取消');
+  }
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    return new AnalyzerError(kindFromStatus(status), (error as Error).message || `请求失败 (${status})`, { status });
+  }
+  // fetch 在网络不可达、跨域被拒时抛出 TypeError
+  if (error instanceof TypeError) return new AnalyzerError('network', '无法连接到 AI 服务，请检查网络或服务地址');
+  return new AnalyzerError('unknown', error instanceof Error ? error.message : String(error));
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new AnalyzerError('aborted', '分析已取消');
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new AnalyzerError('aborted', '分析已取消'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AnalyzerError('aborted', '分析已取消'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// 流式响应无法预知总长度，按已接收字符数渐近地推进到 90%
+export const receivingPercent = (receivedChars: number) =>
+  Math.round(40 + 50 * (1 - Math.exp(-receivedChars / 1500)));
+
+// 按行读取流式响应（SSE 与 NDJSON 通用）
+export const readLines = async (response: Response, onLine: (line: string) => void) => {
+  if (!response.body) {
+    (await response.text()).split('\n').map(l => l.trim()).filter(Boolean).forEach(onLine);
+    return;
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.map(l => l.trim()).filter(Boolean).forEach(onLine);
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) onLine(buffer.trim());
+};
+
+export const ANALYSIS_PROMPT = `
+    你是一位顶级的视觉还原走查工程师。请对比“设计稿”与“开发实现图”，进行像素级深度分析。
+
+    分析要求：
+    1. 必须使用“中文”输出 title、description 和 suggestion。
+    2. 检查布局对齐、文字字号、间距和颜色差异。
+    3. 给出修复该差异的 CSS 建议。
+    4. 准确识别差异区域的坐标 boundingBox [ymin, xmin, ymax, xmax] (0-1000 坐标系)。
+  `;
+
+// 不支持结构化输出的服务需要在提示词中说明 JSON 格式
+export const JSON_FORMAT_PROMPT = `
+    仅输出 JSON，不要输出其他内容，格式如下：
+    {"findings": [{"title": "", "description": "", "suggestion": "", "severity": "low|medium|high|critical", "boundingBox": [ymin, xmin, ymax, xmax]}]}
+  `;
+
+export async function optimizeImage(base64: string, maxWidth = 1024): Promise<string> {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.src = base64;
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      let width = img.width;
+      let height = img.height;
+
+      if (width > maxWidth) {
+        height = (maxWidth / width) * height;
+        width = maxWidth;
+      }
+
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(img, 0, 0, width, height);
+      }
+      resolve(canvas.toDataURL('image/jpeg', 0.8).split(',')[1]);
+    };
+  });
+}
+
+// 兼容 ```json 代码块、裸数组以及 { findings: [] } 包装
+export const parseFindingsText = (text: string): unknown[] => {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  if (!cleaned) return [];
+  let parsed: any;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch {
+    throw new AnalyzerError('invalid_response', 'AI 返回的内容不是有效的 JSON');
+  }
+  if (Array.isArray(parsed)) return parsed;
+  if (parsed && Array.isArray(parsed.findings)) return parsed.findings;
+  if (parsed && Array.isArray(parsed.issues)) return parsed.issues;
+  return [];
+};
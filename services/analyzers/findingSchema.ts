@@ -0,0 +1,106 @@
+import { AiAnalysisResult, AiBoundingBox, AiFinding, Issue } from '../../types';
+
+// 模型输出的运行时校验：字段类型、严重程度、坐标范围，以及重叠结论的去重
+
+export const GRID_SIZE = 1000;
+// 两个区域的交并比超过该值即视为同一处差异
+const DEDUPE_IOU = 0.6;
+// 裁剪后宽或高小于该值 (0-1000 坐标) 的区域不可见，直接丢弃区域
+const MIN_BOX_SIZE = 1;
+
+const SEVERITIES: Issue['severity'][] = ['low', 'medium', 'high', 'critical'];
+const SEVERITY_RANK: Record<Issue['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const toNumber = (value: unknown): number | null => {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+const clamp = (n: number) => Math.min(GRID_SIZE, Math.max(0, n));
+
+/**
+ * 校验并裁剪到 0-1000 网格；顺序颠倒的坐标会被纠正，无效或裁剪后不可见的区域返回 undefined。
+ */
+export const parseBoundingBox = (value: unknown): AiBoundingBox | undefined => {
+  if (!Array.isArray(value) || value.length !== 4) return undefined;
+  const nums = value.map(toNumber);
+  if (nums.some(n => n === null)) return undefined;
+  const [y0, x0, y1, x1] = nums as number[];
+  const box: AiBoundingBox = [
+    clamp(Math.min(y0, y1)),
+    clamp(Math.min(x0, x1)),
+    clamp(Math.max(y0, y1)),
+    clamp(Math.max(x0, x1)),
+  ];
+  if (box[2] - box[0] < MIN_BOX_SIZE || box[3] - box[1] < MIN_BOX_SIZE) return undefined;
+  return box;
+};
+
+const toText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * 单条结论的校验：必须是对象且带非空标题，否则视为格式异常（返回 null）。
+ */
+export const parseFinding = (raw: unknown): AiFinding | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const item = raw as Record<string, unknown>;
+  const title = toText(item.title);
+  if (!title) return null;
+
+  const severity = toText(item.severity).toLowerCase() as Issue['severity'];
+  const finding: AiFinding = {
+    title,
+    description: toText(item.description),
+    suggestion: toText(item.suggestion),
+    severity: SEVERITIES.includes(severity) ? severity : 'medium',
+  };
+  const boundingBox = parseBoundingBox(item.boundingBox);
+  if (boundingBox) finding.boundingBox = boundingBox;
+  return finding;
+};
+
+export const boxIoU = (a: AiBoundingBox, b: AiBoundingBox): number => {
+  const h = Math.min(a[2], b[2]) - Math.max(a[0], b[0]);
+  const w = Math.min(a[3], b[3]) - Math.max(a[1], b[1]);
+  if (h <= 0 || w <= 0) return 0;
+  const inter = h * w;
+  const areaA = (a[2] - a[0]) * (a[3] - a[1]);
+  const areaB = (b[2] - b[0]) * (b[3] - b[1]);
+  return inter / (areaA + areaB - inter);
+};
+
+const isDuplicate = (a: AiFinding, b: AiFinding) => {
+  if (a.boundingBox && b.boundingBox) return boxIoU(a.boundingBox, b.boundingBox) >= DEDUPE_IOU;
+  if (!a.boundingBox && !b.boundingBox) return a.title === b.title;
+  return false;
+};
+
+/**
+ * 合并指向同一区域的结论，保留严重程度更高的一条（相同时保留先出现的）。
+ */
+export const dedupeFindings = (findings: AiFinding[]): { findings: AiFinding[]; merged: number } => {
+  const kept: AiFinding[] = [];
+  let merged = 0;
+  findings.forEach(finding => {
+    const index = kept.findIndex(k => isDuplicate(k, finding));
+    if (index === -1) {
+      kept.push(finding);
+      return;
+    }
+    merged++;
+    if (SEVERITY_RANK[finding.severity] > SEVERITY_RANK[kept[index].severity]) kept[index] = finding;
+  });
+  return { findings: kept, merged };
+};
+
+export const validateFindings = (raw: unknown[]): AiAnalysisResult => {
+  const valid: AiFinding[] = [];
+  let discarded = 0;
+  raw.forEach(item => {
+    const finding = parseFinding(item);
+    if (finding) valid.push(finding);
+    else discarded++;
+  });
+  const { findings, merged } = dedupeFindings(valid);
+  return { findings, discarded, merged };
+};
@@ -0,0 +1,67 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AnalyzerSettings } from '../../types';
+import { ANALYSIS_PROMPT, VisionAnalyzer, optimizeImage, parseFindingsText, receivingPercent, throwIfAborted } from './common';
+import { validateFindings } from './findingSchema';
+
+export const createGeminiAnalyzer = (settings: AnalyzerSettings): VisionAnalyzer => ({
+  provider: 'gemini',
+  analyze: async (designImageBase64, devImageBase64, { signal, onProgress } = {}) => {
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+
+    onProgress?.({ stage: 'preparing', percent: 5 });
+    const [cleanDesign, cleanDev] = await Promise.all([
+      optimizeImage(designImageBase64),
+      optimizeImage(devImageBase64)
+    ]);
+    throwIfAborted(signal);
+
+    try {
+      onProgress?.({ stage: 'requesting', percent: 20 });
+      const stream = await ai.models.generateContentStream({
+        model: settings.model || "gemini-3-flash-preview",
+        contents: {
+          parts: [
+            { text: "设计稿（基准）:" },
+            { inlineData: { mimeType: "image/jpeg", data: cleanDesign } },
+            { text: "开发实现图（待测）:" },
+            { inlineData: { mimeType: "image/jpeg", data: cleanDev } },
+            { text: ANALYSIS_PROMPT },
+          ],
+        },
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                title: { type: Type.STRING },
+                description: { type: Type.STRING },
+                suggestion: { type: Type.STRING },
+                severity: { type: Type.STRING, enum: ["low", "medium", "high", "critical"] },
+                boundingBox: {
+                   type: Type.ARRAY,
+                   items: { type: Type.NUMBER },
+                   description: "[ymin, xmin, ymax, xmax] 0-1000 scale"
+                }
+              },
+              required: ["title", "description", "suggestion", "severity"],
+            },
+          },
+        },
+      });
+
+      let text = '';
+      for await (const chunk of stream) {
+        text += chunk.text ?? '';
+        onProgress?.({ stage: 'receiving', percent: receivingPercent(text.length) });
+      }
+      onProgress?.({ stage: 'parsing', percent: 95 });
+      return validateFindings(text ? parseFindingsText(text) : []);
+    } catch (error) {
+      console.error("Gemini Error:", error);
+      throw error;
+    }
+  }
+});
@@ -0,0 +1,33 @@
+import { AiFinding } from '../../types';
+import { VisionAnalyzer, sleep } from './common';
+import { validateFindings } from './findingSchema';
+
+// 固定返回的示例结果，便于离线演示和测试
+export const MOCK_FINDINGS: AiFinding[] = [
+  {
+    title: '标题字号偏大',
+    description: '实现图中的页面标题比设计稿大约 2px，导致标题换行。',
+    suggestion: 'font-size: 18px;',
+    severity: 'medium',
+    boundingBox: [40, 60, 90, 640],
+  },
+  {
+    title: '按钮主色不一致',
+    description: '主按钮背景色与设计稿存在明显色差。',
+    suggestion: 'background-color: #4F46E5;',
+    severity: 'high',
+    boundingBox: [820, 80, 900, 920],
+  },
+];
+
+export const createMockAnalyzer = (delay = 600): VisionAnalyzer => ({
+  provider: 'mock',
+  analyze: async (_designImage, _devImage, { signal, onProgress } = {}) => {
+    onProgress?.({ stage: 'requesting', percent: 20 });
+    await sleep(delay / 2, signal);
+    onProgress?.({ stage: 'receiving', percent: 60 });
+    await sleep(delay / 2, signal);
+    onProgress?.({ stage: 'parsing', percent: 95 });
+    return validateFindings(MOCK_FINDINGS.map(f => ({ ...f })));
+  }
+});
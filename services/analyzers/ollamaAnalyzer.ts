@@ -0,0 +1,50 @@
+import { AnalyzerSettings } from '../../types';
+import { ANALYSIS_PROMPT, JSON_FORMAT_PROMPT, VisionAnalyzer, errorFromResponse, optimizeImage, parseFindingsText, readLines, receivingPercent, throwIfAborted } from './common';
+import { validateFindings } from './findingSchema';
+
+// 本地 Ollama 风格的 HTTP 服务：POST /api/chat，图片以 base64 数组传入
+export const createOllamaAnalyzer = (settings: AnalyzerSettings): VisionAnalyzer => ({
+  provider: 'ollama',
+  analyze: async (designImageBase64, devImageBase64, { signal, onProgress } = {}) => {
+    onProgress?.({ stage: 'preparing', percent: 5 });
+    const [cleanDesign, cleanDev] = await Promise.all([
+      optimizeImage(designImageBase64),
+      optimizeImage(devImageBase64)
+    ]);
+    throwIfAborted(signal);
+
+    const baseUrl = (settings.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+    onProgress?.({ stage: 'requesting', percent: 20 });
+    const response = await fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: settings.model,
+        stream: true,
+        format: 'json',
+        messages: [
+          {
+            role: 'user',
+            content: `第一张图是设计稿（基准），第二张图是开发实现图（待测）。${ANALYSIS_PROMPT}${JSON_FORMAT_PROMPT}`,
+            images: [cleanDesign, cleanDev]
+          }
+        ]
+      })
+    });
+
+    if (!response.ok) throw await errorFromResponse(response, '本地模型');
+
+    // NDJSON：每行一个 { message: { content }, done }
+    let content = '';
+    await readLines(response, line => {
+      const chunk = JSON.parse(line);
+      if (chunk.error) throw new Error(chunk.error);
+      if (typeof chunk.message?.content !== 'string') return;
+      content += chunk.message.content;
+      onProgress?.({ stage: 'receiving', percent: receivingPercent(content.length) });
+    });
+    onProgress?.({ stage: 'parsing', percent: 95 });
+    return validateFindings(parseFindingsText(content));
+  }
+});
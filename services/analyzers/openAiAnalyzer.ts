@@ -0,0 +1,60 @@
+import { AnalyzerSettings } from '../../types';
+import { ANALYSIS_PROMPT, JSON_FORMAT_PROMPT, VisionAnalyzer, errorFromResponse, optimizeImage, parseFindingsText, readLines, receivingPercent, throwIfAborted } from './common';
+import { validateFindings } from './findingSchema';
+
+// OpenAI Chat Completions 兼容接口（OpenAI、Azure 网关、vLLM、LM Studio 等）
+export const createOpenAiAnalyzer = (settings: AnalyzerSettings): VisionAnalyzer => ({
+  provider: 'openai',
+  analyze: async (designImageBase64, devImageBase64, { signal, onProgress } = {}) => {
+    onProgress?.({ stage: 'preparing', percent: 5 });
+    const [cleanDesign, cleanDev] = await Promise.all([
+      optimizeImage(designImageBase64),
+      optimizeImage(devImageBase64)
+    ]);
+    throwIfAborted(signal);
+
+    const baseUrl = (settings.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    onProgress?.({ stage: 'requesting', percent: 20 });
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { 'Authorization': `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        stream: true,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: ANALYSIS_PROMPT + JSON_FORMAT_PROMPT },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: '设计稿（基准）:' },
+              { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${cleanDesign}` } },
+              { type: 'text', text: '开发实现图（待测）:' },
+              { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${cleanDev}` } },
+            ]
+          }
+        ]
+      })
+    });
+
+    if (!response.ok) throw await errorFromResponse(response, 'AI 服务');
+
+    // SSE：每行 "data: {...}"，以 "data: [DONE]" 结束
+    let content = '';
+    await readLines(response, line => {
+      if (!line.startsWith('data:')) return;
+      const payload = line.slice('data:'.length).trim();
+      if (payload === '[DONE]') return;
+      const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+      if (typeof delta !== 'string') return;
+      content += delta;
+      onProgress?.({ stage: 'receiving', percent: receivingPercent(content.length) });
+    });
+    onProgress?.({ stage: 'parsing', percent: 95 });
+    return validateFindings(parseFindingsText(content));
+  }
+});
@@ -0,0 +1,199 @@
+import { AiAnalysisResult, AiBoundingBox, AiFinding, Issue } from '../../types';
+import { AnalyzeOptions, VisionAnalyzer, throwIfAborted } from './common';
+import { GRID_SIZE, boxIoU, dedupeFindings } from './findingSchema';
+import { loadImage } from '../imageService';
+
+// 长图分块分析：把设计稿与实现图切成对齐且互相重叠的小块分别分析，再把结论映射回整图坐标
+
+// 单块最大宽度 (实现图 px)，超过则横向分块
+const MAX_TILE_WIDTH = 1280;
+// 单块高宽比，接近一屏手机截图
+const TILE_ASPECT = 1.5;
+// 相邻块的重叠比例，保证落在接缝上的元素至少在一块中完整出现
+const TILE_OVERLAP = 0.15;
+// 高度不超过单块高度的该倍数时不分块，避免略长于一屏的页面被切开
+const SINGLE_TILE_TOLERANCE = 1.3;
+// 单次分析最多的块数，超出时放大块尺寸
+const MAX_TILES = 12;
+// 跨接缝合并时，两个区域在另一方向上的最小重合比例
+const SEAM_ALIGN_RATIO = 0.6;
+// 跨接缝合并时允许的间隙 (0-1000 坐标)
+const SEAM_GAP = 5;
+
+interface Tile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TileFinding {
+  finding: AiFinding;
+  tile: AiBoundingBox; // 所在块在整图中的范围 (0-1000)
+}
+
+const SEVERITY_RANK: Record<Issue['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+// 在 [0, length) 上均匀排布若干段，相邻段至少重叠 overlap
+const axisSegments = (length: number, size: number, overlap: number) => {
+  if (length <= size) return [{ start: 0, size: length }];
+  const count = Math.ceil((length - overlap) / (size - overlap));
+  return Array.from({ length: count }, (_, i) => ({
+    start: Math.round((i * (length - size)) / (count - 1)),
+    size,
+  }));
+};
+
+export const planTiles = (width: number, height: number): Tile[] => {
+  let tileWidth = Math.min(width, MAX_TILE_WIDTH);
+  let tileHeight = Math.round(tileWidth * TILE_ASPECT);
+  if (height <= tileHeight * SINGLE_TILE_TOLERANCE) tileHeight = height;
+  const countFor = (w: number, h: number) =>
+    axisSegments(width, w, Math.round(w * TILE_OVERLAP)).length *
+    axisSegments(height, h, Math.round(h * TILE_OVERLAP)).length;
+  while (countFor(tileWidth, tileHeight) > MAX_TILES) {
+    tileWidth = Math.min(width, Math.round(tileWidth * 1.25));
+    tileHeight = Math.min(height, Math.round(tileHeight * 1.25));
+  }
+
+  const cols = axisSegments(width, tileWidth, Math.round(tileWidth * TILE_OVERLAP));
+  const rows = axisSegments(height, tileHeight, Math.round(tileHeight * TILE_OVERLAP));
+  return rows.flatMap(row => cols.map(col => ({ x: col.start, y: row.start, width: col.size, height: row.size })));
+};
+
+// 图片按 placement（实现图 px 中的位置与等比缩放）放置后，截取块范围；图片以外的部分留白
+const cropTile = (img: HTMLImageElement, tile: Tile, placement: { x: number; y: number; scale: number }) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = tile.width;
+  canvas.height = tile.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, tile.width, tile.height);
+  ctx.drawImage(
+    img,
+    placement.x - tile.x, placement.y - tile.y, img.naturalWidth * placement.scale, img.naturalHeight * placement.scale
+  );
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
+
+const toGridBox = (tile: Tile, width: number, height: number): AiBoundingBox => [
+  (tile.y / height) * GRID_SIZE,
+  (tile.x / width) * GRID_SIZE,
+  ((tile.y + tile.height) / height) * GRID_SIZE,
+  ((tile.x + tile.width) / width) * GRID_SIZE,
+];
+
+// 块内 0-1000 坐标 -> 整图 0-1000 坐标
+const mapToImage = ([ymin, xmin, ymax, xmax]: AiBoundingBox, tile: AiBoundingBox): AiBoundingBox => {
+  const h = tile[2] - tile[0];
+  const w = tile[3] - tile[1];
+  return [
+    tile[0] + (ymin / GRID_SIZE) * h,
+    tile[1] + (xmin / GRID_SIZE) * w,
+    tile[0] + (ymax / GRID_SIZE) * h,
+    tile[1] + (xmax / GRID_SIZE) * w,
+  ];
+};
+
+const intersect = (a: AiBoundingBox, b: AiBoundingBox): AiBoundingBox | null => {
+  const box: AiBoundingBox = [Math.max(a[0], b[0]), Math.max(a[1], b[1]), Math.min(a[2], b[2]), Math.min(a[3], b[3])];
+  return box[2] > box[0] && box[3] > box[1] ? box : null;
+};
+
+const overlapRatio = (a0: number, a1: number, b0: number, b1: number) =>
+  Math.max(0, Math.min(a1, b1) - Math.max(a0, b0)) / Math.max(1e-6, Math.min(a1 - a0, b1 - b0));
+
+const gap = (a0: number, a1: number, b0: number, b1: number) => Math.max(a0, b0) - Math.min(a1, b1);
+
+/**
+ * 同一元素被接缝切开时，两块各自只看到一部分：两个区域都落在两块的重叠带内，
+ * 且在另一方向上基本对齐、本方向上相交或相邻，则视为同一处差异。
+ */
+const isSeamPair = (a: TileFinding, b: TileFinding) => {
+  if (a.tile === b.tile || !a.finding.boundingBox || !b.finding.boundingBox) return false;
+  const band = intersect(a.tile, b.tile);
+  if (!band) return false;
+  const boxA = a.finding.boundingBox;
+  const boxB = b.finding.boundingBox;
+  if (!intersect(boxA, band) || !intersect(boxB, band)) return false;
+  if (boxIoU(boxA, boxB) >= 0.3) return true;
+  const verticalJoin = overlapRatio(boxA[1], boxA[3], boxB[1], boxB[3]) >= SEAM_ALIGN_RATIO && gap(boxA[0], boxA[2], boxB[0], boxB[2]) <= SEAM_GAP;
+  const horizontalJoin = overlapRatio(boxA[0], boxA[2], boxB[0], boxB[2]) >= SEAM_ALIGN_RATIO && gap(boxA[1], boxA[3], boxB[1], boxB[3]) <= SEAM_GAP;
+  return verticalJoin || horizontalJoin;
+};
+
+const joinFindings = (a: TileFinding, b: TileFinding): TileFinding => {
+  const primary = SEVERITY_RANK[b.finding.severity] > SEVERITY_RANK[a.finding.severity] ? b : a;
+  const boxA = a.finding.boundingBox!;
+  const boxB = b.finding.boundingBox!;
+  return {
+    tile: primary.tile,
+    finding: {
+      ...primary.finding,
+      boundingBox: [Math.min(boxA[0], boxB[0]), Math.min(boxA[1], boxB[1]), Math.max(boxA[2], boxB[2]), Math.max(boxA[3], boxB[3])],
+    },
+  };
+};
+
+export const mergeTileFindings = (items: TileFinding[]): { findings: AiFinding[]; merged: number } => {
+  const pending = [...items];
+  let joined = 0;
+  for (let i = 0; i < pending.length; i++) {
+    for (let j = i + 1; j < pending.length; j++) {
+      if (!isSeamPair(pending[i], pending[j])) continue;
+      pending[i] = joinFindings(pending[i], pending[j]);
+      pending.splice(j, 1);
+      joined++;
+      j = i; // 合并后的区域可能与之前跳过的区域相连
+    }
+  }
+  const { findings, merged } = dedupeFindings(pending.map(p => p.finding));
+  return { findings, merged: joined + merged };
+};
+
+/**
+ * 对整图逐块调用分析器。设计稿按叠加对齐参数等比放到实现图坐标后按相同范围切块，块按顺序分析以避免触发限流。
+ */
+export const analyzeInTiles = async (
+  analyzer: VisionAnalyzer,
+  designImage: string,
+  devImage: string,
+  { signal, onProgress, alignment }: AnalyzeOptions = {}
+): Promise<AiAnalysisResult> => {
+  const [design, dev] = await Promise.all([loadImage(designImage), loadImage(devImage)]);
+  const width = dev.naturalWidth;
+  const height = dev.naturalHeight;
+  const tiles = planTiles(width, height);
+  if (tiles.length === 1) return analyzer.analyze(designImage, devImage, { signal, onProgress });
+
+  const { offset, scale } = alignment ?? { offset: { x: 0, y: 0 }, scale: width / design.naturalWidth };
+  const designPlacement = { x: offset.x, y: offset.y, scale };
+  const devPlacement = { x: 0, y: 0, scale: 1 };
+  const collected: TileFinding[] = [];
+  let discarded = 0;
+  let merged = 0;
+
+  for (let i = 0; i < tiles.length; i++) {
+    throwIfAborted(signal);
+    const tile = tiles[i];
+    const tileBox = toGridBox(tile, width, height);
+    const result = await analyzer.analyze(cropTile(design, tile, designPlacement), cropTile(dev, tile, devPlacement), {
+      signal,
+      onProgress: progress => onProgress?.({
+        ...progress,
+        percent: Math.round(((i + progress.percent / 100) / tiles.length) * 100),
+        tile: i + 1,
+        tileCount: tiles.length,
+      }),
+    });
+    discarded += result.discarded;
+    merged += result.merged;
+    result.findings.forEach(finding => collected.push({
+      tile: tileBox,
+      finding: finding.boundingBox ? { ...finding, boundingBox: mapToImage(finding.boundingBox, tileBox) } : finding,
+    }));
+  }
+
+  const combined = mergeTileFindings(collected);
+  return { findings: combined.findings, discarded, merged: merged + combined.merged };
+};
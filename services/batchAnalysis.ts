@@ -0,0 +1,66 @@
+import { Project } from '../types';
+import { getPairedDesign } from './projectModel';
+
+// 批量 AI 分析：为多个页面的全部实现图排队分析，限制并发数
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'skipped' | 'cancelled';
+
+export interface BatchItem {
+  projectId: string;
+  devImageId: string;
+  status: BatchItemStatus;
+  issueCount?: number;
+  error?: string;
+}
+
+export interface BatchSummary {
+  total: number;
+  done: number;
+  failed: number;
+  skipped: number;
+  cancelled: number;
+  issueCount: number;
+  durationMs: number;
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 4;
+
+/**
+ * 列出需要分析的实现图；没有可配对设计稿的实现图无法对比，标记为跳过。
+ */
+export const planBatch = (projects: Project[]): BatchItem[] =>
+  projects.flatMap(p => p.devImages.map(img => ({
+    projectId: p.id,
+    devImageId: img.id,
+    status: getPairedDesign(p, img) ? 'queued' as const : 'skipped' as const,
+  })));
+
+export const summarizeBatch = (items: BatchItem[], durationMs: number): BatchSummary => ({
+  total: items.length,
+  done: items.filter(i => i.status === 'done').length,
+  failed: items.filter(i => i.status === 'failed').length,
+  skipped: items.filter(i => i.status === 'skipped').length,
+  cancelled: items.filter(i => i.status === 'cancelled' || i.status === 'queued').length,
+  issueCount: items.reduce((sum, i) => sum + (i.issueCount ?? 0), 0),
+  durationMs,
+});
+
+/**
+ * 以固定并发执行任务。取消后不再启动新任务，已启动的任务由 worker 自行响应 signal。
+ */
+export const runWithConcurrency = async <T>(
+  tasks: T[],
+  concurrency: number,
+  worker: (task: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(concurrency, tasks.length)) }, async () => {
+    while (next < tasks.length && !signal?.aborted) {
+      const task = tasks[next++];
+      await worker(task);
+    }
+  });
+  await Promise.all(lanes);
+};
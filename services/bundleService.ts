@@ -0,0 +1,305 @@
+import JSZip from 'jszip';
+import { Annotation, DesignImage, DevImage, Issue, Project } from '../types';
+import { LegacyProject, migrateLegacyDesignImage } from './projectModel';
+
+/**
+ * `.designsync` 项目包格式
+ *
+ * 一个 zip 压缩包，包含：
+ *   manifest.json      - 清单（见 BundleManifest），所有项目数据都在这里
+ *   images/<name>.<ext> - 设计稿与实现图原图
+ *
+ * 清单中凡是图片字段（designImages[].data、devImages[].data 等）都不直接内嵌 base64，
+ * 而是写成 { "$image": "images/img-1.png", "mimeType": "image/png" } 引用。
+ *
+ * 版本历史：
+ *   v0 - 旧版“反馈 JSON”/HTML 报告数据，每个页面只有一张 devImage（无 zip，图片内嵌）
+ *   v1 - zip 项目包，每个页面一张 designImage、多张 devImages
+ *   v2 - 当前版本，每个页面多张 designImages，devImages[].designImageId 指向配对的设计稿
+ *
+ * 升级格式时递增 BUNDLE_VERSION，为上一版本补充清单类型、解析与迁移函数，并加入 migrateManifest。
+ */
+export const BUNDLE_FORMAT = 'designsync';
+export const BUNDLE_VERSION = 2;
+export const BUNDLE_EXTENSION = '.designsync';
+
+const MANIFEST_PATH = 'manifest.json';
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  exportedAt: string;
+  activeProjectId: string | null;
+  projects: Project[];
+}
+
+export interface BundleContents {
+  projects: Project[];
+  activeProjectId: string;
+}
+
+interface BundleImageRef {
+  $image: string;
+  mimeType: string;
+}
+
+// v0 清单：{ generatedAt, projects: [{ ..., designImage, devImage }] }
+interface ManifestV0 {
+  version: 0;
+  generatedAt?: string;
+  projects: ProjectV0[];
+}
+
+interface ProjectV0 {
+  id: string;
+  name?: string;
+  designImage?: string | null;
+  devImage?: DevImage;
+  issues?: Issue[];
+  annotations?: Annotation[];
+  figmaUrl?: string;
+}
+
+// v1 清单：每个页面一张 designImage
+interface ManifestV1 {
+  format: typeof BUNDLE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  activeProjectId: string | null;
+  projects: LegacyProject[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const INVALID_BUNDLE = '文件格式不正确，不是有效的 DesignSync 项目包';
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+const isObject = (v: unknown): v is JsonObject => !!v && typeof v === 'object' && !Array.isArray(v);
+
+const isImageDataUrl = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith('data:image/');
+
+const isBundleImageRef = (value: unknown): value is BundleImageRef =>
+  isObject(value) && typeof value.$image === 'string' && typeof value.mimeType === 'string';
+
+const hasId = (v: unknown): v is JsonObject & { id: string } => isObject(v) && typeof v.id === 'string';
+
+// 清单中的图片字段可能还是引用，写回 data URL 后由 normalizeProject 检查
+const isImageData = (v: unknown): v is string => typeof v === 'string' || isBundleImageRef(v);
+
+const isImageEntry = (v: unknown): v is DesignImage & DevImage => hasId(v) && isImageData(v.data);
+
+const isIssue = (v: unknown): v is Issue => hasId(v) && typeof v.title === 'string';
+
+const isAnnotation = (v: unknown): v is Annotation => hasId(v) && typeof v.x === 'number' && typeof v.y === 'number';
+
+// 缺失的列表视为空列表；存在但结构不对时整个文件视为无效
+const listOf = <T>(value: unknown, guard: (v: unknown) => v is T): T[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(guard)) throw new Error(INVALID_BUNDLE);
+  return value;
+};
+
+const optionalString = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+// --- 各版本清单的解析与迁移 ---
+
+const parseManifestV0 = (raw: JsonObject): ManifestV0 => ({
+  version: 0,
+  generatedAt: optionalString(raw.generatedAt),
+  projects: listOf(raw.projects, hasId).map(p => ({
+    id: p.id,
+    name: optionalString(p.name),
+    designImage: isImageData(p.designImage) ? p.designImage : null,
+    devImage: isImageEntry(p.devImage) ? p.devImage : undefined,
+    issues: listOf(p.issues, isIssue),
+    annotations: listOf(p.annotations, isAnnotation),
+    figmaUrl: optionalString(p.figmaUrl),
+  })),
+});
+
+const parseManifestV1 = (raw: JsonObject): ManifestV1 => ({
+  format: BUNDLE_FORMAT,
+  version: 1,
+  exportedAt: optionalString(raw.exportedAt) ?? new Date().toISOString(),
+  activeProjectId: optionalString(raw.activeProjectId) ?? null,
+  projects: listOf(raw.projects, hasId).map(p => ({
+    ...(p as unknown as LegacyProject),
+    designImage: isImageData(p.designImage) ? p.designImage : null,
+    designImages: undefined,
+    devImages: listOf(p.devImages, isImageEntry),
+  })),
+});
+
+// 当前版本的页面内容在图片写回后由 normalizeProject 检查
+const parseManifestV2 = (raw: JsonObject): BundleManifest => ({
+  format: BUNDLE_FORMAT,
+  version: 2,
+  exportedAt: optionalString(raw.exportedAt) ?? new Date().toISOString(),
+  activeProjectId: optionalString(raw.activeProjectId) ?? null,
+  projects: listOf(raw.projects, hasId) as unknown as Project[],
+});
+
+const migrateV0 = (legacy: ManifestV0): ManifestV1 => ({
+  format: BUNDLE_FORMAT,
+  version: 1,
+  exportedAt: legacy.generatedAt || new Date().toISOString(),
+  activeProjectId: legacy.projects[0]?.id ?? null,
+  projects: legacy.projects.map(p => ({
+    id: p.id,
+    name: p.name || '',
+    designImage: p.designImage ?? null,
+    devImages: p.devImage ? [p.devImage] : [],
+    activeDevImageId: p.devImage?.id ?? null,
+    issues: p.issues || [],
+    annotations: p.annotations || [],
+    figmaUrl: p.figmaUrl,
+  })),
+});
+
+// v1: designImage -> designImages + 配对
+const migrateV1 = (manifest: ManifestV1): BundleManifest => ({
+  ...manifest,
+  version: 2,
+  projects: manifest.projects.map(migrateLegacyDesignImage),
+});
+
+const migrateManifest = (raw: unknown): BundleManifest => {
+  if (!isObject(raw)) throw new Error(INVALID_BUNDLE);
+  // 没有 version 字段的都视为 v0
+  const version = typeof raw.version === 'number' ? raw.version : 0;
+  if (version > BUNDLE_VERSION) {
+    throw new Error(`该文件由更新版本的 DesignSync 导出 (v${version})，请升级后再导入`);
+  }
+  if (version > 0 && !Array.isArray(raw.projects)) throw new Error('文件中缺少项目数据');
+  switch (version) {
+    case 0: return migrateV1(migrateV0(parseManifestV0(raw)));
+    case 1: return migrateV1(parseManifestV1(raw));
+    case 2: return parseManifestV2(raw);
+    default: throw new Error(`不支持的文件版本 v${version}`);
+  }
+};
+
+// 补齐缺失字段并检查结构，保证导入的数据满足当前 Project 结构
+const normalizeProject = (p: unknown): Project => {
+  if (!hasId(p)) throw new Error(INVALID_BUNDLE);
+  const designImages = listOf(p.designImages, isImageEntry);
+  const devImages = listOf(p.devImages, isImageEntry);
+  // 图片引用写回后必须都是 data URL
+  if (![...designImages, ...devImages].every(img => typeof img.data === 'string')) throw new Error(INVALID_BUNDLE);
+  return {
+    ...(p as unknown as Project),
+    name: optionalString(p.name) || '未命名页面',
+    designImages,
+    devImages,
+    activeDevImageId: optionalString(p.activeDevImageId) ?? devImages[0]?.id ?? null,
+    issues: listOf(p.issues, isIssue),
+    annotations: listOf(p.annotations, isAnnotation),
+  };
+};
+
+const mapTree = async (value: unknown, fn: (leaf: unknown) => Promise<unknown> | unknown): Promise<unknown> => {
+  const mapped = await fn(value);
+  if (mapped !== value) return mapped;
+  if (Array.isArray(value)) return Promise.all(value.map(v => mapTree(v, fn)));
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = await mapTree(v, fn);
+    return out;
+  }
+  return value;
+};
+
+export const exportBundle = async (projects: Project[], activeProjectId: string | null): Promise<Blob> => {
+  const zip = new JSZip();
+  const written = new Map<string, BundleImageRef>();
+
+  const serializedProjects = await mapTree(projects, (leaf) => {
+    if (!isImageDataUrl(leaf)) return leaf;
+    const existing = written.get(leaf);
+    if (existing) return existing;
+
+    const commaIndex = leaf.indexOf(',');
+    const header = leaf.slice(0, commaIndex);
+    const data = leaf.slice(commaIndex + 1);
+    const mimeType = header.slice('data:'.length).split(';')[0];
+    const path = `images/img-${written.size + 1}.${MIME_EXTENSIONS[mimeType] || 'png'}`;
+    if (header.endsWith(';base64')) {
+      zip.file(path, data, { base64: true });
+    } else {
+      zip.file(path, decodeURIComponent(data));
+    }
+    const ref = { $image: path, mimeType };
+    written.set(leaf, ref);
+    return ref;
+  });
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    activeProjectId,
+    projects: serializedProjects as Project[],
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
+
+// HTML 报告中内嵌的数据：const reportData = {...};
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(INVALID_BUNDLE);
+  }
+};
+
+const extractReportData = (html: string): unknown => {
+  const match = html.match(/const reportData = (\{.*\});\s*\n/);
+  if (!match) throw new Error('未在 HTML 报告中找到走查数据');
+  return parseJson(match[1]);
+};
+
+const readManifestSource = async (file: File): Promise<{ raw: unknown; zip: JSZip | null }> => {
+  const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  const isZip = head[0] === 0x50 && head[1] === 0x4b; // "PK"
+  if (isZip) {
+    const zip = await JSZip.loadAsync(file);
+    const manifestFile = zip.file(MANIFEST_PATH);
+    if (!manifestFile) throw new Error('压缩包中缺少 manifest.json');
+    return { raw: parseJson(await manifestFile.async('string')), zip };
+  }
+
+  const text = await file.text();
+  if (/^\s*</.test(text)) return { raw: extractReportData(text), zip: null };
+  return { raw: parseJson(text), zip: null };
+};
+
+export const importBundle = async (file: File): Promise<BundleContents> => {
+  const { raw, zip } = await readManifestSource(file);
+  const manifest = migrateManifest(raw);
+
+  const hydrated = await mapTree(manifest.projects, async (leaf) => {
+    if (!isBundleImageRef(leaf)) return leaf;
+    const entry = zip?.file(leaf.$image);
+    if (!entry) throw new Error(`缺少图片文件 ${leaf.$image}`);
+    return `data:${leaf.mimeType};base64,${await entry.async('base64')}`;
+  });
+
+  if (!Array.isArray(hydrated)) throw new Error(INVALID_BUNDLE);
+  const projects = hydrated.map(normalizeProject);
+  if (projects.length === 0) throw new Error('文件中没有可导入的页面');
+
+  const activeProjectId = projects.some(p => p.id === manifest.activeProjectId)
+    ? manifest.activeProjectId!
+    : projects[0].id;
+  return { projects, activeProjectId };
+};
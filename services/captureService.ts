@@ -0,0 +1,84 @@
+import { CaptureSettings, DeviceProfile, DomSnapshot } from '../types';
+
+// 本地截图服务（scripts/capture-server.mjs）：按 URL 与视口截图，结果作为实现图
+
+export const DEFAULT_CAPTURE_SERVICE = 'http://localhost:4020';
+
+export interface CaptureRequest {
+  url: string;
+  width: number; // 视口宽度（逻辑 px）
+  height: number;
+  dpr: number;
+  mobile: boolean; // 按移动端视口渲染（meta viewport、触摸事件）
+  fullPage: boolean;
+  waitFor?: string;
+  cookies?: string; // "name=value; name2=value2"
+  dom?: boolean; // 同时记录 DOM 快照，默认记录
+}
+
+export interface CaptureResult {
+  data: string; // PNG data URL
+  title: string;
+  url: string; // 跳转后的最终地址
+  dom?: DomSnapshot;
+}
+
+const serviceBase = (settings: CaptureSettings) => (settings.serviceUrl || DEFAULT_CAPTURE_SERVICE).replace(/\/$/, '');
+
+// 未填写高度时的默认视口高度：移动端接近常见机型的屏幕比例，平板竖屏 4:3，桌面 16:10
+export const defaultViewportHeight = (device: DeviceProfile) => {
+  if (device.platform !== 'web') return Math.round(device.width * 2.16);
+  return Math.round(device.width * (device.width < 1024 ? 4 / 3 : 0.625));
+};
+
+export const captureRequestForDevice = (
+  device: DeviceProfile,
+  settings: CaptureSettings,
+  extra: { url: string; cookies?: string }
+): CaptureRequest => ({
+  url: extra.url,
+  width: device.width,
+  height: settings.height || defaultViewportHeight(device),
+  dpr: device.dpr,
+  mobile: device.platform !== 'web',
+  fullPage: settings.fullPage ?? true,
+  waitFor: settings.waitFor || undefined,
+  cookies: extra.cookies || undefined,
+  dom: settings.dom ?? true,
+});
+
+export const checkCaptureService = async (settings: CaptureSettings, signal?: AbortSignal): Promise<boolean> => {
+  try {
+    const response = await fetch(`${serviceBase(settings)}/health`, { signal });
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 请求本地服务截图。服务未启动、页面加载失败或超时时抛出带原因的错误。
+ */
+export const captureScreenshot = async (
+  settings: CaptureSettings,
+  request: CaptureRequest,
+  signal?: AbortSignal
+): Promise<CaptureResult> => {
+  const base = serviceBase(settings);
+  let response: Response;
+  try {
+    response = await fetch(`${base}/capture`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    });
+  } catch (e: any) {
+    if (e?.name === 'AbortError') throw e;
+    throw new Error(`无法连接截图服务 (${base})，请先运行 npm run capture`);
+  }
+  const body = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(body?.error || `截图失败 (${response.status})`);
+  if (!body?.data) throw new Error('截图服务没有返回图片');
+  return body as CaptureResult;
+};
@@ -0,0 +1,130 @@
+// 颜色解析与比较
+
+export type Rgb = [number, number, number];
+
+export const toHex = (r: number, g: number, b: number) =>
+  '#' + ('000000' + ((r << 16) | (g << 8) | b).toString(16)).slice(-6).toUpperCase();
+
+export const hexToRgb = (hex: string): Rgb | null => {
+  const m = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!m) return null;
+  const h = m[1].length === 3 ? m[1].split('').map(c => c + c).join('') : m[1];
+  const n = parseInt(h, 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+/**
+ * 实际颜色相对期望颜色的逐通道差值，如 "R+2 G-1 B0"。
+ */
+export const describeRgbDelta = (expected: string, actual: string): string | null => {
+  const a = hexToRgb(expected);
+  const b = hexToRgb(actual);
+  if (!a || !b) return null;
+  const sign = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+  return `R${sign(b[0] - a[0])} G${sign(b[1] - a[1])} B${sign(b[2] - a[2])}`;
+};
+
+// --- CIEDE2000 ---
+
+type Lab = [number, number, number];
+
+const srgbToLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+// sRGB (D65) -> CIE L*a*b*
+export const rgbToLab = ([r, g, b]: Rgb): Lab => {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047;
+  const y = lr * 0.2126729 + lg * 0.7151522 + lb * 0.0721750;
+  const z = (lr * 0.0193339 + lg * 0.1191920 + lb * 0.9503041) / 1.08883;
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+const deg = (rad: number) => (rad * 180) / Math.PI;
+const rad = (d: number) => (d * Math.PI) / 180;
+
+export const deltaE2000 = ([L1, a1, b1]: Lab, [L2, a2, b2]: Lab): number => {
+  const C1 = Math.hypot(a1, b1);
+  const C2 = Math.hypot(a2, b2);
+  const Cbar = (C1 + C2) / 2;
+  const G = 0.5 * (1 - Math.sqrt(Math.pow(Cbar, 7) / (Math.pow(Cbar, 7) + Math.pow(25, 7))));
+  const a1p = (1 + G) * a1;
+  const a2p = (1 + G) * a2;
+  const C1p = Math.hypot(a1p, b1);
+  const C2p = Math.hypot(a2p, b2);
+  const hue = (b: number, a: number) => {
+    if (b === 0 && a === 0) return 0;
+    const h = deg(Math.atan2(b, a));
+    return h >= 0 ? h : h + 360;
+  };
+  const h1p = hue(b1, a1p);
+  const h2p = hue(b2, a2p);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin(rad(dhp / 2));
+
+  const Lbarp = (L1 + L2) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hbarp = (h1p + h2p) / 2;
+    else hbarp = h1p + h2p < 360 ? (h1p + h2p + 360) / 2 : (h1p + h2p - 360) / 2;
+  }
+
+  const T = 1
+    - 0.17 * Math.cos(rad(hbarp - 30))
+    + 0.24 * Math.cos(rad(2 * hbarp))
+    + 0.32 * Math.cos(rad(3 * hbarp + 6))
+    - 0.20 * Math.cos(rad(4 * hbarp - 63));
+  const dTheta = 30 * Math.exp(-Math.pow((hbarp - 275) / 25, 2));
+  const Rc = 2 * Math.sqrt(Math.pow(Cbarp, 7) / (Math.pow(Cbarp, 7) + Math.pow(25, 7)));
+  const Sl = 1 + (0.015 * Math.pow(Lbarp - 50, 2)) / Math.sqrt(20 + Math.pow(Lbarp - 50, 2));
+  const Sc = 1 + 0.045 * Cbarp;
+  const Sh = 1 + 0.015 * Cbarp * T;
+  const Rt = -Math.sin(rad(2 * dTheta)) * Rc;
+
+  return Math.sqrt(
+    Math.pow(dLp / Sl, 2) + Math.pow(dCp / Sc, 2) + Math.pow(dHp / Sh, 2) + Rt * (dCp / Sc) * (dHp / Sh)
+  );
+};
+
+/**
+ * 两个 hex 颜色的 CIEDE2000 色差，无法解析时返回 null。
+ */
+export const colorDeltaE = (a: string, b: string): number | null => {
+  const ra = hexToRgb(a);
+  const rb = hexToRgb(b);
+  return ra && rb ? deltaE2000(rgbToLab(ra), rgbToLab(rb)) : null;
+};
+
+export type DeltaELevel = 'imperceptible' | 'subtle' | 'perceptible' | 'distinct';
+
+// ΔE00 常用分级：<1 人眼不可分辨，1-2 仔细对比才可见，2-10 一眼可见，>=10 明显是不同颜色
+export const classifyDeltaE = (deltaE: number): DeltaELevel => {
+  if (deltaE < 1) return 'imperceptible';
+  if (deltaE < 2) return 'subtle';
+  if (deltaE < 10) return 'perceptible';
+  return 'distinct';
+};
+
+export const DELTA_E_LEVELS: Record<DeltaELevel, { label: string; severity: 'low' | 'medium' | 'high'; color: string }> = {
+  imperceptible: { label: '不可察觉', severity: 'low', color: 'text-green-600 bg-green-50 border-green-100' },
+  subtle: { label: '细看可察觉', severity: 'low', color: 'text-blue-600 bg-blue-50 border-blue-100' },
+  perceptible: { label: '一眼可见', severity: 'medium', color: 'text-orange-600 bg-orange-50 border-orange-100' },
+  distinct: { label: '明显不同', severity: 'high', color: 'text-red-600 bg-red-50 border-red-100' },
+};
@@ -0,0 +1,145 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Annotation, DesignChange, DesignImage, FigmaLayer, Issue, Project } from '../types';
+import { FigmaFrame } from './figmaService';
+import { calibrationFromCanvasWidth } from './measurementService';
+import { computePixelDiff } from './pixelDiffService';
+import { getPairedDesign } from './projectModel';
+import { loadImage } from './imageService';
+
+// 设计稿重新同步：保留历史版本，比对新旧设计，标记标注区域受影响的问题
+
+// 每张设计稿保留的历史版本数，超出时丢弃最早的版本
+const MAX_VERSIONS = 5;
+// 位置或尺寸变化超过该值（逻辑 px）视为变化
+const GEOMETRY_TOLERANCE = 0.5;
+
+type Box = { x: number; y: number; width: number; height: number };
+
+const styleKey = (l: FigmaLayer) =>
+  JSON.stringify([l.fill, l.stroke, l.cornerRadius, l.opacity, l.layout, l.text && { ...l.text, characters: undefined }]);
+
+const union = (a: Box, b: Box): Box => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+};
+
+const shift = (prev: Box, next: Box) => ({ dx: next.x - prev.x, dy: next.y - prev.y, dw: next.width - prev.width, dh: next.height - prev.height });
+
+const isMoved = (d: ReturnType<typeof shift>) =>
+  Math.abs(d.dx) > GEOMETRY_TOLERANCE || Math.abs(d.dy) > GEOMETRY_TOLERANCE || Math.abs(d.dw) > GEOMETRY_TOLERANCE || Math.abs(d.dh) > GEOMETRY_TOLERANCE;
+
+/**
+ * 按节点 id 比对两版节点树：新增、删除、位置/尺寸、文案与样式变化。
+ * 随父节点整体平移的子节点不重复记录。
+ */
+export const diffDesignLayers = (prev: FigmaLayer[], next: FigmaLayer[]): DesignChange[] => {
+  const frame = next.find(l => !l.parentId);
+  if (!frame || !frame.width || !frame.height) return [];
+  const toPct = (box: Box, label: string): DesignChange => ({
+    x: box.x / frame.width * 100,
+    y: box.y / frame.height * 100,
+    width: box.width / frame.width * 100,
+    height: box.height / frame.height * 100,
+    label,
+  });
+  const prevById = new Map(prev.map(l => [l.id, l]));
+  const nextIds = new Set(next.map(l => l.id));
+  const shifts = new Map<string, ReturnType<typeof shift>>();
+  const changes: DesignChange[] = [];
+
+  next.forEach(l => {
+    const old = prevById.get(l.id);
+    if (!l.parentId) return; // Frame 本身
+    if (!old) {
+      changes.push(toPct(l, `新增「${l.name}」`));
+      return;
+    }
+    const d = shift(old, l);
+    shifts.set(l.id, d);
+    const parentShift = shifts.get(l.parentId);
+    const followsParent = parentShift && isMoved(parentShift) && d.dx === parentShift.dx && d.dy === parentShift.dy && !d.dw && !d.dh;
+    if (isMoved(d) && !followsParent) changes.push(toPct(union(old, l), `位置/尺寸变化「${l.name}」`));
+    else if (l.text && old.text && l.text.characters !== old.text.characters) changes.push(toPct(l, `文案变化「${l.name}」`));
+    else if (styleKey(l) !== styleKey(old)) changes.push(toPct(l, `样式变化「${l.name}」`));
+  });
+  prev.forEach(l => {
+    if (l.parentId && !nextIds.has(l.id)) changes.push(toPct(l, `删除「${l.name}」`));
+  });
+  return changes;
+};
+
+// 没有节点数据时按像素比对；旧图按宽度等比缩放到新图，Frame 高度不同时多出的部分计为变化
+export const diffDesignImages = async (prev: string, next: string): Promise<DesignChange[]> => {
+  const { clusters } = await computePixelDiff(prev, next);
+  return clusters.map(c => ({ x: c.x, y: c.y, width: c.width, height: c.height, label: '画面变化' }));
+};
+
+/**
+ * 用 Figma 重新导出的 Frame 更新设计稿；有变化时把当前内容存为历史版本并记录变化区域。
+ * imageWidth 为新图片宽度，按画布宽度标定的设计稿据此重新推算 dpr。
+ */
+export const syncDesignImage = async (design: DesignImage, frame: FigmaFrame, imageWidth: number): Promise<DesignImage> => {
+  const changes = design.figmaLayers?.length && frame.layers.length
+    ? diffDesignLayers(design.figmaLayers, frame.layers)
+    : frame.data === design.data ? [] : await diffDesignImages(design.data, frame.data);
+  const syncedAt = Date.now();
+  const calibration = design.calibration?.canvasWidth && imageWidth && frame.width
+    ? calibrationFromCanvasWidth(imageWidth, frame.width, design.calibration.rootFontSize)
+    : design.calibration;
+  const updated: DesignImage = { ...design, data: frame.data, figmaLayers: frame.layers, calibration, syncedAt, changes };
+  if (changes.length === 0) return updated;
+  const version = { id: uuidv4(), data: design.data, calibration: design.calibration, figmaLayers: design.figmaLayers, syncedAt: design.syncedAt };
+  return { ...updated, versions: [...(design.versions || []), version].slice(-MAX_VERSIONS) };
+};
+
+// 标注的外接框（实现图百分比）；取色点、图钉为零尺寸的点
+const annotationBox = (a: Annotation): Box => {
+  if (a.endX !== undefined && a.endY !== undefined) {
+    return { x: Math.min(a.x, a.endX), y: Math.min(a.y, a.endY), width: Math.abs(a.endX - a.x), height: Math.abs(a.endY - a.y) };
+  }
+  return { x: a.x, y: a.y, width: a.width || 0, height: a.height || 0 };
+};
+
+const intersects = (a: Box, b: Box) =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+/**
+ * 标注区域与设计稿变化区域重叠的问题标记为“需复查”，返回更新后的问题列表与标记数量。
+ * 实现图按叠加对齐参数投影到设计稿，没有对齐参数时按宽度等比缩放；不修复的问题不标记。
+ */
+export const flagIssuesForRecheck = async (
+  project: Project,
+  design: DesignImage,
+  alignmentFor: (devImageId: string) => { offset: { x: number; y: number }; scale: number } | undefined
+): Promise<{ issues: Issue[]; flagged: number }> => {
+  const changes = design.changes || [];
+  const devImages = project.devImages.filter(img => getPairedDesign(project, img)?.id === design.id);
+  if (changes.length === 0 || devImages.length === 0) return { issues: project.issues, flagged: 0 };
+
+  const designImg = await loadImage(design.data);
+  const annotations = new Map(project.annotations.map(a => [a.id, a]));
+  const reasons = new Map<string, string>();
+  for (const devImage of devImages) {
+    const devImg = await loadImage(devImage.data);
+    const { offset, scale } = alignmentFor(devImage.id) ?? { offset: { x: 0, y: 0 }, scale: devImg.naturalWidth / designImg.naturalWidth };
+    const toDesign = (box: Box): Box => ({
+      x: (box.x / 100 * devImg.naturalWidth - offset.x) / scale / designImg.naturalWidth * 100,
+      y: (box.y / 100 * devImg.naturalHeight - offset.y) / scale / designImg.naturalHeight * 100,
+      width: box.width / 100 * devImg.naturalWidth / scale / designImg.naturalWidth * 100,
+      height: box.height / 100 * devImg.naturalHeight / scale / designImg.naturalHeight * 100,
+    });
+    project.issues.forEach(issue => {
+      const ann = issue.annotationId ? annotations.get(issue.annotationId) : undefined;
+      if (issue.devImageId !== devImage.id || issue.status === 'wont_fix' || !ann) return;
+      const box = toDesign(annotationBox(ann));
+      const hits = changes.filter(c => intersects(box, c));
+      if (hits.length > 0) reasons.set(issue.id, hits.slice(0, 3).map(c => c.label).join('、') + (hits.length > 3 ? ` 等 ${hits.length} 处` : ''));
+    });
+  }
+  const at = Date.now();
+  return {
+    issues: project.issues.map(issue => reasons.has(issue.id) ? { ...issue, needsRecheck: { reason: reasons.get(issue.id)!, at } } : issue),
+    flagged: reasons.size,
+  };
+};
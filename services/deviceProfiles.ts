@@ -0,0 +1,33 @@
+import { DevImage, DeviceProfile, Project } from '../types';
+import { loadImage } from './imageService';
+
+// 响应式走查用的设备/断点预设
+
+export const DEVICE_PRESETS: DeviceProfile[] = [
+  { id: 'iphone-15', name: 'iPhone 15', width: 393, dpr: 3, platform: 'ios' },
+  { id: 'android-360', name: 'Android 360dp', width: 360, dpr: 3, platform: 'android' },
+  { id: 'tablet-768', name: 'Tablet 768', width: 768, dpr: 2, platform: 'web' },
+  { id: 'desktop-1440', name: 'Desktop 1440', width: 1440, dpr: 1, platform: 'web' },
+];
+
+// 截图宽度与 width * dpr 的允许误差（滚动条、圆角裁切等）
+const WIDTH_TOLERANCE = 0.02;
+
+export const getProjectDevices = (project: Project): DeviceProfile[] => [
+  ...DEVICE_PRESETS,
+  ...(project.customDevices || []),
+];
+
+export const findDevice = (project: Project, deviceId: string | undefined): DeviceProfile | null =>
+  (deviceId && getProjectDevices(project).find(d => d.id === deviceId)) || null;
+
+export const getDevImageDevice = (project: Project, devImage: DevImage | undefined | null): DeviceProfile | null =>
+  findDevice(project, devImage?.deviceId);
+
+/**
+ * 按截图像素宽度推断设备：宽度接近某个设备的 width * dpr 即视为匹配。
+ */
+export const detectDevice = (imageWidth: number, devices: DeviceProfile[]): DeviceProfile | null =>
+  devices.find(d => Math.abs(imageWidth - d.width * d.dpr) <= d.width * d.dpr * WIDTH_TOLERANCE) ?? null;
+
+export const readImageWidth = (src: string): Promise<number> => loadImage(src).then(img => img.naturalWidth);
@@ -0,0 +1,105 @@
+import { Annotation, DomElement, DomSnapshot } from '../types';
+
+// DOM 快照：按标注或 AI 结论区域查找截图时页面上的元素，引用其选择器与计算样式
+
+type Box = { x: number; y: number; width: number; height: number };
+
+// AI 结论区域只引用面积不小于区域该比例的元素，避免落到图标、行内文字等小元素上
+const MIN_ELEMENT_AREA_RATIO = 0.25;
+// 标注下列出的元素数（命中的元素及其祖先）
+const MAX_ANNOTATION_ELEMENTS = 3;
+
+const area = (b: Box) => b.width * b.height;
+
+const contains = (b: Box, x: number, y: number) => x >= b.x && x <= b.x + b.width && y >= b.y && y <= b.y + b.height;
+
+// 实现图百分比 → 页面 CSS px
+export const pctToPage = (snapshot: DomSnapshot, box: Box): Box => ({
+  x: box.x / 100 * snapshot.width,
+  y: box.y / 100 * snapshot.height,
+  width: box.width / 100 * snapshot.width,
+  height: box.height / 100 * snapshot.height,
+});
+
+export const pageToPct = (snapshot: DomSnapshot, box: Box): Box => ({
+  x: box.x / snapshot.width * 100,
+  y: box.y / snapshot.height * 100,
+  width: box.width / snapshot.width * 100,
+  height: box.height / snapshot.height * 100,
+});
+
+// 包含该点的最内层元素；面积相同时取文档顺序靠后（嵌套更深）的元素
+export const elementAt = (snapshot: DomSnapshot, point: { x: number; y: number }) => {
+  let best: DomElement | null = null;
+  snapshot.elements.forEach(el => {
+    if (contains(el, point.x, point.y) && (!best || area(el) <= area(best))) best = el;
+  });
+  return best as DomElement | null;
+};
+
+// 包含区域中心、面积不小于区域 1/4 的最小元素
+export const elementForBox = (snapshot: DomSnapshot, box: Box) => {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  let best: DomElement | null = null;
+  snapshot.elements.forEach(el => {
+    if (!contains(el, cx, cy) || area(el) < area(box) * MIN_ELEMENT_AREA_RATIO) return;
+    if (!best || area(el) <= area(best)) best = el;
+  });
+  return best as DomElement | null;
+};
+
+const withAncestors = (snapshot: DomSnapshot, el: DomElement, count: number) => {
+  const chain = [el];
+  for (let p = el.parent; p !== undefined && chain.length < count; p = snapshot.elements[p]?.parent) {
+    chain.push(snapshot.elements[p]);
+  }
+  return chain;
+};
+
+/**
+ * 标注下的元素：取色点取所在的最内层元素，标尺取两个端点处的元素，区域取覆盖区域的元素；
+ * 只命中一个元素时同时列出其父元素，便于查看外边距与布局。
+ */
+export const elementsForAnnotation = (snapshot: DomSnapshot, ann: Annotation): DomElement[] => {
+  const box = pctToPage(snapshot, { x: ann.x, y: ann.y, width: ann.width || 0, height: ann.height || 0 });
+  let hits: (DomElement | null)[];
+  if (ann.endX !== undefined && ann.endY !== undefined) {
+    const end = pctToPage(snapshot, { x: ann.endX, y: ann.endY, width: 0, height: 0 });
+    hits = [elementAt(snapshot, box), elementAt(snapshot, end)];
+  } else if (box.width > 0 && box.height > 0) {
+    hits = [elementForBox(snapshot, box)];
+  } else {
+    hits = [elementAt(snapshot, box)];
+  }
+  const unique = hits.filter((el, i): el is DomElement => !!el && hits.indexOf(el) === i);
+  return unique.length === 1 ? withAncestors(snapshot, unique[0], MAX_ANNOTATION_ELEMENTS) : unique;
+};
+
+export const describeElementStyles = (el: DomElement): string[] =>
+  Object.entries(el.styles).map(([prop, value]) => `${prop}: ${value};`);
+
+const DECLARATION = /^[a-z-]+\s*:\s*[^;{}]+$/;
+
+/**
+ * 把 AI 给出的 CSS 声明写到实际元素的选择器下，并附上这些属性当前的计算值；
+ * 建议中包含声明以外的内容时只在前面注明元素。
+ */
+export const targetSuggestion = (suggestion: string, el: DomElement) => {
+  const parts = suggestion.split(/;|\n/).map(s => s.trim()).filter(Boolean);
+  if (parts.length === 0) return `/* ${el.selector} */`;
+  if (!parts.every(p => DECLARATION.test(p))) return `/* ${el.selector} */\n${suggestion}`;
+  const current = parts
+    .map(p => p.slice(0, p.indexOf(':')).trim())
+    .filter(prop => el.styles[prop])
+    .map(prop => `${prop}: ${el.styles[prop]}`);
+  return [
+    `${el.selector} {`,
+    ...parts.map(p => `  ${p};`),
+    '}',
+    current.length > 0 ? `/* 当前：${current.join('; ')} */` : '',
+  ].filter(Boolean).join('\n');
+};
+
+// AI 结论区域（实现图百分比）对应的页面元素
+export const createElementLocator = (snapshot: DomSnapshot) => (box: Box) => elementForBox(snapshot, pctToPage(snapshot, box));
@@ -0,0 +1,263 @@
+import { FigmaLayer, FigmaSettings } from '../types';
+
+// Figma REST API：解析链接，按节点导出 Frame 图片作为设计稿
+
+export const DEFAULT_FIGMA_API_BASE = 'https://api.figma.com';
+export const FIGMA_EXPORT_SCALES = [1, 2, 3, 4];
+// 未指定 node-id 时最多导入的 Frame 数
+const MAX_FRAMES = 20;
+// 可作为设计稿导出的顶层节点类型
+const FRAME_TYPES = ['FRAME', 'COMPONENT', 'COMPONENT_SET', 'SECTION', 'INSTANCE', 'GROUP'];
+// 每个 Frame 保存的节点数上限，超出部分（通常是深层矢量路径）丢弃
+const MAX_LAYERS = 3000;
+
+export interface FigmaLink {
+  fileKey: string;
+  nodeId?: string; // API 格式，如 12:34
+}
+
+export interface FigmaFrame {
+  nodeId: string;
+  name: string;
+  width: number; // Figma 画布单位（逻辑 px）
+  height: number;
+  data: string; // 按导出倍率渲染的 PNG data URL
+  layers: FigmaLayer[];
+}
+
+export interface FigmaImportResult {
+  fileKey: string;
+  fileName: string;
+  scale: number;
+  frames: FigmaFrame[];
+}
+
+/**
+ * 支持 /file、/design、/proto、/board 链接及分支链接；链接中的 node-id 为 12-34，API 使用 12:34。
+ */
+export const parseFigmaUrl = (url: string): FigmaLink | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  if (!/(^|\.)figma\.com$/.test(parsed.hostname)) return null;
+  const match = /^\/(?:file|design|proto|board)\/([A-Za-z0-9]+)(?:\/branch\/([A-Za-z0-9]+))?/.exec(parsed.pathname);
+  if (!match) return null;
+  const nodeId = parsed.searchParams.get('node-id');
+  return {
+    fileKey: match[2] || match[1],
+    nodeId: nodeId ? nodeId.replace(/-/g, ':') : undefined,
+  };
+};
+
+const request = async <T,>(settings: FigmaSettings, path: string, signal?: AbortSignal): Promise<T> => {
+  const base = (settings.apiBase || DEFAULT_FIGMA_API_BASE).replace(/\/$/, '');
+  let response: Response;
+  try {
+    response = await fetch(`${base}${path}`, { headers: { 'X-Figma-Token': settings.token || '' }, signal });
+  } catch (e: any) {
+    if (e?.name === 'AbortError') throw e;
+    throw new Error(`无法连接 Figma 服务 (${base})`);
+  }
+  if (!response.ok) {
+    const detail = await response.json().then(body => body?.err || body?.message, () => '');
+    if (response.status === 403) throw new Error('Figma Token 无效，或没有该文件的访问权限');
+    if (response.status === 404) throw new Error('Figma 文件或节点不存在');
+    if (response.status === 429) throw new Error('Figma 请求过于频繁，请稍后重试');
+    throw new Error(`Figma 请求失败 (${response.status})${detail ? `：${detail}` : ''}`);
+  }
+  return response.json();
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('图片读取失败'));
+    reader.readAsDataURL(blob);
+  });
+
+interface FigmaPaint {
+  type: string;
+  visible?: boolean;
+  opacity?: number;
+  color?: { r: number; g: number; b: number; a: number };
+}
+
+// REST API 节点中用到的字段
+interface FigmaNode {
+  id: string;
+  name: string;
+  type: string;
+  visible?: boolean;
+  absoluteBoundingBox?: { x: number; y: number; width: number; height: number } | null;
+  children?: FigmaNode[];
+  fills?: FigmaPaint[];
+  strokes?: FigmaPaint[];
+  strokeWeight?: number;
+  cornerRadius?: number;
+  opacity?: number;
+  characters?: string;
+  style?: { fontFamily?: string; fontWeight?: number; fontSize?: number; lineHeightPx?: number; letterSpacing?: number };
+  layoutMode?: 'NONE' | 'HORIZONTAL' | 'VERTICAL';
+  paddingTop?: number;
+  paddingRight?: number;
+  paddingBottom?: number;
+  paddingLeft?: number;
+  itemSpacing?: number;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const solidColor = (paints?: FigmaPaint[]) => {
+  const paint = paints?.find(p => p.type === 'SOLID' && p.visible !== false && p.color);
+  if (!paint) return undefined;
+  const hex = (v: number) => Math.round(v * 255).toString(16).padStart(2, '0');
+  return `#${hex(paint.color!.r)}${hex(paint.color!.g)}${hex(paint.color!.b)}`.toUpperCase();
+};
+
+/**
+ * 展开节点树，坐标换算为相对 Frame 左上角；隐藏节点及其子节点不保存。
+ */
+export const flattenFigmaLayers = (frame: FigmaNode): FigmaLayer[] => {
+  const origin = frame.absoluteBoundingBox;
+  if (!origin) return [];
+  const layers: FigmaLayer[] = [];
+  const visit = (node: FigmaNode, parentId?: string) => {
+    if (node.visible === false || layers.length >= MAX_LAYERS) return;
+    const box = node.absoluteBoundingBox;
+    if (box) {
+      const stroke = solidColor(node.strokes);
+      layers.push({
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        parentId,
+        x: round(box.x - origin.x),
+        y: round(box.y - origin.y),
+        width: round(box.width),
+        height: round(box.height),
+        fill: solidColor(node.fills),
+        ...(stroke && node.strokeWeight ? { stroke: { color: stroke, weight: node.strokeWeight } } : {}),
+        ...(node.cornerRadius ? { cornerRadius: node.cornerRadius } : {}),
+        ...(node.opacity !== undefined && node.opacity < 1 ? { opacity: round(node.opacity) } : {}),
+        ...(node.type === 'TEXT' && node.style?.fontSize ? {
+          text: {
+            characters: node.characters || '',
+            fontFamily: node.style.fontFamily || '',
+            fontSize: node.style.fontSize,
+            fontWeight: node.style.fontWeight || 400,
+            lineHeight: node.style.lineHeightPx !== undefined ? round(node.style.lineHeightPx) : undefined,
+            letterSpacing: node.style.letterSpacing ? round(node.style.letterSpacing) : undefined,
+          },
+        } : {}),
+        ...(node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL' ? {
+          layout: {
+            mode: node.layoutMode,
+            padding: [node.paddingTop || 0, node.paddingRight || 0, node.paddingBottom || 0, node.paddingLeft || 0],
+            gap: node.itemSpacing || 0,
+          },
+        } : {}),
+      });
+    }
+    node.children?.forEach(child => visit(child, node.id));
+  };
+  visit(frame);
+  return layers;
+};
+
+type NodesResponse = { name: string; nodes: Record<string, { document: FigmaNode } | null> };
+
+const fetchNodes = (settings: FigmaSettings, fileKey: string, ids: string[], signal?: AbortSignal) =>
+  request<NodesResponse>(settings, `/v1/files/${fileKey}/nodes?ids=${encodeURIComponent(ids.join(','))}`, signal);
+
+// 指定节点时导出该节点；未指定时导出第一个页面的顶层 Frame。返回的节点包含完整子树
+const resolveFrameNodes = async (settings: FigmaSettings, link: FigmaLink, signal?: AbortSignal) => {
+  if (link.nodeId) {
+    const body = await fetchNodes(settings, link.fileKey, [link.nodeId], signal);
+    const node = body.nodes[link.nodeId]?.document;
+    if (!node) throw new Error('Figma 文件或节点不存在');
+    // 选中的是页面时导出其中的 Frame
+    const nodes = node.type === 'CANVAS' ? (node.children || []).filter(n => FRAME_TYPES.includes(n.type)) : [node];
+    return { fileName: body.name, nodes };
+  }
+  const body = await request<{ name: string; document: FigmaNode }>(settings, `/v1/files/${link.fileKey}?depth=2`, signal);
+  const page = body.document.children?.[0];
+  const frames = (page?.children || []).filter(n => FRAME_TYPES.includes(n.type)).slice(0, MAX_FRAMES);
+  if (frames.length === 0) return { fileName: body.name, nodes: [] };
+  // depth=2 只到 Frame 本身，再按 id 取完整子树
+  const detail = await fetchNodes(settings, link.fileKey, frames.map(n => n.id), signal);
+  return { fileName: body.name, nodes: frames.map(n => detail.nodes[n.id]?.document ?? n) };
+};
+
+type FetchOptions = { signal?: AbortSignal; onProgress?: (done: number, total: number) => void };
+
+// 按倍率导出节点 PNG 并下载为 data URL
+const renderFrames = async (
+  settings: FigmaSettings,
+  fileKey: string,
+  frames: FigmaNode[],
+  scale: number,
+  options: FetchOptions
+): Promise<FigmaFrame[]> => {
+  const ids = frames.map(n => n.id).join(',');
+  const rendered = await request<{ err: string | null; images: Record<string, string | null> }>(
+    settings, `/v1/images/${fileKey}?ids=${encodeURIComponent(ids)}&scale=${scale}&format=png`, options.signal
+  );
+  if (rendered.err) throw new Error(`Figma 导出失败：${rendered.err}`);
+
+  const result: FigmaFrame[] = [];
+  for (const node of frames) {
+    const imageUrl = rendered.images[node.id];
+    if (!imageUrl) continue; // 不可见或空节点 Figma 返回 null
+    const response = await fetch(imageUrl, { signal: options.signal });
+    if (!response.ok) throw new Error(`下载「${node.name}」失败 (${response.status})`);
+    result.push({
+      nodeId: node.id,
+      name: node.name,
+      width: node.absoluteBoundingBox?.width ?? 0,
+      height: node.absoluteBoundingBox?.height ?? 0,
+      data: await blobToDataUrl(await response.blob()),
+      layers: flattenFigmaLayers(node),
+    });
+    options.onProgress?.(result.length, frames.length);
+  }
+  if (result.length === 0) throw new Error('Figma 没有返回可用的图片');
+  return result;
+};
+
+/**
+ * 拉取 Frame 信息并按倍率导出 PNG。onProgress 报告已下载的 Frame 数。
+ */
+export const fetchFigmaFrames = async (
+  settings: FigmaSettings,
+  link: FigmaLink,
+  scale: number,
+  options: FetchOptions = {}
+): Promise<FigmaImportResult> => {
+  if (!settings.token) throw new Error('请填写 Figma Personal Access Token');
+  const { fileName, nodes } = await resolveFrameNodes(settings, link, options.signal);
+  const frames = nodes.slice(0, MAX_FRAMES);
+  if (frames.length === 0) throw new Error('没有找到可导出的 Frame');
+  return { fileKey: link.fileKey, fileName, scale, frames: await renderFrames(settings, link.fileKey, frames, scale, options) };
+};
+
+/**
+ * 重新同步：按已导入的节点 id 重新导出；节点已被删除时报错，不做部分更新。
+ */
+export const refetchFigmaFrames = async (
+  settings: FigmaSettings,
+  fileKey: string,
+  nodeIds: string[],
+  scale: number,
+  options: FetchOptions = {}
+): Promise<FigmaImportResult> => {
+  if (!settings.token) throw new Error('请填写 Figma Personal Access Token');
+  const body = await fetchNodes(settings, fileKey, nodeIds, options.signal);
+  const missing = nodeIds.filter(id => !body.nodes[id]?.document);
+  if (missing.length > 0) throw new Error(`Figma 中找不到节点 ${missing.join(', ')}，可能已被删除`);
+  const frames = nodeIds.map(id => body.nodes[id]!.document);
+  return { fileKey, fileName: body.name, scale, frames: await renderFrames(settings, fileKey, frames, scale, options) };
+};
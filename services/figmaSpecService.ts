@@ -0,0 +1,209 @@
+import { FigmaLayer } from '../types';
+import { loadImage } from './imageService';
+
+// Figma 规格：按位置查找节点、生成 CSS 规格，标尺端点吸附到节点边缘取精确值
+
+export interface SpecBox {
+  x: number; // 设计稿逻辑 px（相对 Frame）
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 实现图百分比坐标换算到 Frame 逻辑坐标所需的参数
+export interface SpecProjection {
+  devSize: { w: number; h: number }; // 实现图 px
+  offset: { x: number; y: number }; // 叠加对齐参数，实现图 px
+  scale: number;
+  designDpr: number; // 设计稿图片 px / Frame 逻辑 px
+}
+
+export interface MeasureSpec {
+  value: number; // 逻辑 px
+  property?: string; // 对应的 CSS 属性，如 padding-left、gap、width
+  label: string;
+}
+
+// 标尺端点与节点边缘相距不超过该值（逻辑 px）时吸附
+const EDGE_SNAP = 3;
+// AI 结论区域只引用面积不小于区域该比例的节点，避免落到图标等小节点上
+const MIN_LAYER_AREA_RATIO = 0.25;
+
+const area = (l: SpecBox) => l.width * l.height;
+
+const contains = (l: SpecBox, x: number, y: number) => x >= l.x && x <= l.x + l.width && y >= l.y && y <= l.y + l.height;
+
+const overlap = (a: SpecBox, b: SpecBox) => {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return w > 0 && h > 0 ? w * h : 0;
+};
+
+const px = (v: number) => `${Math.round(v * 100) / 100}px`;
+
+export const devBoxToDesign = (box: SpecBox, p: SpecProjection): SpecBox => ({
+  x: (box.x / 100 * p.devSize.w - p.offset.x) / p.scale / p.designDpr,
+  y: (box.y / 100 * p.devSize.h - p.offset.y) / p.scale / p.designDpr,
+  width: box.width / 100 * p.devSize.w / p.scale / p.designDpr,
+  height: box.height / 100 * p.devSize.h / p.scale / p.designDpr,
+});
+
+export const designBoxToDev = (box: SpecBox, p: SpecProjection): SpecBox => ({
+  x: (box.x * p.designDpr * p.scale + p.offset.x) / p.devSize.w * 100,
+  y: (box.y * p.designDpr * p.scale + p.offset.y) / p.devSize.h * 100,
+  width: box.width * p.designDpr * p.scale / p.devSize.w * 100,
+  height: box.height * p.designDpr * p.scale / p.devSize.h * 100,
+});
+
+// 包含该点的最小节点；面积相同时取绘制顺序靠后（位于上层）的节点
+export const layerAt = (layers: FigmaLayer[], point: { x: number; y: number }) => {
+  let best: FigmaLayer | null = null;
+  layers.forEach(l => {
+    if (contains(l, point.x, point.y) && (!best || area(l) <= area(best))) best = l;
+  });
+  return best as FigmaLayer | null;
+};
+
+// 包含区域中心、面积不小于区域 1/4 的最小节点；Frame 本身不作为结果
+export const layerForBox = (layers: FigmaLayer[], box: SpecBox) => {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  let best: FigmaLayer | null = null;
+  layers.forEach(l => {
+    if (!l.parentId || !contains(l, cx, cy) || area(l) < area(box) * MIN_LAYER_AREA_RATIO) return;
+    if (!best || area(l) <= area(best)) best = l;
+  });
+  return best as FigmaLayer | null;
+};
+
+// 与选区重叠面积最大的文字节点
+export const textLayerForBox = (layers: FigmaLayer[], box: SpecBox) => {
+  let best: FigmaLayer | null = null;
+  let bestOverlap = 0;
+  layers.forEach(l => {
+    if (!l.text) return;
+    const o = overlap(l, box);
+    if (o > bestOverlap) {
+      best = l;
+      bestOverlap = o;
+    }
+  });
+  return best as FigmaLayer | null;
+};
+
+const shorthand = ([t, r, b, l]: number[]) =>
+  t === r && r === b && b === l ? px(t) : t === b && r === l ? `${px(t)} ${px(r)}` : [t, r, b, l].map(px).join(' ');
+
+/**
+ * 节点规格的 CSS 声明列表；文字节点输出字体样式，其余节点输出尺寸、Auto layout、填充与描边。
+ */
+export const describeLayerSpec = (layer: FigmaLayer): string[] => {
+  if (layer.text) {
+    return [
+      layer.text.fontFamily ? `font-family: "${layer.text.fontFamily}";` : '',
+      `font-size: ${px(layer.text.fontSize)};`,
+      `font-weight: ${layer.text.fontWeight};`,
+      layer.text.lineHeight !== undefined ? `line-height: ${px(layer.text.lineHeight)};` : '',
+      layer.text.letterSpacing ? `letter-spacing: ${px(layer.text.letterSpacing)};` : '',
+      layer.fill ? `color: ${layer.fill};` : '',
+      layer.opacity !== undefined ? `opacity: ${layer.opacity};` : '',
+    ].filter(Boolean);
+  }
+  return [
+    `width: ${px(layer.width)};`,
+    `height: ${px(layer.height)};`,
+    layer.layout ? `flex-direction: ${layer.layout.mode === 'HORIZONTAL' ? 'row' : 'column'};` : '',
+    layer.layout && layer.layout.padding.some(v => v > 0) ? `padding: ${shorthand(layer.layout.padding)};` : '',
+    layer.layout && layer.layout.gap ? `gap: ${px(layer.layout.gap)};` : '',
+    layer.fill ? `background: ${layer.fill};` : '',
+    layer.cornerRadius ? `border-radius: ${px(layer.cornerRadius)};` : '',
+    layer.stroke ? `border: ${px(layer.stroke.weight)} solid ${layer.stroke.color};` : '',
+    layer.opacity !== undefined ? `opacity: ${layer.opacity};` : '',
+  ].filter(Boolean);
+};
+
+// 引用到问题建议中的规格注释
+export const formatLayerSpec = (layer: FigmaLayer) => `/* Figma「${layer.name}」: ${describeLayerSpec(layer).join(' ')} */`;
+
+type Edge = { pos: number; side: 'start' | 'end'; layer: FigmaLayer };
+
+const nearestEdge = (layers: FigmaLayer[], horizontal: boolean, point: { x: number; y: number }) => {
+  let best: Edge | null = null;
+  let bestDistance = EDGE_SNAP;
+  const along = horizontal ? point.x : point.y;
+  const across = horizontal ? point.y : point.x;
+  layers.forEach(l => {
+    const start = horizontal ? l.x : l.y;
+    const size = horizontal ? l.width : l.height;
+    const crossStart = horizontal ? l.y : l.x;
+    const crossSize = horizontal ? l.height : l.width;
+    // 端点需要落在节点的横向（或纵向）范围内，避免吸附到远处不相关的节点
+    if (across < crossStart - EDGE_SNAP || across > crossStart + crossSize + EDGE_SNAP) return;
+    ([[start, 'start'], [start + size, 'end']] as const).forEach(([pos, side]) => {
+      const distance = Math.abs(pos - along);
+      // 距离相同时取面积更小的节点（通常是端点所指的元素本身）
+      if (distance < bestDistance || (distance === bestDistance && best && area(l) < area(best.layer))) {
+        best = { pos, side, layer: l };
+        bestDistance = distance;
+      }
+    });
+  });
+  return best as Edge | null;
+};
+
+/**
+ * 标尺两端吸附到节点边缘后的精确距离，并按节点关系识别为内边距、间距或尺寸；端点附近没有节点边缘时返回 null。
+ */
+export const measureSpec = (
+  layers: FigmaLayer[],
+  line: { x1: number; y1: number; x2: number; y2: number }
+): MeasureSpec | null => {
+  const horizontal = Math.abs(line.x2 - line.x1) >= Math.abs(line.y2 - line.y1);
+  const e1 = nearestEdge(layers, horizontal, { x: line.x1, y: line.y1 });
+  const e2 = nearestEdge(layers, horizontal, { x: line.x2, y: line.y2 });
+  if (!e1 || !e2) return null;
+  const [a, b] = e1.pos <= e2.pos ? [e1, e2] : [e2, e1];
+  const value = Math.round((b.pos - a.pos) * 100) / 100;
+  if (value <= 0) return null;
+
+  const [startSide, endSide] = horizontal ? ['left', 'right'] : ['top', 'bottom'];
+  if (a.layer.id === b.layer.id && a.side === 'start' && b.side === 'end') {
+    return { value, property: horizontal ? 'width' : 'height', label: `「${a.layer.name}」${horizontal ? '宽度' : '高度'}` };
+  }
+  if (b.layer.parentId === a.layer.id && a.side === 'start' && b.side === 'start') {
+    return { value, property: `padding-${startSide}`, label: `「${a.layer.name}」内边距` };
+  }
+  if (a.layer.parentId === b.layer.id && a.side === 'end' && b.side === 'end') {
+    return { value, property: `padding-${endSide}`, label: `「${b.layer.name}」内边距` };
+  }
+  if (a.layer.parentId && a.layer.parentId === b.layer.parentId && a.side === 'end' && b.side === 'start') {
+    const parent = layers.find(l => l.id === a.layer.parentId);
+    const isFlowAxis = parent?.layout && (parent.layout.mode === 'HORIZONTAL') === horizontal;
+    return {
+      value,
+      property: isFlowAxis ? 'gap' : undefined,
+      label: isFlowAxis ? `「${parent!.name}」间距` : `「${a.layer.name}」与「${b.layer.name}」间距`,
+    };
+  }
+  return { value, label: `「${a.layer.name}」${a.side === 'start' ? startSide : endSide} 到「${b.layer.name}」${b.side === 'start' ? startSide : endSide}` };
+};
+
+/**
+ * 读取两张图片尺寸生成投影参数；没有对齐参数时按宽度等比缩放到实现图。
+ */
+export const createSpecProjection = async (
+  design: string,
+  dev: string,
+  designDpr: number,
+  alignment?: { offset: { x: number; y: number }; scale: number }
+): Promise<SpecProjection> => {
+  const [devImg, designImg] = await Promise.all([loadImage(dev), loadImage(design)]);
+  const { offset, scale } = alignment ?? { offset: { x: 0, y: 0 }, scale: devImg.naturalWidth / designImg.naturalWidth };
+  return { devSize: { w: devImg.naturalWidth, h: devImg.naturalHeight }, offset, scale, designDpr };
+};
+
+// AI 结论区域（实现图百分比）对应节点的规格注释
+export const createSpecLocator = (layers: FigmaLayer[], projection: SpecProjection) => (box: SpecBox) => {
+  const layer = layerForBox(layers, devBoxToDesign(box, projection));
+  return layer ? formatLayerSpec(layer) : null;
+};
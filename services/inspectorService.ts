@@ -0,0 +1,97 @@
+// 检查工具：在采样图像上识别光标所在元素的边界，并量出到相邻元素的间距（Figma 式红线）
+
+export interface InspectBox {
+  left: number; // 图片 px，包含
+  top: number;
+  right: number; // 图片 px，不包含
+  bottom: number;
+}
+
+export interface InspectGaps {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface InspectResult {
+  point: { x: number; y: number }; // 取样点（图片 px），红线沿该点所在的行/列绘制
+  box: InspectBox;
+  gaps: InspectGaps; // 到相邻元素或图片边缘的距离
+}
+
+// 相邻像素任一通道相差超过该值即视为边缘
+const EDGE_THRESHOLD = 24;
+// 元素宽或高小于该值时认为落在抗锯齿或描边上，不显示
+const MIN_ELEMENT_SIZE = 2;
+
+const colorAt = (image: ImageData, x: number, y: number) => {
+  const i = (y * image.width + x) * 4;
+  return [image.data[i], image.data[i + 1], image.data[i + 2]];
+};
+
+const isSimilar = (a: number[], b: number[]) =>
+  Math.abs(a[0] - b[0]) <= EDGE_THRESHOLD && Math.abs(a[1] - b[1]) <= EDGE_THRESHOLD && Math.abs(a[2] - b[2]) <= EDGE_THRESHOLD;
+
+/**
+ * 从 (x, y) 沿 (dx, dy) 方向前进，直到颜色与 ref 不同或到达图片边缘，返回最后一个相似像素的坐标。
+ */
+const scanWhileSimilar = (image: ImageData, x: number, y: number, dx: number, dy: number, ref: number[]) => {
+  let cx = x;
+  let cy = y;
+  while (true) {
+    const nx = cx + dx;
+    const ny = cy + dy;
+    if (nx < 0 || ny < 0 || nx >= image.width || ny >= image.height) break;
+    if (!isSimilar(colorAt(image, nx, ny), ref)) break;
+    cx = nx;
+    cy = ny;
+  }
+  return dx !== 0 ? cx : cy;
+};
+
+// 从元素边缘外侧第一个像素开始，越过同色背景直到遇到下一条边缘
+const measureGap = (image: ImageData, x: number, y: number, dx: number, dy: number) => {
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height) return 0;
+  const end = scanWhileSimilar(image, x, y, dx, dy, colorAt(image, x, y));
+  return Math.abs(end - (dx !== 0 ? x : y)) + 1;
+};
+
+export const inspectAt = (image: ImageData, x: number, y: number): InspectResult | null => {
+  const px = Math.floor(x);
+  const py = Math.floor(y);
+  if (px < 0 || py < 0 || px >= image.width || py >= image.height) return null;
+
+  const ref = colorAt(image, px, py);
+  const box: InspectBox = {
+    left: scanWhileSimilar(image, px, py, -1, 0, ref),
+    right: scanWhileSimilar(image, px, py, 1, 0, ref) + 1,
+    top: scanWhileSimilar(image, px, py, 0, -1, ref),
+    bottom: scanWhileSimilar(image, px, py, 0, 1, ref) + 1,
+  };
+  if (box.right - box.left < MIN_ELEMENT_SIZE || box.bottom - box.top < MIN_ELEMENT_SIZE) return null;
+
+  return {
+    point: { x: px, y: py },
+    box,
+    gaps: {
+      left: measureGap(image, box.left - 1, py, -1, 0),
+      right: measureGap(image, box.right, py, 1, 0),
+      top: measureGap(image, px, box.top - 1, 0, -1),
+      bottom: measureGap(image, px, box.bottom, 0, 1),
+    },
+  };
+};
+
+/**
+ * 实现图坐标按叠加对齐参数换算到设计稿坐标（设计稿以 offset 平移、scale 缩放叠在实现图上）。
+ */
+export const projectToDesign = (point: { x: number; y: number }, offset: { x: number; y: number }, scale: number) => ({
+  x: (point.x - offset.x) / scale,
+  y: (point.y - offset.y) / scale,
+});
+
+export const readImageData = (canvas: HTMLCanvasElement): ImageData | null => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  return ctx ? ctx.getImageData(0, 0, canvas.width, canvas.height) : null;
+};
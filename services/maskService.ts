@@ -0,0 +1,93 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AiFinding, Annotation, MaskTemplate, Project } from '../types';
+import { DiffRegion } from './pixelDiffService';
+import { loadImage } from './imageService';
+
+// 忽略区域：时间戳、头像、广告、轮播等动态内容不参与 AI 分析、像素比对、文案比对与报告
+
+// 遮盖时填充的中性灰，两张图填充相同颜色，AI 不会把遮盖处当作差异
+const MASK_FILL = '#808080';
+
+export const getMaskRegions = (project: Project, devImageId: string): DiffRegion[] =>
+  project.annotations
+    .filter(a => a.type === 'mask' && a.devImageId === devImageId && a.width && a.height)
+    .map(a => ({ x: a.x, y: a.y, width: a.width!, height: a.height! }));
+
+// 区域在 mask 内的面积比例超过 minRatio 时视为被忽略
+export const isMasked = (region: DiffRegion, masks: DiffRegion[], minRatio = 0.5) => {
+  const area = region.width * region.height;
+  if (area <= 0) return false;
+  return masks.some(m => {
+    const w = Math.min(region.x + region.width, m.x + m.width) - Math.max(region.x, m.x);
+    const h = Math.min(region.y + region.height, m.y + m.height) - Math.max(region.y, m.y);
+    return w > 0 && h > 0 && (w * h) / area >= minRatio;
+  });
+};
+
+// 遮盖后 AI 仍可能对灰块本身给出结论，区域主要落在忽略区域内的一律丢弃
+export const dropMaskedFindings = (findings: AiFinding[], masks: DiffRegion[]) => {
+  if (masks.length === 0) return findings;
+  return findings.filter(f => {
+    if (!f.boundingBox) return true;
+    const [ymin, xmin, ymax, xmax] = f.boundingBox;
+    return !isMasked({ x: xmin / 10, y: ymin / 10, width: (xmax - xmin) / 10, height: (ymax - ymin) / 10 }, masks);
+  });
+};
+
+/**
+ * 把区域（百分比坐标）涂成纯色后返回 PNG data URL；没有区域时原样返回。
+ */
+export const blankRegions = async (src: string, regions: DiffRegion[]): Promise<string> => {
+  if (regions.length === 0) return src;
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0);
+  ctx.fillStyle = MASK_FILL;
+  regions.forEach(r => {
+    ctx.fillRect(r.x / 100 * canvas.width, r.y / 100 * canvas.height, r.width / 100 * canvas.width, r.height / 100 * canvas.height);
+  });
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * AI 分析前遮盖两张图的忽略区域；设计稿一侧按叠加对齐参数（实现图 px）投影，
+ * 没有对齐参数时按宽度等比缩放到实现图。
+ */
+export const maskImagesForAnalysis = async (
+  design: string,
+  dev: string,
+  masks: DiffRegion[],
+  alignment?: { offset: { x: number; y: number }; scale: number }
+): Promise<{ design: string; dev: string }> => {
+  if (masks.length === 0) return { design, dev };
+  const [devImg, designImg] = await Promise.all([loadImage(dev), loadImage(design)]);
+  const { offset, scale } = alignment ?? { offset: { x: 0, y: 0 }, scale: devImg.naturalWidth / designImg.naturalWidth };
+  const designMasks = masks.map(m => {
+    const x = (m.x / 100 * devImg.naturalWidth - offset.x) / scale;
+    const y = (m.y / 100 * devImg.naturalHeight - offset.y) / scale;
+    return {
+      x: x / designImg.naturalWidth * 100,
+      y: y / designImg.naturalHeight * 100,
+      width: m.width / 100 * devImg.naturalWidth / scale / designImg.naturalWidth * 100,
+      height: m.height / 100 * devImg.naturalHeight / scale / designImg.naturalHeight * 100,
+    };
+  });
+  const [maskedDesign, maskedDev] = await Promise.all([blankRegions(design, designMasks), blankRegions(dev, masks)]);
+  return { design: maskedDesign, dev: maskedDev };
+};
+
+// 模板按设计稿（页面）与设备区分，不同断点的布局不同
+export const findMaskTemplate = (project: Project, designImageId: string | undefined, deviceId?: string) =>
+  (project.maskTemplates || []).find(t => t.designImageId === designImageId && (t.deviceId || null) === (deviceId || null)) ?? null;
+
+export const createMaskAnnotations = (template: MaskTemplate, devImageId: string): Annotation[] =>
+  template.regions.map(r => ({
+    id: uuidv4(),
+    devImageId,
+    ...r,
+    text: r.text || '忽略区域',
+    type: 'mask' as const,
+  }));
@@ -0,0 +1,93 @@
+import { Annotation, DeviceProfile, ImageCalibration, MeasureUnit } from '../types';
+
+// 测量值换算：图片像素 -> 逻辑像素 -> px/pt/dp/rem
+
+export const DEFAULT_ROOT_FONT_SIZE = 16;
+
+export const MEASURE_UNITS: { id: MeasureUnit; label: string }[] = [
+  { id: 'px', label: 'px' },
+  { id: 'pt', label: 'pt' },
+  { id: 'dp', label: 'dp' },
+  { id: 'rem', label: 'rem' },
+];
+
+export interface ResolvedCalibration {
+  dpr: number;
+  rootFontSize: number;
+}
+
+export const defaultUnitFor = (device: DeviceProfile | null): MeasureUnit => {
+  if (device?.platform === 'ios') return 'pt';
+  if (device?.platform === 'android') return 'dp';
+  return 'px';
+};
+
+/**
+ * 图片未标定时按设备的 dpr 换算，都没有时视为 1x。
+ */
+export const resolveCalibration = (calibration: ImageCalibration | undefined, device: DeviceProfile | null): ResolvedCalibration => ({
+  dpr: calibration?.dpr || device?.dpr || 1,
+  rootFontSize: calibration?.rootFontSize || DEFAULT_ROOT_FONT_SIZE,
+});
+
+/**
+ * 按画布逻辑宽度标定，如 750px 宽的 @2x 设计稿标为 375。
+ */
+export const calibrationFromCanvasWidth = (imageWidth: number, canvasWidth: number, rootFontSize?: number): ImageCalibration => ({
+  dpr: imageWidth / canvasWidth,
+  canvasWidth,
+  ...(rootFontSize ? { rootFontSize } : {}),
+});
+
+const round = (n: number, digits: number) => {
+  const f = Math.pow(10, digits);
+  return Math.round(n * f) / f;
+};
+
+export const toLogical = (imagePx: number, calibration: ResolvedCalibration) => imagePx / calibration.dpr;
+
+export const formatLogical = (logical: number, unit: MeasureUnit, rootFontSize = DEFAULT_ROOT_FONT_SIZE) =>
+  unit === 'rem' ? `${round(logical / rootFontSize, 3)}rem` : `${round(logical, 1)}${unit}`;
+
+export const formatImagePx = (imagePx: number, unit: MeasureUnit, calibration: ResolvedCalibration) =>
+  formatLogical(toLogical(imagePx, calibration), unit, calibration.rootFontSize);
+
+/**
+ * 用户以当前单位输入的值换算回逻辑像素，无法解析时返回 null。
+ */
+export const parseLogical = (input: string, unit: MeasureUnit, rootFontSize = DEFAULT_ROOT_FONT_SIZE): number | null => {
+  const value = parseFloat(input);
+  if (!Number.isFinite(value) || value < 0) return null;
+  return unit === 'rem' ? value * rootFontSize : value;
+};
+
+export const measureLineLength = (ann: Pick<Annotation, 'x' | 'y' | 'endX' | 'endY'>, naturalSize: { w: number; h: number }) =>
+  Math.sqrt(
+    Math.pow(((ann.endX ?? ann.x) - ann.x) / 100 * naturalSize.w, 2) +
+    Math.pow(((ann.endY ?? ann.y) - ann.y) / 100 * naturalSize.h, 2)
+  );
+
+export interface MeasurementDescription {
+  unit: MeasureUnit;
+  actual: string;
+  expected?: string;
+  delta?: string;
+}
+
+/**
+ * 测量标注的“期望 / 实际”描述；旧数据没有 pixelLength 时返回 null。
+ */
+export const describeMeasurement = (ann: Annotation, unit: MeasureUnit, calibration: ResolvedCalibration): MeasurementDescription | null => {
+  if (ann.type !== 'measure' || ann.pixelLength === undefined) return null;
+  const actual = toLogical(ann.pixelLength, calibration);
+  const delta = ann.expected !== undefined ? actual - ann.expected : undefined;
+  return {
+    unit,
+    actual: formatLogical(actual, unit, calibration.rootFontSize),
+    expected: ann.expected !== undefined ? formatLogical(ann.expected, unit, calibration.rootFontSize) : undefined,
+    // 小于半个逻辑像素视为一致
+    delta: delta !== undefined && Math.abs(delta) >= 0.5
+      ? `${delta > 0 ? '+' : '-'}${formatLogical(Math.abs(delta), unit, calibration.rootFontSize)}`
+      : undefined,
+  };
+};
@@ -0,0 +1,75 @@
+import { createWorker, Worker } from 'tesseract.js';
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+import corePath from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import chiSimDataUrl from '@tesseract.js-data/chi_sim/4.0.0_best_int/chi_sim.traineddata.gz?url';
+import engDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import { TextLine } from './textDiffService';
+import { loadImage } from './imageService';
+
+// 本地文字识别：Tesseract WASM 与语言包都随应用打包，识别过程不经过网络
+
+const LANGUAGE_DATA: Record<string, string> = {
+  chi_sim: chiSimDataUrl,
+  eng: engDataUrl,
+};
+
+export interface OcrResult {
+  width: number; // 图片 px
+  height: number;
+  lines: TextLine[];
+}
+
+let workerPromise: Promise<Worker> | null = null;
+let progressListener: ((percent: number) => void) | null = null;
+
+// 语言包按打包后的地址读取，以 { code, data } 形式交给 worker，worker 自行解压 .gz
+const loadLanguageData = (code: string) =>
+  fetch(LANGUAGE_DATA[code])
+    .then(response => {
+      if (!response.ok) throw new Error(`${code} 语言包加载失败 (${response.status})`);
+      return response.arrayBuffer();
+    })
+    .then(buffer => ({ code, data: new Uint8Array(buffer) }));
+
+const getWorker = () => {
+  if (!workerPromise) {
+    workerPromise = Promise.all(Object.keys(LANGUAGE_DATA).map(loadLanguageData)).then(langs => createWorker(langs, undefined, {
+      workerPath,
+      corePath,
+      cacheMethod: 'none',
+      logger: message => {
+        if (message.status === 'recognizing text') progressListener?.(Math.round(message.progress * 100));
+      },
+    })).catch(err => {
+      workerPromise = null;
+      console.error(err);
+      throw new Error('文字识别模型加载失败');
+    });
+  }
+  return workerPromise;
+};
+
+/**
+ * 识别图片中的文字行，坐标为图片像素；同一时间只处理一张图片。
+ */
+export const recognizeTextLines = async (src: string, onProgress?: (percent: number) => void): Promise<OcrResult> => {
+  const [worker, img] = await Promise.all([getWorker(), loadImage(src)]);
+  progressListener = onProgress || null;
+  try {
+    const { data } = await worker.recognize(img, {}, { blocks: true });
+    const lines: TextLine[] = [];
+    (data.blocks || []).forEach(block => block.paragraphs.forEach(paragraph => paragraph.lines.forEach(line => {
+      lines.push({
+        text: line.text.trim(),
+        confidence: line.confidence,
+        x: line.bbox.x0,
+        y: line.bbox.y0,
+        width: line.bbox.x1 - line.bbox.x0,
+        height: line.bbox.y1 - line.bbox.y0,
+      });
+    })));
+    return { width: img.naturalWidth, height: img.naturalHeight, lines };
+  } finally {
+    progressListener = null;
+  }
+};
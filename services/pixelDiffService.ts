@@ -0,0 +1,208 @@
+import { loadImage } from './imageService';
+
+// 本地像素比对：不依赖网络，结果可复现，可作为 AI 结论的“真值”参照
+
+export interface DiffRegion {
+  // 百分比坐标 (0-100)，与 Annotation 一致
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PixelDiffOptions {
+  threshold: number; // 单通道容差 (0-255)，任一通道差值超过即视为不同
+  antiAliasRadius: number; // 抗锯齿容差半径 (px)，邻域内能找到匹配像素时忽略该差异
+  minClusterArea: number; // 最小聚类面积 (px²)，过滤零星噪点
+  ignoreRegions: DiffRegion[];
+}
+
+export interface DiffCluster extends DiffRegion {
+  pixelCount: number;
+}
+
+export interface PixelDiffResult {
+  width: number;
+  height: number;
+  diffPixels: number;
+  diffRatio: number;
+  heatmap: string; // 透明底 PNG data URL，尺寸与实现图一致
+  clusters: DiffCluster[];
+}
+
+export const DEFAULT_PIXEL_DIFF_OPTIONS: PixelDiffOptions = {
+  threshold: 24,
+  antiAliasRadius: 1,
+  minClusterArea: 64,
+  ignoreRegions: [],
+};
+
+// 聚类网格大小 (px)：差异像素先落到网格，再对网格做连通域
+const CELL_SIZE = 8;
+
+// 图片按 placement（实现图 px 中的位置与等比缩放）画到 width×height 的画布上
+const readPixels = (
+  img: HTMLImageElement, width: number, height: number,
+  placement: { offset: { x: number; y: number }; scale: number }
+): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, placement.offset.x, placement.offset.y, img.naturalWidth * placement.scale, img.naturalHeight * placement.scale);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+const buildIgnoreMask = (regions: DiffRegion[], width: number, height: number): Uint8Array | null => {
+  if (regions.length === 0) return null;
+  const mask = new Uint8Array(width * height);
+  regions.forEach(r => {
+    const x0 = Math.max(0, Math.floor((r.x / 100) * width));
+    const y0 = Math.max(0, Math.floor((r.y / 100) * height));
+    const x1 = Math.min(width, Math.ceil(((r.x + r.width) / 100) * width));
+    const y1 = Math.min(height, Math.ceil(((r.y + r.height) / 100) * height));
+    for (let y = y0; y < y1; y++) mask.fill(1, y * width + x0, y * width + x1);
+  });
+  return mask;
+};
+
+const channelsMatch = (a: Uint8ClampedArray, ai: number, b: Uint8ClampedArray, bi: number, threshold: number) =>
+  Math.abs(a[ai] - b[bi]) <= threshold &&
+  Math.abs(a[ai + 1] - b[bi + 1]) <= threshold &&
+  Math.abs(a[ai + 2] - b[bi + 2]) <= threshold &&
+  Math.abs(a[ai + 3] - b[bi + 3]) <= threshold;
+
+// 边缘抗锯齿、亚像素偏移：在对方图像的邻域内找到相近像素即认为一致
+const hasNeighbourMatch = (
+  src: Uint8ClampedArray, target: Uint8ClampedArray,
+  x: number, y: number, width: number, height: number,
+  radius: number, threshold: number
+) => {
+  const si = (y * width + x) * 4;
+  for (let dy = -radius; dy <= radius; dy++) {
+    const ny = y + dy;
+    if (ny < 0 || ny >= height) continue;
+    for (let dx = -radius; dx <= radius; dx++) {
+      const nx = x + dx;
+      if ((dx === 0 && dy === 0) || nx < 0 || nx >= width) continue;
+      if (channelsMatch(src, si, target, (ny * width + nx) * 4, threshold)) return true;
+    }
+  }
+  return false;
+};
+
+const clusterCells = (
+  cellCounts: Uint32Array, cols: number, rows: number,
+  width: number, height: number, minArea: number
+): DiffCluster[] => {
+  const visited = new Uint8Array(cols * rows);
+  const clusters: DiffCluster[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < cellCounts.length; start++) {
+    if (!cellCounts[start] || visited[start]) continue;
+    let minCol = cols, minRow = rows, maxCol = 0, maxRow = 0, pixelCount = 0;
+    visited[start] = 1;
+    stack.push(start);
+
+    while (stack.length) {
+      const cell = stack.pop()!;
+      const col = cell % cols;
+      const row = (cell - col) / cols;
+      pixelCount += cellCounts[cell];
+      minCol = Math.min(minCol, col); maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row); maxRow = Math.max(maxRow, row);
+
+      // 5x5 邻域：相隔一格的差异网格也合并为同一区域
+      for (let dr = -2; dr <= 2; dr++) {
+        for (let dc = -2; dc <= 2; dc++) {
+          const nc = col + dc, nr = row + dr;
+          if (nc < 0 || nr < 0 || nc >= cols || nr >= rows) continue;
+          const next = nr * cols + nc;
+          if (cellCounts[next] && !visited[next]) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    if (pixelCount < minArea) continue;
+    const px0 = minCol * CELL_SIZE, py0 = minRow * CELL_SIZE;
+    const px1 = Math.min(width, (maxCol + 1) * CELL_SIZE), py1 = Math.min(height, (maxRow + 1) * CELL_SIZE);
+    clusters.push({
+      x: (px0 / width) * 100,
+      y: (py0 / height) * 100,
+      width: ((px1 - px0) / width) * 100,
+      height: ((py1 - py0) / height) * 100,
+      pixelCount,
+    });
+  }
+  return clusters.sort((a, b) => b.pixelCount - a.pixelCount);
+};
+
+/**
+ * 以实现图的原始尺寸为基准比对两张图。设计稿按叠加对齐参数（实现图 px）放置，
+ * 没有对齐参数时按宽度等比缩放；设计稿未覆盖的部分计为差异。
+ */
+export const computePixelDiff = async (
+  designImage: string,
+  devImage: string,
+  options: PixelDiffOptions = DEFAULT_PIXEL_DIFF_OPTIONS,
+  alignment?: { offset: { x: number; y: number }; scale: number }
+): Promise<PixelDiffResult> => {
+  const [design, dev] = await Promise.all([loadImage(designImage), loadImage(devImage)]);
+  const width = dev.naturalWidth;
+  const height = dev.naturalHeight;
+
+  const a = readPixels(design, width, height, alignment ?? { offset: { x: 0, y: 0 }, scale: width / design.naturalWidth });
+  const b = readPixels(dev, width, height, { offset: { x: 0, y: 0 }, scale: 1 });
+  const ignoreMask = buildIgnoreMask(options.ignoreRegions, width, height);
+
+  const heatCanvas = document.createElement('canvas');
+  heatCanvas.width = width;
+  heatCanvas.height = height;
+  const heatCtx = heatCanvas.getContext('2d')!;
+  const heat = heatCtx.createImageData(width, height);
+
+  const cols = Math.ceil(width / CELL_SIZE);
+  const rows = Math.ceil(height / CELL_SIZE);
+  const cellCounts = new Uint32Array(cols * rows);
+  let diffPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (ignoreMask && ignoreMask[p]) continue;
+      const i = p * 4;
+      if (channelsMatch(a, i, b, i, options.threshold)) continue;
+      if (
+        options.antiAliasRadius > 0 &&
+        (hasNeighbourMatch(b, a, x, y, width, height, options.antiAliasRadius, options.threshold) ||
+         hasNeighbourMatch(a, b, x, y, width, height, options.antiAliasRadius, options.threshold))
+      ) {
+        continue;
+      }
+
+      diffPixels++;
+      cellCounts[Math.floor(y / CELL_SIZE) * cols + Math.floor(x / CELL_SIZE)]++;
+
+      // 差异越大越红越不透明
+      const delta = Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2]));
+      heat.data[i] = 255;
+      heat.data[i + 1] = Math.max(0, 160 - delta);
+      heat.data[i + 2] = 0;
+      heat.data[i + 3] = 110 + Math.round((delta / 255) * 145);
+    }
+  }
+  heatCtx.putImageData(heat, 0, 0);
+
+  return {
+    width,
+    height,
+    diffPixels,
+    diffRatio: diffPixels / (width * height),
+    heatmap: heatCanvas.toDataURL('image/png'),
+    clusters: clusterCells(cellCounts, cols, rows, width, height, options.minClusterArea),
+  };
+};
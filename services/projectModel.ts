@@ -0,0 +1,62 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DesignImage, DevImage, Project } from '../types';
+import { createMaskAnnotations, findMaskTemplate } from './maskService';
+
+// 设计稿与实现图的配对关系
+
+export const getActiveDevImage = (project: Project): DevImage | undefined =>
+  project.devImages.find(img => img.id === project.activeDevImageId) || project.devImages[0];
+
+/**
+ * 实现图对照的设计稿：优先使用显式配对，配对缺失（旧数据、设计稿被删除）时回退到第一张设计稿。
+ */
+export const findPairedDesign = (designImages: DesignImage[], devImage: DevImage | undefined | null): DesignImage | null =>
+  designImages.find(d => d.id === devImage?.designImageId) ?? designImages[0] ?? null;
+
+export const getPairedDesign = (project: Project, devImage: DevImage | undefined | null): DesignImage | null =>
+  findPairedDesign(project.designImages, devImage);
+
+/**
+ * 新实现图的默认配对：按顺序第一张还没有实现图的设计稿，否则沿用当前实现图对照的设计稿。
+ */
+export const pickDesignForNewDevImage = (project: Project): string | undefined => {
+  const paired = new Set(project.devImages.map(img => getPairedDesign(project, img)?.id));
+  const unpaired = project.designImages.find(d => !paired.has(d.id));
+  return (unpaired ?? getPairedDesign(project, getActiveDevImage(project)))?.id;
+};
+
+/**
+ * 追加实现图并设为当前实现图；同一页面、同一设备保存过忽略区域模板时自动套用。
+ */
+export const appendDevImage = (project: Project, devImage: DevImage): Project => {
+  const template = findMaskTemplate(project, devImage.designImageId, devImage.deviceId);
+  return {
+    ...project,
+    devImages: [...project.devImages, devImage],
+    annotations: template ? [...project.annotations, ...createMaskAnnotations(template, devImage.id)] : project.annotations,
+    activeDevImageId: devImage.id,
+  };
+};
+
+// 升级前的页面：只有一张 designImage，实现图没有配对
+export interface LegacyProject extends Omit<Project, 'designImages'> {
+  designImage?: string | null;
+  designImages?: undefined;
+}
+
+const isLegacyProject = (project: Project | LegacyProject): project is LegacyProject => !Array.isArray(project.designImages);
+
+/**
+ * 旧数据每个页面只有一张 designImage：转换为 designImages，并把全部实现图配对到这张设计稿。
+ */
+export const migrateLegacyDesignImage = (project: Project | LegacyProject): Project => {
+  if (!isLegacyProject(project)) return project;
+  const { designImage, designImages: _, ...rest } = project;
+  if (!designImage) return { ...rest, designImages: [] };
+  const design: DesignImage = { id: uuidv4(), name: '设计稿', data: designImage };
+  return {
+    ...rest,
+    designImages: [design],
+    devImages: (rest.devImages || []).map(img => ({ ...img, designImageId: design.id })),
+  };
+};
@@ -0,0 +1,199 @@
+import { v4 as uuidv4 } from 'uuid';
+import { WorkspaceSnapshot } from '../types';
+import { migrateLegacyDesignImage } from './projectModel';
+
+const DB_NAME = 'designsync';
+const DB_VERSION = 1;
+const WORKSPACE_STORE = 'workspace';
+const IMAGE_STORE = 'images';
+const WORKSPACE_KEY = 'current';
+const SESSION_FLAG_KEY = 'ds_session_active';
+
+// 图片以 Blob 单独存放，工作区记录里只保留引用
+interface ImageRef {
+  __imageRef: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// 串行化保存，避免并发写入时互相清理对方刚写入的图片
+let saveQueue: Promise<void> = Promise.resolve();
+
+// data URL -> 图片 key，避免每次自动保存都重写未变化的图片
+const imageKeyCache = new Map<string, string>();
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE)) db.createObjectStore(WORKSPACE_STORE);
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) db.createObjectStore(IMAGE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const isImageDataUrl = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith('data:image/');
+
+const isImageRef = (value: unknown): value is ImageRef =>
+  typeof value === 'object' && value !== null && typeof (value as ImageRef).__imageRef === 'string';
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// 把对象树中所有图片 data URL 替换为引用，并收集需要写入的新图片
+const dehydrate = (value: unknown, pending: Map<string, string>, used: Set<string>): unknown => {
+  if (isImageDataUrl(value)) {
+    let key = imageKeyCache.get(value);
+    if (!key) {
+      key = uuidv4();
+      imageKeyCache.set(value, key);
+      pending.set(key, value);
+    }
+    used.add(key);
+    return { __imageRef: key } as ImageRef;
+  }
+  if (Array.isArray(value)) return value.map(v => dehydrate(v, pending, used));
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    Object.entries(value).forEach(([k, v]) => { out[k] = dehydrate(v, pending, used); });
+    return out;
+  }
+  return value;
+};
+
+const collectRefs = (value: unknown, refs: Set<string>) => {
+  if (isImageRef(value)) {
+    refs.add(value.__imageRef);
+  } else if (Array.isArray(value)) {
+    value.forEach(v => collectRefs(v, refs));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(v => collectRefs(v, refs));
+  }
+};
+
+const hydrate = (value: unknown, images: Map<string, string>): unknown => {
+  if (isImageRef(value)) return images.get(value.__imageRef) ?? null;
+  if (Array.isArray(value)) return value.map(v => hydrate(v, images));
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    Object.entries(value).forEach(([k, v]) => { out[k] = hydrate(v, images); });
+    return out;
+  }
+  return value;
+};
+
+export const isStorageAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const writeWorkspace = async (snapshot: WorkspaceSnapshot): Promise<void> => {
+  const db = await openDb();
+  const pending = new Map<string, string>();
+  const used = new Set<string>();
+  const record = dehydrate(snapshot, pending, used);
+
+  try {
+    // Blob 转换是异步的，必须在开启事务前完成，否则事务会自动提交
+    const blobs = await Promise.all(
+      Array.from(pending.entries()).map(async ([key, dataUrl]) => [key, await dataUrlToBlob(dataUrl)] as const)
+    );
+
+    const tx = db.transaction([WORKSPACE_STORE, IMAGE_STORE], 'readwrite');
+    const imageStore = tx.objectStore(IMAGE_STORE);
+    blobs.forEach(([key, blob]) => imageStore.put(blob, key));
+    tx.objectStore(WORKSPACE_STORE).put(record, WORKSPACE_KEY);
+
+    // 清理已不再被引用的图片
+    const keysRequest = imageStore.getAllKeys();
+    keysRequest.onsuccess = () => {
+      keysRequest.result.forEach(key => {
+        if (!used.has(key as string)) imageStore.delete(key);
+      });
+    };
+    await transactionDone(tx);
+  } catch (error) {
+    // 写入失败时丢弃新图片的缓存，下次保存重新写入
+    pending.forEach((dataUrl) => imageKeyCache.delete(dataUrl));
+    throw error;
+  }
+
+  imageKeyCache.forEach((key, dataUrl) => {
+    if (!used.has(key)) imageKeyCache.delete(dataUrl);
+  });
+};
+
+export const saveWorkspace = (snapshot: WorkspaceSnapshot): Promise<void> => {
+  const run = saveQueue.then(() => writeWorkspace(snapshot));
+  saveQueue = run.catch(() => undefined);
+  return run;
+};
+
+export const loadWorkspace = async (): Promise<WorkspaceSnapshot | null> => {
+  const db = await openDb();
+  const tx = db.transaction([WORKSPACE_STORE, IMAGE_STORE], 'readonly');
+  const record = await requestToPromise(tx.objectStore(WORKSPACE_STORE).get(WORKSPACE_KEY));
+  if (!record) return null;
+
+  const refs = new Set<string>();
+  collectRefs(record, refs);
+  const imageStore = tx.objectStore(IMAGE_STORE);
+  const blobs = await Promise.all(
+    Array.from(refs).map(async key => [key, await requestToPromise(imageStore.get(key)) as Blob | undefined] as const)
+  );
+
+  const images = new Map<string, string>();
+  for (const [key, blob] of blobs) {
+    if (!blob) continue;
+    const dataUrl = await blobToDataUrl(blob);
+    images.set(key, dataUrl);
+    imageKeyCache.set(dataUrl, key);
+  }
+  const snapshot = hydrate(record, images) as WorkspaceSnapshot;
+  // 兼容升级前保存的单设计稿工作区
+  return { ...snapshot, projects: snapshot.projects.map(migrateLegacyDesignImage) };
+};
+
+export const clearWorkspace = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([WORKSPACE_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(WORKSPACE_STORE).clear();
+  tx.objectStore(IMAGE_STORE).clear();
+  await transactionDone(tx);
+  imageKeyCache.clear();
+};
+
+// --- 异常退出检测 ---
+// 会话期间在 localStorage 中保留标记，正常关闭页面时移除；
+// 启动时若标记仍在，说明上次会话没有正常结束（崩溃、强制关闭等）。
+export const wasUncleanShutdown = (): boolean => localStorage.getItem(SESSION_FLAG_KEY) !== null;
+
+export const markSessionActive = () => localStorage.setItem(SESSION_FLAG_KEY, Date.now().toString());
+
+export const markSessionClosed = () => localStorage.removeItem(SESSION_FLAG_KEY);
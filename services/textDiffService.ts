@@ -0,0 +1,137 @@
+// 文案比对：对齐设计稿与实现图的识别结果，找出缺失、多余、不一致与被截断的文字
+
+export interface TextLine {
+  text: string;
+  confidence: number; // 0-100
+  // 图片 px
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type TextDiffKind = 'missing' | 'extra' | 'changed' | 'truncated';
+
+export interface TextDiffEntry {
+  kind: TextDiffKind;
+  design?: TextLine;
+  dev?: TextLine;
+  box: { x: number; y: number; width: number; height: number }; // 实现图 px；缺失的文案为设计稿位置的投影
+  similarity?: number; // 0-1
+}
+
+// 置信度低于该值的识别结果视为噪声（图标、插画常被误识别）
+const MIN_CONFIDENCE = 55;
+// 位置接近的两行文字相似度不低于该值时视为“同一处文案被改动”，否则分别记为缺失与多余
+const MIN_CHANGED_SIMILARITY = 0.3;
+// 行框在垂直方向上扩展的行高倍数，用于判断两行是否处于同一位置
+const NEARBY_LINE_RATIO = 1;
+
+export const TEXT_DIFF_LABELS: Record<TextDiffKind, { label: string; severity: 'low' | 'medium' | 'high' }> = {
+  missing: { label: '文案缺失', severity: 'high' },
+  extra: { label: '多余文案', severity: 'low' },
+  changed: { label: '文案不一致', severity: 'medium' },
+  truncated: { label: '文案被截断', severity: 'high' },
+};
+
+// 全角/半角、大小写与空白不参与比较
+const normalize = (text: string) => text.normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+
+const ELLIPSIS = /(…|\.{2,})$/;
+
+const levenshtein = (a: string, b: string) => {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = temp;
+    }
+  }
+  return prev[b.length];
+};
+
+export const textSimilarity = (a: string, b: string) => {
+  const na = normalize(a);
+  const nb = normalize(b);
+  if (!na && !nb) return 1;
+  return 1 - levenshtein(na, nb) / Math.max(na.length, nb.length);
+};
+
+const center = (l: TextLine) => ({ x: l.x + l.width / 2, y: l.y + l.height / 2 });
+
+const distance = (a: TextLine, b: TextLine) => {
+  const ca = center(a);
+  const cb = center(b);
+  return Math.hypot(ca.x - cb.x, ca.y - cb.y);
+};
+
+// 垂直方向（按行高扩展后）有重叠，水平方向有交集
+const isNearby = (a: TextLine, b: TextLine) => {
+  const pad = Math.max(a.height, b.height) * NEARBY_LINE_RATIO;
+  return a.y - pad < b.y + b.height && b.y - pad < a.y + a.height && a.x < b.x + b.width && b.x < a.x + a.width;
+};
+
+const isTruncated = (design: TextLine, dev: TextLine) => {
+  if (!ELLIPSIS.test(dev.text.trim())) return false;
+  const prefix = normalize(dev.text.trim().replace(ELLIPSIS, ''));
+  return prefix.length > 0 && normalize(design.text).startsWith(prefix);
+};
+
+const isMeaningful = (line: TextLine) => line.confidence >= MIN_CONFIDENCE && /[\p{L}\p{N}]/u.test(line.text);
+
+/**
+ * design 为设计稿识别结果，projectBox 把设计稿 px 换算到实现图 px（叠加对齐参数）。
+ * 先按相同文案就近配对（允许换行、位移），再按位置配对剩余文案判断改动或截断。
+ */
+export const diffTextLines = (
+  design: TextLine[],
+  dev: TextLine[],
+  projectBox: (line: TextLine) => TextLine = line => line
+): TextDiffEntry[] => {
+  const designLines = design.filter(isMeaningful).map(projectBox);
+  const devLines = dev.filter(isMeaningful);
+  const usedDesign = new Set<number>();
+  const usedDev = new Set<number>();
+
+  designLines.forEach((d, di) => {
+    let best = -1;
+    devLines.forEach((v, vi) => {
+      if (usedDev.has(vi) || normalize(v.text) !== normalize(d.text)) return;
+      if (best < 0 || distance(d, v) < distance(d, devLines[best])) best = vi;
+    });
+    if (best >= 0) {
+      usedDesign.add(di);
+      usedDev.add(best);
+    }
+  });
+
+  const entries: TextDiffEntry[] = [];
+  const candidates: { di: number; vi: number; similarity: number }[] = [];
+  designLines.forEach((d, di) => {
+    if (usedDesign.has(di)) return;
+    devLines.forEach((v, vi) => {
+      if (usedDev.has(vi) || !isNearby(d, v)) return;
+      const similarity = textSimilarity(d.text, v.text);
+      if (similarity >= MIN_CHANGED_SIMILARITY || isTruncated(d, v)) candidates.push({ di, vi, similarity });
+    });
+  });
+  candidates.sort((a, b) => b.similarity - a.similarity).forEach(({ di, vi, similarity }) => {
+    if (usedDesign.has(di) || usedDev.has(vi)) return;
+    usedDesign.add(di);
+    usedDev.add(vi);
+    const d = designLines[di];
+    const v = devLines[vi];
+    entries.push({ kind: isTruncated(d, v) ? 'truncated' : 'changed', design: d, dev: v, box: v, similarity });
+  });
+
+  designLines.forEach((d, di) => {
+    if (!usedDesign.has(di)) entries.push({ kind: 'missing', design: d, box: d });
+  });
+  devLines.forEach((v, vi) => {
+    if (!usedDev.has(vi)) entries.push({ kind: 'extra', dev: v, box: v });
+  });
+  return entries.sort((a, b) => a.box.y - b.box.y || a.box.x - b.box.x);
+};
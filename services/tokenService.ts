@@ -0,0 +1,313 @@
+import { DesignToken } from '../types';
+import { colorDeltaE, toHex } from './colorService';
+
+// 设计 token：导入（W3C design tokens / Style Dictionary / Figma variables）与匹配
+
+// ΔE00 小于该值的 token 才作为建议
+const COLOR_MATCH_THRESHOLD = 3;
+// 尺寸相差不超过该值 (逻辑像素) 视为同一个 token
+const DIMENSION_MATCH_TOLERANCE = 0.5;
+// rem/em 换算为像素的基准
+const REM_BASE = 16;
+
+export type TokenFormat = 'w3c' | 'style-dictionary' | 'figma';
+
+export const TOKEN_FORMAT_LABELS: Record<TokenFormat, string> = {
+  'w3c': 'W3C Design Tokens',
+  'style-dictionary': 'Style Dictionary',
+  'figma': 'Figma Variables',
+};
+
+type JsonObject = Record<string, unknown>;
+
+// W3C 叶子 token
+interface W3cToken {
+  $value: unknown;
+  $type?: string;
+}
+
+// Style Dictionary 叶子 token
+interface StyleDictionaryToken {
+  value: unknown;
+  type?: string;
+  attributes?: { category?: string };
+}
+
+// Figma 变量接口中的变量、集合与别名值
+interface FigmaVariable {
+  name: string;
+  resolvedType: string;
+  variableCollectionId?: string;
+  valuesByMode?: Record<string, unknown>;
+}
+
+interface FigmaVariableCollection {
+  defaultModeId?: string;
+}
+
+interface FigmaVariableAlias {
+  type: 'VARIABLE_ALIAS';
+  id: string;
+}
+
+const isObject = (v: unknown): v is JsonObject => !!v && typeof v === 'object' && !Array.isArray(v);
+
+const isNumber = (v: unknown): v is number => typeof v === 'number';
+
+// --- 值的规范化 ---
+
+const clamp255 = (n: number) => Math.max(0, Math.min(255, Math.round(n)));
+
+const normalizeColor = (value: unknown): string | null => {
+  if (typeof value === 'string') {
+    const v = value.trim();
+    const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(v);
+    if (hex) {
+      // 带透明度的写法忽略 alpha，只比较颜色
+      const h = hex[1].length <= 4 ? hex[1].slice(0, 3).split('').map(c => c + c).join('') : hex[1].slice(0, 6);
+      return `#${h.toUpperCase()}`;
+    }
+    const rgb = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)/i.exec(v);
+    if (rgb) return toHex(clamp255(+rgb[1]), clamp255(+rgb[2]), clamp255(+rgb[3]));
+    return null;
+  }
+  if (isObject(value)) {
+    const c = value;
+    // W3C 新版颜色对象 { colorSpace, components, hex }
+    if (typeof c.hex === 'string') return normalizeColor(c.hex);
+    if (c.colorSpace === 'srgb' && Array.isArray(c.components) && c.components.slice(0, 3).every(isNumber)) {
+      const [r, g, b] = c.components as number[];
+      return toHex(clamp255(r * 255), clamp255(g * 255), clamp255(b * 255));
+    }
+    // Figma 颜色 { r, g, b, a }，分量为 0-1
+    if (isNumber(c.r) && isNumber(c.g) && isNumber(c.b)) {
+      return toHex(clamp255(c.r * 255), clamp255(c.g * 255), clamp255(c.b * 255));
+    }
+  }
+  return null;
+};
+
+const normalizeDimension = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const m = /^(-?[\d.]+)\s*(px|pt|dp|rem|em)?$/i.exec(value.trim());
+    if (!m) return null;
+    const n = parseFloat(m[1]);
+    const unit = (m[2] || 'px').toLowerCase();
+    return unit === 'rem' || unit === 'em' ? n * REM_BASE : n;
+  }
+  // W3C 新版尺寸对象 { value, unit }
+  if (isObject(value) && isNumber(value.value)) {
+    const n = value.value;
+    return value.unit === 'rem' || value.unit === 'em' ? n * REM_BASE : n;
+  }
+  return null;
+};
+
+const toToken = (name: string, type: string | undefined, value: unknown): DesignToken | null => {
+  const t = (type || '').toLowerCase();
+  if (t === 'color' || (!t && typeof value === 'string' && normalizeColor(value))) {
+    const color = normalizeColor(value);
+    return color ? { name, type: 'color', value: color } : null;
+  }
+  if (['dimension', 'spacing', 'size', 'sizing', 'borderradius', 'fontsize', 'float', 'number'].includes(t) || !t) {
+    const n = normalizeDimension(value);
+    return n !== null ? { name, type: 'dimension', value: String(n) } : null;
+  }
+  return null;
+};
+
+// {color.brand.primary} 形式的引用
+const ALIAS = /^\{([^}]+)\}$/;
+
+const resolveAliases = (raw: Map<string, { type?: string; value: unknown }>) => {
+  // 沿引用链找到最终的值；没有声明类型时沿用被引用 token 的类型
+  const resolve = (entry: { type?: string; value: unknown }, depth = 0): { type?: string; value: unknown } => {
+    const m = typeof entry.value === 'string' ? ALIAS.exec(entry.value.trim()) : null;
+    const target = m && depth < 10 ? raw.get(m[1]) : undefined;
+    if (!target) return entry;
+    const resolved = resolve(target, depth + 1);
+    return { type: entry.type ?? resolved.type, value: resolved.value };
+  };
+  const tokens: DesignToken[] = [];
+  raw.forEach((entry, name) => {
+    const { type, value } = resolve(entry);
+    const token = toToken(name, type, value);
+    if (token) tokens.push(token);
+  });
+  return tokens;
+};
+
+// --- 各格式解析 ---
+
+// W3C: 叶子为 { $value, $type }，$type 可以继承自所在分组
+const isW3cToken = (v: JsonObject): v is JsonObject & W3cToken =>
+  '$value' in v && (v.$type === undefined || typeof v.$type === 'string');
+
+const parseW3c = (json: JsonObject): DesignToken[] => {
+  const raw = new Map<string, { type?: string; value: unknown }>();
+  const walk = (node: JsonObject, path: string[], inheritedType?: string) => {
+    const groupType = typeof node.$type === 'string' ? node.$type : inheritedType;
+    Object.entries(node).forEach(([key, child]) => {
+      if (key.startsWith('$') || !isObject(child)) return;
+      if (isW3cToken(child)) raw.set([...path, key].join('.'), { type: child.$type ?? groupType, value: child.$value });
+      else walk(child, [...path, key], groupType);
+    });
+  };
+  walk(json, []);
+  return resolveAliases(raw);
+};
+
+// Style Dictionary: 叶子为 { value, type? }，类型缺省时按 attributes.category 或值推断
+const isStyleDictionaryToken = (v: JsonObject): v is JsonObject & StyleDictionaryToken => 'value' in v && !isObject(v.value);
+
+const parseStyleDictionary = (json: JsonObject): DesignToken[] => {
+  const raw = new Map<string, { type?: string; value: unknown }>();
+  const walk = (node: JsonObject, path: string[]) => {
+    Object.entries(node).forEach(([key, child]) => {
+      if (!isObject(child)) return;
+      if (isStyleDictionaryToken(child)) {
+        const category = isObject(child.attributes) ? child.attributes.category : undefined;
+        const type = typeof child.type === 'string' ? child.type : typeof category === 'string' ? category : undefined;
+        raw.set([...path, key].join('.'), { type, value: child.value });
+      } else {
+        walk(child, [...path, key]);
+      }
+    });
+  };
+  walk(json, []);
+  return resolveAliases(raw);
+};
+
+// Figma REST 变量接口 (/v1/files/:key/variables/local) 的导出，取每个集合的默认模式
+const isFigmaVariable = (v: unknown): v is FigmaVariable =>
+  isObject(v) && typeof v.name === 'string' && typeof v.resolvedType === 'string' && (v.valuesByMode === undefined || isObject(v.valuesByMode));
+
+const isFigmaVariableAlias = (v: unknown): v is FigmaVariableAlias =>
+  isObject(v) && v.type === 'VARIABLE_ALIAS' && typeof v.id === 'string';
+
+const parseFigmaVariables = (json: JsonObject): DesignToken[] => {
+  const meta = isObject(json.meta) ? json.meta : json;
+  const variables = isObject(meta.variables) ? meta.variables : {};
+  const collections = (isObject(meta.variableCollections) ? meta.variableCollections : {}) as Record<string, FigmaVariableCollection | undefined>;
+  const valueOf = (variable: FigmaVariable, depth = 0): unknown => {
+    const modeId = collections[variable.variableCollectionId ?? '']?.defaultModeId ?? Object.keys(variable.valuesByMode || {})[0];
+    const value = variable.valuesByMode?.[modeId];
+    if (isFigmaVariableAlias(value) && depth < 10) {
+      const target = variables[value.id];
+      return isFigmaVariable(target) ? valueOf(target, depth + 1) : undefined;
+    }
+    return value;
+  };
+  const tokens: DesignToken[] = [];
+  Object.values(variables).forEach(variable => {
+    if (!isFigmaVariable(variable) || !variable.name || (variable.resolvedType !== 'COLOR' && variable.resolvedType !== 'FLOAT')) return;
+    const name = variable.name.split('/').map(s => s.trim()).join('.');
+    const token = toToken(name, variable.resolvedType === 'COLOR' ? 'color' : 'dimension', valueOf(variable));
+    if (token) tokens.push(token);
+  });
+  return tokens;
+};
+
+export const detectTokenFormat = (json: unknown): TokenFormat | null => {
+  if (!isObject(json)) return null;
+  const meta = isObject(json.meta) ? json.meta : json;
+  if (isObject(meta.variables) && Object.values(meta.variables).some(v => isObject(v) && 'valuesByMode' in v)) return 'figma';
+  const text = JSON.stringify(json);
+  if (text.includes('"$value"')) return 'w3c';
+  if (text.includes('"value"')) return 'style-dictionary';
+  return null;
+};
+
+/**
+ * 解析 token 文件，自动识别格式；重名 token 以后出现的为准。
+ */
+export const parseTokenFile = (text: string): { format: TokenFormat; tokens: DesignToken[] } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('token 文件不是有效的 JSON');
+  }
+  const format = detectTokenFormat(json);
+  if (!format) throw new Error('无法识别的 token 格式，支持 W3C Design Tokens、Style Dictionary 与 Figma Variables 导出');
+  const parsed = format === 'figma'
+    ? parseFigmaVariables(json as JsonObject)
+    : format === 'w3c' ? parseW3c(json as JsonObject) : parseStyleDictionary(json as JsonObject);
+  const byName = new Map(parsed.map(t => [t.name, t]));
+  const tokens = Array.from(byName.values());
+  if (tokens.length === 0) throw new Error('文件中没有可用的颜色或尺寸 token');
+  return { format, tokens };
+};
+
+// --- 匹配 ---
+
+export interface TokenMatch {
+  token: DesignToken;
+  distance: number; // 颜色为 ΔE00，尺寸为逻辑像素差
+}
+
+export const matchColorToken = (hex: string, tokens: DesignToken[] = []): TokenMatch | null => {
+  let best: TokenMatch | null = null;
+  tokens.filter(t => t.type === 'color').forEach(token => {
+    const distance = colorDeltaE(hex, token.value);
+    if (distance === null || distance >= COLOR_MATCH_THRESHOLD) return;
+    if (!best || distance < best.distance) best = { token, distance };
+  });
+  return best;
+};
+
+/**
+ * 按逻辑像素值匹配尺寸 token；传入 hint（如 spac、radius）时只匹配名称包含 hint 的 token，
+ * 避免间距值被换成同值的圆角或字号 token。
+ */
+export const matchDimensionToken = (value: number, tokens: DesignToken[] = [], hint?: string): TokenMatch | null => {
+  const candidates = tokens
+    .filter(t => t.type === 'dimension' && (!hint || t.name.toLowerCase().includes(hint)))
+    .map(token => ({ token, distance: Math.abs(Number(token.value) - value) }))
+    .filter(m => m.distance <= DIMENSION_MATCH_TOLERANCE)
+    .sort((a, b) => a.distance - b.distance);
+  return candidates[0] ?? null;
+};
+
+// color.brand.primary -> --color-brand-primary
+export const tokenCssVar = (name: string) => `--${name.replace(/[.\s/]+/g, '-')}`;
+
+// CSS 属性对应的 token 名提示
+const PROPERTY_HINTS: [RegExp, string][] = [
+  [/radius/, 'radius'],
+  [/font-size/, 'font'],
+  [/line-height/, 'line'],
+  [/^(margin|padding|gap|row-gap|column-gap|top|right|bottom|left)/, 'spac'],
+  [/^(width|height|min-|max-)/, 'siz'],
+];
+
+/**
+ * 把修复建议中的颜色与尺寸替换为 token 变量，并在行尾注明 token 名，便于开发直接使用。
+ */
+export const applyTokensToSuggestion = (suggestion: string, tokens: DesignToken[] = []): string => {
+  if (!suggestion || tokens.length === 0) return suggestion;
+  return suggestion.replace(/([a-z-]+)\s*:\s*([^;{}\n]+)/gi, (decl, property: string, value: string) => {
+    const prop = property.toLowerCase();
+    const used: string[] = [];
+    let next = value.replace(/#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})\b|rgba?\([^)]*\)/gi, color => {
+      const hex = normalizeColor(color);
+      const match = hex && matchColorToken(hex, tokens);
+      if (!match) return color;
+      used.push(match.token.name);
+      return `var(${tokenCssVar(match.token.name)})`;
+    });
+    if (!/color|background|border|fill|stroke|shadow/.test(prop)) {
+      const hint = PROPERTY_HINTS.find(([re]) => re.test(prop))?.[1];
+      if (hint) {
+        next = next.replace(/(-?[\d.]+)(px|rem)\b/g, (dim, n: string, unit: string) => {
+          const match = matchDimensionToken(unit === 'rem' ? parseFloat(n) * REM_BASE : parseFloat(n), tokens, hint);
+          if (!match) return dim;
+          used.push(match.token.name);
+          return `var(${tokenCssVar(match.token.name)})`;
+        });
+      }
+    }
+    return used.length > 0 ? `${property}: ${next.trim()} /* ${used.join(', ')} */` : decl;
+  });
+};
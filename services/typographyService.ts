@@ -0,0 +1,216 @@
+import { Issue, MeasureUnit, TypographyMetrics } from '../types';
+import { formatLogical } from './measurementService';
+
+// 文字检测：不依赖 OCR，按选区内的字形像素估算大写高度、x 高度、行高、笔画粗细与字重
+
+export interface TextRegion {
+  left: number; // 图片 px
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// 与背景任一通道相差超过该值视为字形像素（含大部分抗锯齿边缘）
+const INK_THRESHOLD = 64;
+// 行内像素数达到峰值的该比例时视为 x 高度 / 基线所在行，稀疏的升部、降部不计入
+const DENSE_ROW_RATIO = 0.35;
+// x 高度与大写高度之比超过该值时认为没有小写字母（中文、数字或全大写）
+const NO_X_HEIGHT_RATIO = 0.85;
+// 常见无衬线字体大写高度约 0.72em；中文字面约 0.88em
+const CAP_HEIGHT_EM = 0.72;
+const CJK_FACE_EM = 0.88;
+
+// 字号偏差（逻辑像素）达到该值时分别记为中、高严重度
+const FONT_SIZE_MEDIUM_DELTA = 1;
+const FONT_SIZE_HIGH_DELTA = 2;
+
+// 笔画宽度 / 字号 -> 字重
+const WEIGHT_STEPS: [number, number][] = [
+  [0.055, 300],
+  [0.08, 400],
+  [0.1, 500],
+  [0.12, 600],
+  [Infinity, 700],
+];
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// 选区边框上出现最多的颜色作为背景（按 16 级量化，避免抗锯齿干扰）
+const detectBackground = (image: ImageData, r: TextRegion) => {
+  const counts = new Map<number, { n: number; rgb: number[] }>();
+  const add = (x: number, y: number) => {
+    const i = (y * image.width + x) * 4;
+    const rgb = [image.data[i], image.data[i + 1], image.data[i + 2]];
+    const key = ((rgb[0] >> 4) << 8) | ((rgb[1] >> 4) << 4) | (rgb[2] >> 4);
+    const entry = counts.get(key) || { n: 0, rgb };
+    entry.n++;
+    counts.set(key, entry);
+  };
+  for (let x = r.left; x < r.right; x++) { add(x, r.top); add(x, r.bottom - 1); }
+  for (let y = r.top; y < r.bottom; y++) { add(r.left, y); add(r.right - 1, y); }
+  let best = { n: 0, rgb: [255, 255, 255] };
+  counts.forEach(entry => { if (entry.n > best.n) best = entry; });
+  return best.rgb;
+};
+
+/**
+ * 行投影切分文本行；高度过小的片段（i、j 的点，标点）并入相邻行。
+ */
+const splitLines = (rowCounts: number[]) => {
+  const runs: { top: number; bottom: number }[] = [];
+  rowCounts.forEach((count, y) => {
+    if (count === 0) return;
+    const last = runs[runs.length - 1];
+    if (last && last.bottom === y) last.bottom = y + 1;
+    else runs.push({ top: y, bottom: y + 1 });
+  });
+  const tallest = Math.max(0, ...runs.map(r => r.bottom - r.top));
+  const lines: { top: number; bottom: number }[] = [];
+  runs.forEach((run, i) => {
+    if (run.bottom - run.top >= tallest * 0.3) {
+      lines.push({ ...run });
+      return;
+    }
+    const prev = lines[lines.length - 1];
+    const next = runs.slice(i + 1).find(r => r.bottom - r.top >= tallest * 0.3);
+    const gapPrev = prev ? run.top - prev.bottom : Infinity;
+    const gapNext = next ? next.top - run.bottom : Infinity;
+    if (Math.min(gapPrev, gapNext) > tallest * 0.4) return; // 孤立噪点
+    if (gapNext < gapPrev) next!.top = run.top;
+    else prev.bottom = run.bottom;
+  });
+  return lines;
+};
+
+export const weightFromStroke = (strokeWidth: number, fontSize: number) =>
+  WEIGHT_STEPS.find(([ratio]) => strokeWidth / fontSize < ratio)![1];
+
+/**
+ * 分析选区内文字，结果为图片像素；选区内没有可识别的文字时返回 null。
+ */
+export const analyzeTypography = (image: ImageData, region: TextRegion): TypographyMetrics | null => {
+  const r: TextRegion = {
+    left: Math.max(0, Math.floor(region.left)),
+    top: Math.max(0, Math.floor(region.top)),
+    right: Math.min(image.width, Math.ceil(region.right)),
+    bottom: Math.min(image.height, Math.ceil(region.bottom)),
+  };
+  const w = r.right - r.left;
+  const h = r.bottom - r.top;
+  if (w < 4 || h < 4) return null;
+
+  const bg = detectBackground(image, r);
+  const ink = new Uint8Array(w * h);
+  const rowCounts = new Array<number>(h).fill(0);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = ((r.top + y) * image.width + r.left + x) * 4;
+      const diff = Math.max(Math.abs(image.data[i] - bg[0]), Math.abs(image.data[i + 1] - bg[1]), Math.abs(image.data[i + 2] - bg[2]));
+      if (diff > INK_THRESHOLD) {
+        ink[y * w + x] = 1;
+        rowCounts[y]++;
+      }
+    }
+  }
+
+  const lines = splitLines(rowCounts);
+  if (lines.length === 0) return null;
+
+  const capHeights: number[] = [];
+  const xHeights: number[] = [];
+  const baselines: number[] = [];
+  const runs: number[] = [];
+  lines.forEach(line => {
+    const counts = rowCounts.slice(line.top, line.bottom);
+    const peak = Math.max(...counts);
+    const dense = counts.map((c, i) => (c >= peak * DENSE_ROW_RATIO ? i : -1)).filter(i => i >= 0);
+    const xTop = line.top + dense[0];
+    const baseline = line.top + dense[dense.length - 1] + 1;
+    baselines.push(baseline);
+    capHeights.push(baseline - line.top);
+    xHeights.push(baseline - xTop);
+    // 主体部分每行的水平连续像素长度，中位数近似竖笔画宽度
+    for (let y = xTop; y < baseline; y++) {
+      let run = 0;
+      for (let x = 0; x <= w; x++) {
+        if (x < w && ink[y * w + x]) run++;
+        else if (run > 0) { runs.push(run); run = 0; }
+      }
+    }
+  });
+
+  const capHeight = median(capHeights);
+  const xHeight = median(xHeights);
+  const hasXHeight = xHeight / capHeight <= NO_X_HEIGHT_RATIO;
+  const inkHeight = median(lines.map(l => l.bottom - l.top));
+  const fontSize = hasXHeight ? capHeight / CAP_HEIGHT_EM : inkHeight / CJK_FACE_EM;
+  const strokeWidth = median(runs);
+  const lineGaps = baselines.slice(1).map((b, i) => b - baselines[i]);
+
+  return {
+    fontSize,
+    capHeight,
+    xHeight: hasXHeight ? xHeight : undefined,
+    lineHeight: lineGaps.length > 0 ? median(lineGaps) : undefined,
+    lineCount: lines.length,
+    strokeWidth,
+    weight: weightFromStroke(strokeWidth, fontSize),
+  };
+};
+
+// 图片像素换算为逻辑像素，保留一位小数；字重与行数不变
+export const typographyToLogical = (m: TypographyMetrics, dpr: number): TypographyMetrics => {
+  const scale = (v: number) => Math.round(v / dpr * 10) / 10;
+  return {
+    ...m,
+    fontSize: scale(m.fontSize),
+    capHeight: scale(m.capHeight),
+    xHeight: m.xHeight !== undefined ? scale(m.xHeight) : undefined,
+    lineHeight: m.lineHeight !== undefined ? scale(m.lineHeight) : undefined,
+    strokeWidth: scale(m.strokeWidth),
+  };
+};
+
+/**
+ * 生成文字检测问题的标题、描述与严重度；没有设计稿对照时只记录实测值。
+ */
+export const describeTypography = (
+  actual: TypographyMetrics,
+  expected: TypographyMetrics | undefined,
+  unit: MeasureUnit,
+  rootFontSize?: number
+): { title: string; description: string; severity: Issue['severity'] } => {
+  const fmt = (v: number) => formatLogical(v, unit, rootFontSize);
+  if (!expected) {
+    return {
+      title: `字号: ${fmt(actual.fontSize)}`,
+      description: [
+        `大写高度 ${fmt(actual.capHeight)}`,
+        actual.xHeight !== undefined ? `x 高度 ${fmt(actual.xHeight)}` : '',
+        actual.lineHeight !== undefined ? `行高 ${fmt(actual.lineHeight)}` : '',
+        `字重约 ${actual.weight}`,
+      ].filter(Boolean).join('\n'),
+      severity: 'low',
+    };
+  }
+  const row = (label: string, e?: number, a?: number) =>
+    e !== undefined && a !== undefined ? `${label} 期望 ${fmt(e)}，实际 ${fmt(a)}` : '';
+  const sizeDelta = Math.abs(actual.fontSize - expected.fontSize);
+  const severity: Issue['severity'] = sizeDelta >= FONT_SIZE_HIGH_DELTA ? 'high'
+    : sizeDelta >= FONT_SIZE_MEDIUM_DELTA || actual.weight !== expected.weight ? 'medium' : 'low';
+  return {
+    title: `字号: 期望 ${fmt(expected.fontSize)} / 实际 ${fmt(actual.fontSize)}`,
+    description: [
+      row('大写高度', expected.capHeight, actual.capHeight),
+      row('x 高度', expected.xHeight, actual.xHeight),
+      row('行高', expected.lineHeight, actual.lineHeight),
+      `字重 期望约 ${expected.weight}，实际约 ${actual.weight}`,
+      '（按字形像素估算）',
+    ].filter(Boolean).join('\n'),
+    severity,
+  };
+};
@@ -0,0 +1,145 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AiFinding, AnalyzerProvider, AnalyzerSettings, Annotation, DesignToken, DomElement, Issue } from '../types';
+import { AnalyzeOptions, VisionAnalyzer, sleep, toAnalyzerError } from './analyzers/common';
+import { createGeminiAnalyzer } from './analyzers/geminiAnalyzer';
+import { createOpenAiAnalyzer } from './analyzers/openAiAnalyzer';
+import { createOllamaAnalyzer } from './analyzers/ollamaAnalyzer';
+import { createMockAnalyzer } from './analyzers/mockAnalyzer';
+import { analyzeInTiles } from './analyzers/tiling';
+import { applyTokensToSuggestion } from './tokenService';
+import { targetSuggestion } from './domSnapshotService';
+
+export { AnalyzerError } from './analyzers/common';
+export type { AnalysisProgress, AnalysisStage, AnalyzeOptions, AnalyzerErrorKind, VisionAnalyzer } from './analyzers/common';
+
+// 限流、服务端错误和网络错误时的重试次数与退避基数
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 30000;
+
+export const ANALYZER_PRESETS: Record<AnalyzerProvider, { label: string; description: string; defaults: AnalyzerSettings }> = {
+  gemini: {
+    label: 'Google Gemini',
+    description: '云端模型，API Key 留空时使用环境变量 GEMINI_API_KEY',
+    defaults: { provider: 'gemini', model: 'gemini-3-flash-preview' },
+  },
+  openai: {
+    label: 'OpenAI 兼容接口',
+    description: '任意实现 /chat/completions 的服务，包括私有化部署的 vLLM 等',
+    defaults: { provider: 'openai', model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1' },
+  },
+  ollama: {
+    label: '本地 Ollama',
+    description: '截图不出内网，需要本地运行支持视觉的模型',
+    defaults: { provider: 'ollama', model: 'qwen2.5vl', baseUrl: 'http://localhost:11434' },
+  },
+  mock: {
+    label: '模拟数据 (Mock)',
+    description: '不发送任何请求，返回固定结果，用于演示与测试',
+    defaults: { provider: 'mock', model: 'mock' },
+  },
+};
+
+export const DEFAULT_ANALYZER_SETTINGS: AnalyzerSettings = ANALYZER_PRESETS.gemini.defaults;
+
+const createProviderAnalyzer = (settings: AnalyzerSettings): VisionAnalyzer => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAiAnalyzer(settings);
+    case 'ollama':
+      return createOllamaAnalyzer(settings);
+    case 'mock':
+      return createMockAnalyzer();
+    case 'gemini':
+    default:
+      return createGeminiAnalyzer(settings);
+  }
+};
+
+// 指数退避 + 抖动；服务端给出 Retry-After 时以其为准
+const retryDelay = (attempt: number, retryAfterMs?: number) =>
+  Math.min(RETRY_MAX_DELAY, retryAfterMs ?? RETRY_BASE_DELAY * 2 ** attempt + Math.random() * 250);
+
+// 所有错误转换为 AnalyzerError，可重试的错误自动退避重试
+const withRetry = (analyzer: VisionAnalyzer): VisionAnalyzer => ({
+  provider: analyzer.provider,
+  analyze: async (designImage: string, devImage: string, options: AnalyzeOptions = {}) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await analyzer.analyze(designImage, devImage, options);
+      } catch (e) {
+        const error = toAnalyzerError(e, options.signal);
+        if (!error.retryable || attempt >= MAX_RETRIES) throw error;
+        options.onProgress?.({ stage: 'retrying', percent: 10, attempt: attempt + 1, retryReason: error.kind });
+        await sleep(retryDelay(attempt, error.retryAfterMs), options.signal);
+      }
+    }
+  },
+});
+
+/**
+ * 按设置创建分析器。长图默认分块分析，每一块单独重试。
+ */
+export const createVisionAnalyzer = (settings: AnalyzerSettings): VisionAnalyzer => {
+  const analyzer = withRetry(createProviderAnalyzer(settings));
+  if (settings.tiled === false) return analyzer;
+  return {
+    provider: analyzer.provider,
+    analyze: async (designImage: string, devImage: string, options: AnalyzeOptions = {}) => {
+      try {
+        return await analyzeInTiles(analyzer, designImage, devImage, options);
+      } catch (e) {
+        throw toAnalyzerError(e, options.signal);
+      }
+    },
+  };
+};
+
+/**
+ * 把 AI 结论转换为绑定到某张实现图的问题与标注（AI 坐标为 0-1000，标注为百分比）。
+ * 项目导入了设计 token 时，修复建议中的颜色/尺寸替换为对应的 token 变量；
+ * 实现图带 DOM 快照时，修复建议写到区域对应元素的选择器下。
+ */
+export const findingsToIssues = (
+  findings: AiFinding[],
+  devImageId: string,
+  tokens: DesignToken[] = [],
+  locateSpec?: (box: { x: number; y: number; width: number; height: number }) => string | null,
+  locateElement?: (box: { x: number; y: number; width: number; height: number }) => DomElement | null
+): { issues: Issue[]; annotations: Annotation[] } => {
+  const issues: Issue[] = [];
+  const annotations: Annotation[] = [];
+  findings.forEach(finding => {
+    let annotationId: string | undefined;
+    let spec: string | null = null;
+    let element: DomElement | null = null;
+    if (finding.boundingBox) {
+      const [ymin, xmin, ymax, xmax] = finding.boundingBox;
+      const box = { x: xmin / 10, y: ymin / 10, width: (xmax - xmin) / 10, height: (ymax - ymin) / 10 };
+      annotationId = uuidv4();
+      annotations.push({
+        id: annotationId,
+        devImageId,
+        ...box,
+        text: finding.title,
+        type: 'ai'
+      });
+      // 设计稿来自 Figma 时附上区域对应节点的精确规格
+      spec = locateSpec?.(box) ?? null;
+      element = locateElement?.(box) ?? null;
+    }
+    const tokenized = applyTokensToSuggestion(finding.suggestion, tokens);
+    const suggestion = element ? targetSuggestion(tokenized, element) : tokenized;
+    issues.push({
+      id: uuidv4(),
+      devImageId,
+      title: finding.title,
+      description: finding.description,
+      suggestion: spec ? [suggestion, spec].filter(Boolean).join('\n') : suggestion,
+      severity: finding.severity,
+      status: 'open',
+      annotationId
+    });
+  });
+  return { issues, annotations };
+};
@@ -7,10 +7,117 @@ export interface Comment {
   timestamp: number;
 }
 
+export type MeasureUnit = 'px' | 'pt' | 'dp' | 'rem';
+
+// 图片标定：截图像素与逻辑像素 (CSS px / pt / dp) 的换算关系
+export interface ImageCalibration {
+  dpr: number; // 每个逻辑像素对应的图片像素数
+  canvasWidth?: number; // 按画布宽度标定时的逻辑宽度 (如 375)，dpr 由图片宽度推算
+  rootFontSize?: number; // rem 基准字号，默认 16
+}
+
+export interface DesignImage {
+  id: string;
+  name: string;
+  data: string;
+  calibration?: ImageCalibration;
+  figma?: FigmaSource; // 从 Figma 导入时记录来源节点
+  figmaLayers?: FigmaLayer[]; // Figma 节点树（按绘制顺序展开），用于精确规格比对
+  syncedAt?: number; // 最近一次从 Figma 同步的时间
+  versions?: DesignVersion[]; // 重新同步前的历史版本，按时间先后排列
+  changes?: DesignChange[]; // 最近一次同步与上一版相比变化的区域
+}
+
+// 设计稿历史版本
+export interface DesignVersion {
+  id: string;
+  data: string;
+  calibration?: ImageCalibration;
+  figmaLayers?: FigmaLayer[];
+  syncedAt?: number;
+}
+
+// 设计稿变化区域，坐标为设计稿百分比
+export interface DesignChange {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label: string;
+}
+
+// Figma 导入来源，nodeId 为 API 格式 (12:34)
+export interface FigmaSource {
+  fileKey: string;
+  nodeId: string;
+  scale: number; // 导出倍率
+}
+
+// Figma 节点的几何与样式，坐标为相对 Frame 左上角的逻辑 px
+export interface FigmaLayer {
+  id: string;
+  name: string;
+  type: string;
+  parentId?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill?: string; // 第一个可见的纯色填充 #RRGGBB，文字节点为文字颜色
+  stroke?: { color: string; weight: number };
+  cornerRadius?: number;
+  opacity?: number;
+  text?: {
+    characters: string;
+    fontFamily: string;
+    fontSize: number;
+    fontWeight: number;
+    lineHeight?: number; // px
+    letterSpacing?: number; // px
+  };
+  layout?: {
+    mode: 'HORIZONTAL' | 'VERTICAL'; // Auto layout 方向
+    padding: [number, number, number, number]; // 上右下左
+    gap: number;
+  };
+}
+
 export interface DevImage {
   id: string;
   name: string;
   data: string;
+  designImageId?: string; // 配对的设计稿，未设置时对照第一张设计稿
+  deviceId?: string; // 设备/断点，见 DeviceProfile
+  calibration?: ImageCalibration; // 未设置时使用设备的 dpr
+  dom?: DomSnapshot; // 从 URL 截图时记录的页面元素
+}
+
+// 截图时页面上的可见元素，坐标为相对文档左上角的 CSS px
+export interface DomElement {
+  selector: string;
+  tag: string;
+  text?: string; // 元素直接包含的文字
+  parent?: number; // 父元素在 elements 中的下标
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  styles: Record<string, string>; // 计算样式，盒模型样式只记录非默认值
+}
+
+export interface DomSnapshot {
+  width: number; // 截图覆盖的页面范围（CSS px），与截图像素等比
+  height: number;
+  elements: DomElement[]; // 文档顺序，父元素在子元素之前
+}
+
+// 设备/断点配置，width 为逻辑宽度 (pt/dp/CSS px)
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  width: number;
+  dpr: number; // 设备像素比，截图宽度 ≈ width * dpr
+  platform: 'ios' | 'android' | 'web';
 }
 
 export interface Annotation {
@@ -21,10 +128,29 @@ export interface Annotation {
   width?: number; 
   height?: number; 
   text: string;
-  type: 'manual' | 'ai' | 'color' | 'measure';
+  type: 'manual' | 'ai' | 'color' | 'measure' | 'diff' | 'typography' | 'text' | 'mask';
   color?: string;
   endX?: number;
   endY?: number;
+  pixelLength?: number; // 测量线长度（图片像素）
+  expected?: number; // 期望值（逻辑像素），与测量值对照
+  expectedColor?: string; // 设计稿同一位置的取色
+  deltaE?: number; // 设计稿与实现图取色的 CIEDE2000 色差
+  paired?: boolean; // 成对测量：设计稿一侧按叠加对齐参数投影
+  typography?: TypographyMetrics; // 文字检测结果（逻辑像素）
+  expectedTypography?: TypographyMetrics; // 设计稿同一区域的文字检测结果
+  figmaSpec?: string; // 取自 Figma 节点的规格 (如 padding-left: 16px)，期望值为精确值而非像素估算
+}
+
+// 按字形像素估算的文字排版参数
+export interface TypographyMetrics {
+  fontSize: number;
+  capHeight: number; // 行顶到基线
+  xHeight?: number; // 没有小写字母时为空
+  lineHeight?: number; // 多行时相邻基线距离
+  lineCount: number;
+  strokeWidth: number;
+  weight: number; // 300-700 的估算字重
 }
 
 export interface Issue {
@@ -37,29 +163,120 @@ export interface Issue {
   status: 'open' | 'in_progress' | 'resolved' | 'wont_fix';
   annotationId?: string;
   comments?: Comment[];
+  needsRecheck?: { reason: string; at: number }; // 标注区域在设计稿重新同步后发生变化，需要按新设计复查
 }
 
 export interface Project {
   id: string;
   name: string;
-  designImage: string | null;
+  designImages: DesignImage[]; // 支持多设计稿（如同一流程的多个状态）
   devImages: DevImage[]; // 支持多实现图
   activeDevImageId: string | null; // 当前正在查看的实现图ID
   issues: Issue[];
   annotations: Annotation[];
   figmaUrl?: string; // Figma 链接
+  customDevices?: DeviceProfile[]; // 页面内自定义的设备/断点
+  tokens?: DesignToken[]; // 设计系统 token，用于取色/测量时建议 token 名
+  maskTemplates?: MaskTemplate[]; // 忽略区域模板，新上传的实现图按页面与设备自动套用
+}
+
+// 某个页面（设计稿）在某个设备上的忽略区域，坐标为实现图百分比
+export interface MaskTemplate {
+  id: string;
+  designImageId: string;
+  deviceId?: string;
+  regions: { x: number; y: number; width: number; height: number; text?: string }[];
+}
+
+// 设计 token，name 为点分路径 (如 color.brand.primary)
+export interface DesignToken {
+  name: string;
+  type: 'color' | 'dimension';
+  value: string; // 颜色为 #RRGGBB，尺寸为逻辑像素数值
+}
+
+// AI 视觉分析服务
+export type AnalyzerProvider = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface AnalyzerSettings {
+  provider: AnalyzerProvider;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI 兼容接口 / 本地 Ollama 服务地址
+  tiled?: boolean; // 长图分块分析，未设置时默认开启
+}
+
+// Figma REST API 访问配置，仅保存在本机工作区，不随 .designsync 包导出
+export interface FigmaSettings {
+  token?: string; // Personal Access Token
+  apiBase?: string; // 默认 https://api.figma.com，可指向本地 mock 服务
+  scale?: number; // 默认导出倍率
+}
+
+// 本地截图服务地址与上次使用的截图参数，仅保存在本机工作区；Cookie 不保存
+export interface CaptureSettings {
+  serviceUrl?: string; // 默认 http://localhost:4020
+  url?: string;
+  deviceId?: string;
+  height?: number; // 视口高度（逻辑 px）
+  fullPage?: boolean;
+  waitFor?: string; // 截图前等待出现的 CSS 选择器
+  dom?: boolean; // 记录 DOM 快照，默认开启
+}
+
+// AI 返回的 [ymin, xmin, ymax, xmax]，0-1000 坐标系
+export type AiBoundingBox = [number, number, number, number];
+
+// 经过校验的 AI 差异结论
+export interface AiFinding {
+  title: string;
+  description: string;
+  suggestion: string;
+  severity: Issue['severity'];
+  boundingBox?: AiBoundingBox;
+}
+
+export interface AiAnalysisResult {
+  findings: AiFinding[];
+  discarded: number; // 格式异常被丢弃的条数
+  merged: number; // 区域重叠被合并的条数
+}
+
+// 画布视图状态，随工作区一起自动保存
+export interface WorkspaceViewState {
+  tabMode: TabMode;
+  comparisonMode: ComparisonMode;
+  scale: number;
+  position: { x: number; y: number };
+  overlayOffset: { x: number; y: number };
+  overlayScale?: number; // 设计稿叠加缩放，旧快照中没有该字段
+  isAligned?: boolean; // 用户是否对齐过（自动对齐或拖拽），未对齐时各项比对按宽度等比缩放
+  measureUnit?: MeasureUnit; // 未设置时按设备平台选择 pt/dp/px
+}
+
+// 持久化到 IndexedDB 的完整工作区快照
+export interface WorkspaceSnapshot {
+  projects: Project[];
+  activeProjectId: string;
+  view: WorkspaceViewState;
+  analyzer?: AnalyzerSettings; // 按工作区选择的 AI 服务
+  figma?: FigmaSettings;
+  capture?: CaptureSettings;
+  savedAt: number;
 }
 
 export enum TabMode {
   UPLOAD = 'UPLOAD',
   COMPARE = 'COMPARE',
+  MATRIX = 'MATRIX',
   REPORT = 'REPORT'
 }
 
 export enum ComparisonMode {
   SIDE_BY_SIDE = 'SIDE_BY_SIDE',
   SLIDER = 'SLIDER',
-  OVERLAY = 'OVERLAY'
+  OVERLAY = 'OVERLAY',
+  DIFFERENCE = 'DIFFERENCE'
 }
 
 export enum ToolMode {
@@ -68,5 +285,7 @@ export enum ToolMode {
   COLOR_PICKER = 'COLOR_PICKER',
   RULER = 'RULER',
   INSPECTOR = 'INSPECTOR',
+  MASK = 'MASK',
+  TYPOGRAPHY = 'TYPOGRAPHY',
   ALIGNER = 'ALIGNER'
 }